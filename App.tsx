@@ -1,45 +1,251 @@
-import React, { useState } from 'react';
-import { analyzePortfolio } from './services/geminiService';
+import React, { useRef, useState } from 'react';
+import { AnalysisRun, AnalysisRunState, createAnalysisRun } from './services/analysisRunner';
+import { createDefaultListingSource, expandRepositoryInput, ExpandedInput, RepoListingSource } from './services/repoListing';
+import { getProvider } from './services/llmProvider';
 import Dashboard from './components/Dashboard';
-import { AnalysisResult, InputState } from './types';
-import { Loader2, Search, Github } from 'lucide-react';
+import { AnalysisRecord, AnalysisResult, InputState } from './types';
+import { Loader2, Search, Github, History, Upload, ScrollText, SlidersHorizontal } from 'lucide-react';
 import ErrorBoundary from './components/ErrorBoundary';
+import SourceCollector from './components/SourceCollector';
+import HistoryView from './components/HistoryView';
+import RunDiff from './components/RunDiff';
+import AnalysisProgress from './components/AnalysisProgress';
+import RepoFiltersPanel from './components/RepoFiltersPanel';
+import { CollectedSource } from './services/factCollector';
+import { saveAnalysis } from './services/historyStore';
+import { parseAnalysisFile } from './services/analysisFile';
+import { AnalysisValidationError, ValidationIssue } from './services/errors';
+import { isAbortError } from './services/requestPolicy';
+import PromptTemplatesModal from './components/PromptTemplatesModal';
+import { mockAnalysis } from './services/providers/mockFixtures';
+import { loadOrgProfile } from './services/orgProfile';
+import RubricModal from './components/RubricModal';
+import { DEFAULT_REPO_QUERY, writeQueryToUrl } from './services/repoQuery';
+import { activeRubric, loadRubricLibrary, RubricLibrary, saveRubricLibrary } from './services/rubrics';
+import { loadTrackedActions, saveTrackedActions, syncTrackedActions, TrackerSync } from './services/actionTracker';
 
 const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorTitle, setErrorTitle] = useState('Analysis Failed:');
+  const [errorIssues, setErrorIssues] = useState<ValidationIssue[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const runRef = useRef<AnalysisRun | null>(null);
+  const recordIdRef = useRef<string | undefined>(undefined);
+  const [runState, setRunState] = useState<AnalysisRunState | null>(null);
   const [input, setInput] = useState<InputState>({
     urls: '',
     context: ''
   });
+  const [sources, setSources] = useState<CollectedSource[]>([]);
+  const [listing, setListing] = useState<RepoListingSource | null>(null);
+  const [expanded, setExpanded] = useState<ExpandedInput | null>(null);
+  const expandAbortRef = useRef<AbortController | null>(null);
+  const [view, setView] = useState<'form' | 'history' | 'compare'>('form');
+  const [comparison, setComparison] = useState<{ before: AnalysisRecord; after: AnalysisRecord } | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [rubricLibrary, setRubricLibrary] = useState<RubricLibrary>(loadRubricLibrary);
+  const [rubricsOpen, setRubricsOpen] = useState(false);
+  const [trackerSync, setTrackerSync] = useState<TrackerSync | null>(null);
+
+  // Only a finished live run changes the action tracker; History records and imported
+  // files read it as it is. Matched items keep their progress across analyses.
+  const syncTracker = (state: AnalysisRunState) => {
+    const { actions, repos } = state.result;
+    if (state.summaryStatus !== 'done' || actions.length === 0) return;
+    const sync = syncTrackedActions(loadTrackedActions(), actions, repos.map(r => r.name));
+    try {
+      saveTrackedActions(sync.actions);
+    } catch (error) {
+      console.warn("Failed to save the action tracker", error);
+    }
+    setTrackerSync(sync);
+  };
+
+  // History is best-effort; a storage failure must not hide a successful analysis.
+  // Retries of a run overwrite the record saved for it.
+  const persistRun = (state: AnalysisRunState) => {
+    if (state.summaryStatus !== 'done') return;
+    saveAnalysis(input, state.result, recordIdRef.current)
+      .then(record => { recordIdRef.current = record.id; })
+      .catch(err => console.error("Failed to save analysis history:", err));
+  };
 
   const handleAnalyze = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.urls.trim()) return;
 
     setLoading(true);
+    setResult(null);
     setError(null);
+    setErrorIssues([]);
+    setErrorTitle('Analysis Failed:');
+    setExpanded(null);
+    setRunState(null);
+    setTrackerSync(null);
+    recordIdRef.current = undefined;
 
     try {
-      const data = await analyzePortfolio(input.urls, input.context);
-      setResult(data);
+      const controller = new AbortController();
+      expandAbortRef.current = controller;
+      const expansion = await expandRepositoryInput(
+        input.urls,
+        listing || createDefaultListingSource(),
+        input.filters,
+        controller.signal
+      );
+      expandAbortRef.current = null;
+      // Cancelled after the last listing arrived: do not start the run.
+      if (controller.signal.aborted) return;
+      setExpanded(expansion);
+      if (expansion.urls.length === 0) {
+        setError("No repositories to analyze. Check the URLs and the profile filters.");
+        return;
+      }
+
+      const facts = Object.fromEntries(sources.map(({ source, facts }) => [source.name, facts]));
+      const run = createAnalysisRun({ urls: expansion.urls, context: input.context, facts, rubric: activeRubric(rubricLibrary), onChange: setRunState });
+      runRef.current = run;
+      setRunState(run.getState());
+
+      const state = await run.start();
+      if (state.result.repos.length === 0) {
+        // Nothing to show on the Dashboard; surface the first failure on the form instead.
+        const failure = state.jobs.find(job => job.error);
+        if (failure?.error !== 'Cancelled.') {
+          setError(failure ? `${failure.url}: ${failure.error}` : "An unexpected error occurred during analysis.");
+        }
+        setRunState(null);
+        runRef.current = null;
+        return;
+      }
+      syncTracker(state);
+      persistRun(state);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred during analysis.");
+      // Only profile expansion can throw here; the run reports failures through its state.
+      if (!isAbortError(err)) setError(err.message || "Failed to expand repository list.");
+    } finally {
+      expandAbortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const cancelAnalysis = () => {
+    expandAbortRef.current?.abort();
+    runRef.current?.cancel();
+  };
+
+  const retryStep = async (step: (run: AnalysisRun) => Promise<AnalysisRunState>) => {
+    const run = runRef.current;
+    if (!run) return;
+    setLoading(true);
+    try {
+      const state = await step(run);
+      syncTracker(state);
+      persistRun(state);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleLoadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setErrorIssues([]);
+    setErrorTitle('Import Failed:');
+    try {
+      const loaded = parseAnalysisFile(await file.text());
+      if (loaded.input) setInput(loaded.input);
+      setTrackerSync(null);
+      setResult(loaded.result);
+    } catch (err: any) {
+      setError(err.message || "Failed to load analysis file.");
+      if (err instanceof AnalysisValidationError) setErrorIssues(err.issues);
+    }
+  };
+
   const reset = () => {
+    runRef.current?.cancel();
+    runRef.current = null;
+    setRunState(null);
+    setTrackerSync(null);
     setResult(null);
     setInput({ urls: '', context: '' });
+    setSources([]);
+    setExpanded(null);
+    // The Dashboard may have changed the rubrics.
+    setRubricLibrary(loadRubricLibrary());
+    writeQueryToUrl(DEFAULT_REPO_QUERY);
+    setView('form');
   };
 
-  if (result) {
+  const showHistory = () => {
+    runRef.current?.cancel();
+    runRef.current = null;
+    setRunState(null);
+    setTrackerSync(null);
+    setResult(null);
+    setView('history');
+  };
+
+  const openRecord = (record: AnalysisRecord) => {
+    setInput(record.input);
+    setResult(record.result);
+  };
+
+  const progress = runState && (
+    <AnalysisProgress
+      state={runState}
+      running={loading}
+      onCancel={cancelAnalysis}
+      onRetryRepo={url => retryStep(run => run.retryRepo(url))}
+      onRetrySummary={() => retryStep(run => run.retrySummary())}
+    />
+  );
+
+  // A live run moves to the Dashboard as soon as its first repository is audited.
+  const current = runState && runState.result.repos.length > 0 ? runState : null;
+
+  if (result || current) {
+    return (
+      <ErrorBoundary>
+        <Dashboard
+          data={current ? current.result : result!}
+          input={input}
+          progress={current ? progress : undefined}
+          summaryPending={!!current && current.summaryStatus !== 'done'}
+          onReset={reset}
+          onShowHistory={showHistory}
+          sources={sources}
+          trackerSync={trackerSync}
+        />
+      </ErrorBoundary>
+    );
+  }
+
+  if (view === 'compare' && comparison) {
     return (
       <ErrorBoundary>
-        <Dashboard data={result} onReset={reset} />
+        <RunDiff before={comparison.before} after={comparison.after} onBack={() => setView('history')} />
+      </ErrorBoundary>
+    );
+  }
+
+  if (view === 'history') {
+    return (
+      <ErrorBoundary>
+        <HistoryView
+          onOpen={openRecord}
+          onCompare={(before, after) => {
+            setComparison({ before, after });
+            setView('compare');
+          }}
+          onBack={() => setView('form')}
+        />
       </ErrorBoundary>
     );
   }
@@ -72,12 +278,20 @@ const App: React.FC = () => {
                   id="urls"
                   required
                   className="w-full h-32 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all font-mono text-sm resize-none placeholder-slate-600"
-                  placeholder="https://github.com/username/repo1&#10;https://github.com/username/repo2"
+                  placeholder="https://github.com/username/repo1&#10;username/repo2&#10;https://github.com/your-org"
                   value={input.urls}
                   onChange={(e) => setInput(prev => ({ ...prev, urls: e.target.value }))}
                 />
               </div>
 
+              <RepoFiltersPanel
+                filters={input.filters}
+                onChange={filters => setInput(prev => ({ ...prev, filters }))}
+                listing={listing}
+                onListingChange={setListing}
+                expanded={expanded}
+              />
+
               <div>
                 <label htmlFor="context" className="block text-sm font-medium text-slate-300 mb-2">
                   Context Notes (Optional)
@@ -91,10 +305,19 @@ const App: React.FC = () => {
                 />
               </div>
 
+              <SourceCollector sources={sources} onChange={setSources} />
+
               {error && (
                 <div className="p-4 bg-red-900/20 border border-red-900/50 rounded-lg text-red-200 text-sm animate-in fade-in slide-in-from-top-2">
-                  <span className="font-semibold block mb-1">Analysis Failed:</span>
+                  <span className="font-semibold block mb-1">{errorTitle}</span>
                   {error}
+                  {errorIssues.length > 0 && (
+                    <ul className="mt-2 space-y-1 font-mono text-xs max-h-40 overflow-y-auto">
+                      {errorIssues.map((issue, i) => (
+                        <li key={i}><span className="text-red-300">{issue.path}</span>: {issue.message}</li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
 
@@ -117,14 +340,53 @@ const App: React.FC = () => {
                   </>
                 )}
               </button>
+
+              {loading && !runState && (
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                  <span>Resolving repositories...</span>
+                  <button type="button" onClick={cancelAnalysis} className="text-slate-500 hover:text-white underline decoration-dotted">
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {loading && progress}
               
               <p className="text-center text-xs text-slate-500 mt-4">
-                Powered by Google Gemini 3.0 Pro. Analysis is inferred based on provided URLs and public availability.
+                Powered by {getProvider().label}. Analysis is inferred based on provided URLs and public availability.
               </p>
             </form>
           </div>
 
-          <div className="text-center">
+          <div className="text-center space-x-4">
+              <button
+                  type="button"
+                  className="text-xs text-slate-500 hover:text-emerald-400 underline decoration-dotted inline-flex items-center gap-1"
+                  onClick={() => setView('history')}
+              >
+                  <History size={12} /> View past analyses
+              </button>
+              <button
+                  type="button"
+                  className="text-xs text-slate-500 hover:text-emerald-400 underline decoration-dotted inline-flex items-center gap-1"
+                  onClick={() => fileInput.current?.click()}
+              >
+                  <Upload size={12} /> Load saved analysis (.json)
+              </button>
+              <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleLoadFile} />
+              <button
+                  type="button"
+                  className="text-xs text-slate-500 hover:text-emerald-400 underline decoration-dotted inline-flex items-center gap-1"
+                  onClick={() => setTemplatesOpen(true)}
+              >
+                  <ScrollText size={12} /> Prompt templates
+              </button>
+              <button
+                  type="button"
+                  className="text-xs text-slate-500 hover:text-emerald-400 underline decoration-dotted inline-flex items-center gap-1"
+                  onClick={() => setRubricsOpen(true)}
+              >
+                  <SlidersHorizontal size={12} /> Scoring rubric: {activeRubric(rubricLibrary).name}
+              </button>
               <button 
                   type="button"
                   className="text-xs text-slate-500 hover:text-emerald-400 underline decoration-dotted"
@@ -137,6 +399,30 @@ const App: React.FC = () => {
               </button>
           </div>
 
+          <PromptTemplatesModal
+            isOpen={templatesOpen}
+            onClose={() => setTemplatesOpen(false)}
+            repos={mockAnalysis.repos}
+            summary={mockAnalysis.summary}
+            context={input.context}
+            profile={loadOrgProfile()}
+            rubric={activeRubric(rubricLibrary)}
+          />
+
+          <RubricModal
+            isOpen={rubricsOpen}
+            onClose={() => setRubricsOpen(false)}
+            library={rubricLibrary}
+            onSave={(next) => {
+              setRubricLibrary(next);
+              try {
+                saveRubricLibrary(next);
+              } catch (error: any) {
+                alert(`The rubrics apply to this session only: ${error.message}`);
+              }
+            }}
+          />
+
         </div>
       </ErrorBoundary>
     </div>
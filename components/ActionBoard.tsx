@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Calendar, User, StickyNote, ChevronDown, ChevronUp, Zap, Link2 } from 'lucide-react';
+import { ActionStatus, TrackedAction } from '../types';
+import {
+  ACTION_STATUS_LABELS, ACTION_STATUSES, compareTrackedActions, isOverdue, TrackedActionPatch
+} from '../services/actionTracker';
+import { isQuickWin } from '../services/roadmap';
+
+interface ActionBoardProps {
+  actions: TrackedAction[];
+  onChange: (id: string, patch: TrackedActionPatch) => void;
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+  High: 'text-red-400 bg-red-400/10',
+  Medium: 'text-yellow-400 bg-yellow-400/10',
+  Low: 'text-blue-400 bg-blue-400/10',
+};
+
+const COLUMN_STYLES: Record<ActionStatus, string> = {
+  todo: 'border-slate-700',
+  inProgress: 'border-indigo-500/40',
+  done: 'border-emerald-500/40',
+  wontDo: 'border-slate-700 opacity-80',
+};
+
+const fieldClass = 'w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500';
+
+const ActionCard: React.FC<{ action: TrackedAction; all: TrackedAction[]; onChange: ActionBoardProps['onChange'] }> = ({ action, all, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const { item } = action;
+  // Dependencies are only offered between actions on the same repository.
+  const siblings = all.filter(a => a.id !== action.id && a.item.repo === item.repo);
+  const dependsOn = (action.dependsOn || []).filter(id => siblings.some(a => a.id === id));
+
+  const toggleDependency = (id: string) => {
+    const next = dependsOn.includes(id) ? dependsOn.filter(d => d !== id) : [...dependsOn, id];
+    onChange(action.id, { dependsOn: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div
+      // The editor's inputs need normal text selection, so an open card is not draggable.
+      draggable={!open}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', action.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      className={`bg-slate-800 p-3 rounded border border-slate-700 shadow-sm hover:border-slate-600 transition-colors ${open ? '' : 'cursor-grab active:cursor-grabbing'}`}
+    >
+      <div className="flex justify-between items-start gap-2 mb-1">
+        <span className={`font-semibold text-sm ${action.status === 'done' || action.status === 'wontDo' ? 'text-slate-400 line-through decoration-slate-600' : 'text-slate-200'}`}>
+          {item.title}
+        </span>
+        <button onClick={() => setOpen(!open)} className="text-slate-500 hover:text-white shrink-0" title={open ? 'Collapse' : 'Edit'}>
+          {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px] mb-1">
+        <span className={`px-1.5 py-0.5 rounded ${PRIORITY_STYLES[item.priority] || PRIORITY_STYLES.Low}`}>{item.priority}</span>
+        <span className="font-mono text-slate-500 bg-slate-900 px-1.5 py-0.5 rounded">{item.effort} Effort</span>
+        {isQuickWin(item) && <span className="flex items-center gap-0.5 px-1.5 py-0.5 rounded text-emerald-400 bg-emerald-400/10"><Zap size={10} /> Quick win</span>}
+        <span className="font-mono text-indigo-400">{item.repo}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-500">
+        {action.assignee && <span className="flex items-center gap-1"><User size={11} /> {action.assignee}</span>}
+        {action.dueDate && (
+          <span className={`flex items-center gap-1 ${isOverdue(action) ? 'text-rose-400' : ''}`}>
+            <Calendar size={11} /> {action.dueDate}
+          </span>
+        )}
+        {action.notes && !open && <span className="flex items-center gap-1"><StickyNote size={11} /> Notes</span>}
+        {dependsOn.length > 0 && !open && <span className="flex items-center gap-1"><Link2 size={11} /> {dependsOn.length} dependenc{dependsOn.length === 1 ? 'y' : 'ies'}</span>}
+        {action.stale && <span className="text-amber-400/80" title="The latest analysis of this repository no longer proposes it">No longer proposed</span>}
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-2 border-t border-slate-700 pt-3">
+          <p className="text-xs text-slate-400 leading-normal">{item.rationale}</p>
+          {item.impact && <p className="text-xs text-slate-500"><span className="text-slate-400">Impact:</span> {item.impact}</p>}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-0.5">
+              <span className="text-[11px] text-slate-500">Status</span>
+              <select className={fieldClass} value={action.status} onChange={(e) => onChange(action.id, { status: e.target.value as ActionStatus })}>
+                {ACTION_STATUSES.map(status => <option key={status} value={status}>{ACTION_STATUS_LABELS[status]}</option>)}
+              </select>
+            </label>
+            <label className="space-y-0.5">
+              <span className="text-[11px] text-slate-500">Due</span>
+              <input type="date" className={fieldClass} value={action.dueDate || ''} onChange={(e) => onChange(action.id, { dueDate: e.target.value || undefined })} />
+            </label>
+          </div>
+          <label className="block space-y-0.5">
+            <span className="text-[11px] text-slate-500">Assignee</span>
+            <input className={fieldClass} placeholder="@handle or name" value={action.assignee} onChange={(e) => onChange(action.id, { assignee: e.target.value })} />
+          </label>
+          <label className="block space-y-0.5">
+            <span className="text-[11px] text-slate-500">Notes</span>
+            <textarea rows={3} className={`${fieldClass} resize-y`} value={action.notes} onChange={(e) => onChange(action.id, { notes: e.target.value })} />
+          </label>
+          {siblings.length > 0 && (
+            <div className="space-y-0.5">
+              <span className="text-[11px] text-slate-500">Depends on</span>
+              {siblings.map(sibling => (
+                <label key={sibling.id} className="flex items-start gap-1.5 text-xs text-slate-300">
+                  <input type="checkbox" className="accent-emerald-500 mt-0.5" checked={dependsOn.includes(sibling.id)} onChange={() => toggleDependency(sibling.id)} />
+                  {sibling.item.title}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ActionBoard: React.FC<ActionBoardProps> = ({ actions, onChange }) => {
+  const [dropTarget, setDropTarget] = useState<ActionStatus | null>(null);
+
+  const handleDrop = (e: React.DragEvent, status: ActionStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const id = e.dataTransfer.getData('text/plain');
+    const action = actions.find(a => a.id === id);
+    if (action && action.status !== status) onChange(id, { status });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+      {ACTION_STATUSES.map(status => {
+        const items = actions.filter(a => a.status === status).sort(compareTrackedActions);
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              if (dropTarget !== status) setDropTarget(status);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`rounded-xl border p-3 min-h-[8rem] bg-slate-900/40 transition-colors ${COLUMN_STYLES[status]} ${
+              dropTarget === status ? 'ring-2 ring-emerald-500/50' : ''
+            }`}
+          >
+            <h3 className="text-sm font-bold text-slate-300 mb-3 flex items-center justify-between">
+              {ACTION_STATUS_LABELS[status]}
+              <span className="text-xs font-mono text-slate-500">{items.length}</span>
+            </h3>
+            <div className="space-y-3">
+              {items.map(action => <ActionCard key={action.id} action={action} all={actions} onChange={onChange} />)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ActionBoard;
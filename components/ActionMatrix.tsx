@@ -0,0 +1,66 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { TrackedAction } from '../types';
+import { Quadrant, QUADRANT_LABELS, quadrantOf, valueScore } from '../services/roadmap';
+
+interface ActionMatrixProps {
+  actions: TrackedAction[];
+}
+
+const QUADRANTS: { id: Quadrant; hint: string; style: string }[] = [
+  { id: 'quickWin', hint: 'High impact, small effort: do these first.', style: 'border-emerald-500/50 bg-emerald-500/5' },
+  { id: 'majorProject', hint: 'High impact, bigger effort: plan them.', style: 'border-indigo-500/40 bg-indigo-500/5' },
+  { id: 'fillIn', hint: 'Low impact, small effort: fit them in.', style: 'border-slate-700 bg-slate-900/40' },
+  { id: 'thankless', hint: 'Low impact, bigger effort: question them.', style: 'border-slate-700 bg-slate-900/20' },
+];
+
+const ActionMatrix: React.FC<ActionMatrixProps> = ({ actions }) => {
+  const isOpen = (action: TrackedAction) => action.status === 'todo' || action.status === 'inProgress';
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex flex-col justify-between py-2 text-[11px] uppercase tracking-wider text-slate-500 [writing-mode:vertical-rl] rotate-180">
+        <span>Low impact</span>
+        <span>Impact →</span>
+        <span>High impact</span>
+      </div>
+      <div className="flex-1 space-y-2">
+        <div className="grid grid-cols-2 gap-3">
+          {QUADRANTS.map(quadrant => {
+            // Finished items stay visible but sink below the open ones.
+            const items = actions
+              .filter(a => quadrantOf(a.item) === quadrant.id)
+              .sort((a, b) => Number(isOpen(b)) - Number(isOpen(a)) || valueScore(b.item) - valueScore(a.item));
+            return (
+              <div key={quadrant.id} className={`rounded-xl border p-3 min-h-[9rem] ${quadrant.style}`}>
+                <h3 className="text-sm font-bold text-slate-200 flex items-center gap-1.5">
+                  {quadrant.id === 'quickWin' && <Zap size={14} className="text-emerald-400" />}
+                  {QUADRANT_LABELS[quadrant.id]}
+                  <span className="text-xs font-mono text-slate-500 ml-auto">{items.length}</span>
+                </h3>
+                <p className="text-[11px] text-slate-500 mb-2">{quadrant.hint}</p>
+                <ul className="space-y-1.5">
+                  {items.map(action => (
+                    <li key={action.id} className={`text-xs bg-slate-800 border border-slate-700 rounded px-2 py-1.5 ${isOpen(action) ? '' : 'opacity-50'}`}>
+                      <span className={isOpen(action) ? 'text-slate-200' : 'text-slate-400 line-through decoration-slate-600'}>{action.item.title}</span>
+                      <span className="block text-[11px] text-slate-500">
+                        <span className="font-mono text-indigo-400">{action.item.repo}</span> · {action.item.priority} priority · {action.item.effort} effort
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex justify-between text-[11px] uppercase tracking-wider text-slate-500 px-2">
+          <span>Small effort</span>
+          <span>Effort →</span>
+          <span>Medium / large effort</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActionMatrix;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CheckCircle, Circle, Loader2, RefreshCw, X, XCircle } from 'lucide-react';
+import { AnalysisRunState, JobStatus } from '../services/analysisRunner';
+
+interface AnalysisProgressProps {
+  state: AnalysisRunState;
+  running: boolean;
+  onCancel: () => void;
+  onRetryRepo: (url: string) => void;
+  onRetrySummary: () => void;
+}
+
+const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running': return <Loader2 size={14} className="animate-spin text-indigo-400" />;
+    case 'done': return <CheckCircle size={14} className="text-emerald-400" />;
+    case 'failed': return <XCircle size={14} className="text-red-400" />;
+    default: return <Circle size={14} className="text-slate-600" />;
+  }
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ state, running, onCancel, onRetryRepo, onRetrySummary }) => {
+  const total = state.jobs.length;
+  const finished = state.jobs.filter(j => j.status === 'done' || j.status === 'failed').length;
+  const failed = state.jobs.filter(j => j.status === 'failed').length;
+  // The summary phase counts as one more step so the bar only fills when everything is done.
+  const percent = Math.round(((finished + (state.summaryStatus === 'done' ? 1 : 0)) / (total + 1)) * 100);
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-300">
+          {finished}/{total} repositories audited
+          {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+        </div>
+        {running && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+          >
+            <X size={14} /> Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs max-h-48 overflow-y-auto">
+        {state.jobs.map(job => (
+          <li key={job.url} className="flex items-center gap-2 min-w-0">
+            <StatusIcon status={job.status} />
+            <span className={`font-mono truncate ${job.status === 'failed' ? 'text-red-300' : 'text-slate-400'}`} title={job.error || job.url}>
+              {job.url}
+            </span>
+            {job.status === 'failed' && !running && (
+              <button
+                type="button"
+                onClick={() => onRetryRepo(job.url)}
+                className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white shrink-0"
+              >
+                <RefreshCw size={12} /> Retry
+              </button>
+            )}
+          </li>
+        ))}
+        <li className="flex items-center gap-2">
+          <StatusIcon status={state.summaryStatus} />
+          <span className={state.summaryStatus === 'failed' ? 'text-red-300' : 'text-slate-400'} title={state.summaryError}>
+            Portfolio summary & action plan
+          </span>
+          {state.summaryStatus === 'failed' && !running && state.jobs.some(j => j.status === 'done') && (
+            <button
+              type="button"
+              onClick={onRetrySummary}
+              className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white shrink-0"
+            >
+              <RefreshCw size={12} /> Retry
+            </button>
+          )}
+        </li>
+      </ul>
+    </div>
+  );
+};
+
+export default AnalysisProgress;
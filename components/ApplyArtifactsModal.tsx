@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, GitBranch, FolderOpen, Download, Save, Loader2, ChevronDown, ChevronRight, Archive } from 'lucide-react';
+import {
+  bundleEntries,
+  bundleFileName,
+  downloadPatch,
+  FileChange,
+  formatPatch,
+  GeneratedArtifact,
+  patchFileName,
+  planChanges,
+  writeChanges
+} from '../services/artifactApply';
+import { LocalCheckout, pickCheckout, supportsCheckoutWrites } from '../services/localCheckout';
+import { downloadZip } from '../services/zipWriter';
+
+interface ApplyArtifactsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Must keep its identity between renders; a new array re-reads every checkout.
+  artifacts: GeneratedArtifact[];
+}
+
+interface RepoTarget {
+  checkout: LocalCheckout | null;
+  changes: FileChange[];
+  status?: string;
+  error?: string;
+  busy?: boolean;
+}
+
+const PATCH_SUBJECT = 'Add generated repository governance files';
+
+const KIND_STYLES: Record<FileChange['kind'], string> = {
+  create: 'text-emerald-400 border-emerald-900/50 bg-emerald-900/20',
+  modify: 'text-amber-300 border-amber-900/50 bg-amber-900/20',
+  unchanged: 'text-slate-500 border-slate-700 bg-slate-800',
+};
+
+const DiffView: React.FC<{ diff: string }> = ({ diff }) => (
+  <pre className="font-mono text-xs leading-relaxed overflow-x-auto bg-slate-950 border border-slate-800 rounded p-3">
+    {diff.split('\n').map((line, i) => (
+      <div
+        key={i}
+        className={
+          line.startsWith('+') && !line.startsWith('+++') ? 'text-emerald-400' :
+          line.startsWith('-') && !line.startsWith('---') ? 'text-red-400' :
+          line.startsWith('@@') ? 'text-indigo-400' : 'text-slate-400'
+        }
+      >
+        {line || ' '}
+      </div>
+    ))}
+  </pre>
+);
+
+const ApplyArtifactsModal: React.FC<ApplyArtifactsModalProps> = ({ isOpen, onClose, artifacts }) => {
+  const [targets, setTargets] = useState<Record<string, RepoTarget>>({});
+  const [openDiff, setOpenDiff] = useState<string | null>(null);
+  const canWrite = supportsCheckoutWrites();
+
+  const byRepo: Map<string, GeneratedArtifact[]> = useMemo(() => {
+    const groups = new Map<string, GeneratedArtifact[]>();
+    artifacts.forEach(artifact => groups.set(artifact.repo, [...(groups.get(artifact.repo) || []), artifact]));
+    return groups;
+  }, [artifacts]);
+
+  const updateTarget = (repo: string, patch: Partial<RepoTarget>) =>
+    setTargets(prev => ({ ...prev, [repo]: { checkout: null, changes: [], ...prev[repo], ...patch } }));
+
+  const refresh = async (repo: string, checkout: LocalCheckout | null) => {
+    updateTarget(repo, { checkout, busy: true, error: undefined, status: undefined });
+    try {
+      updateTarget(repo, { changes: await planChanges(byRepo.get(repo) || [], checkout), busy: false });
+    } catch (err: any) {
+      updateTarget(repo, { busy: false, error: err.message || "Failed to read the checkout." });
+    }
+  };
+
+  // Re-plan whenever the set of generated artifacts changes, keeping chosen checkouts.
+  useEffect(() => {
+    if (!isOpen) return;
+    byRepo.forEach((_, repo) => refresh(repo, targets[repo]?.checkout || null));
+  }, [isOpen, byRepo]);
+
+  if (!isOpen) return null;
+
+  const chooseCheckout = async (repo: string) => {
+    try {
+      await refresh(repo, await pickCheckout());
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') updateTarget(repo, { error: err.message || "Failed to open the folder." });
+    }
+  };
+
+  const write = async (repo: string) => {
+    const target = targets[repo];
+    if (!target?.checkout) return;
+    updateTarget(repo, { busy: true, error: undefined });
+    try {
+      const count = await writeChanges(target.checkout, target.changes);
+      await refresh(repo, target.checkout);
+      updateTarget(repo, { status: `Wrote ${count} file${count === 1 ? '' : 's'} to ${target.checkout.name}.` });
+    } catch (err: any) {
+      updateTarget(repo, { busy: false, error: err.message || "Failed to write files." });
+    }
+  };
+
+  const download = (repo: string) => {
+    try {
+      const patch = formatPatch(targets[repo]?.changes || [], PATCH_SUBJECT);
+      if (patch) downloadPatch(patch, patchFileName(repo));
+    } catch (err: any) {
+      updateTarget(repo, { error: err.message || "Failed to create the patch." });
+    }
+  };
+
+  const repoNames = Array.from(byRepo.keys());
+  const writable = repoNames.filter(repo => targets[repo]?.checkout && targets[repo].changes.some(c => c.kind !== 'unchanged'));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <GitBranch className="text-emerald-400" size={20} />
+            Apply to Repository
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          <p className="text-xs text-slate-500">
+            Choose a local checkout to compare against existing files and write them in place, or download a patch and apply it with <code className="text-slate-300">git am</code>.
+            {!canWrite && ' This browser cannot open folders for writing, so patches assume every file is new.'}
+          </p>
+
+          {repoNames.map(repo => {
+            const target = targets[repo];
+            const changes = target?.changes || [];
+            const pending = changes.filter(c => c.kind !== 'unchanged').length;
+            return (
+              <div key={repo} className="border border-slate-800 rounded-lg">
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-slate-800/50">
+                  <div className="min-w-0">
+                    <span className="font-semibold text-white">{repo}</span>
+                    <span className="text-xs text-slate-500 ml-2">
+                      {target?.checkout ? `checkout: ${target.checkout.name}` : 'no checkout selected'}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    {canWrite && (
+                      <button
+                        onClick={() => chooseCheckout(repo)}
+                        disabled={target?.busy}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <FolderOpen size={14} /> {target?.checkout ? 'Change Checkout' : 'Choose Checkout'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => download(repo)}
+                      disabled={target?.busy || pending === 0}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Download size={14} /> Patch
+                    </button>
+                    <button
+                      onClick={() => downloadZip(bundleEntries(byRepo.get(repo) || [], false), bundleFileName(repo))}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+                    >
+                      <Archive size={14} /> ZIP
+                    </button>
+                    <button
+                      onClick={() => write(repo)}
+                      disabled={!target?.checkout || target?.busy || pending === 0}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-50 disabled:bg-slate-700"
+                    >
+                      {target?.busy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Write Files
+                    </button>
+                  </div>
+                </div>
+
+                {target?.error && <div className="px-3 pt-2 text-xs text-red-300">{target.error}</div>}
+                {target?.status && <div className="px-3 pt-2 text-xs text-emerald-400">{target.status}</div>}
+
+                <ul className="p-3 space-y-2">
+                  {changes.map(change => {
+                    const key = `${repo}:${change.path}`;
+                    return (
+                      <li key={change.path}>
+                        <button
+                          onClick={() => setOpenDiff(openDiff === key ? null : key)}
+                          disabled={change.kind === 'unchanged'}
+                          className="w-full flex items-center gap-2 text-left text-sm text-slate-300 disabled:cursor-default"
+                        >
+                          {openDiff === key ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          <span className="font-mono">{change.path}</span>
+                          <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded border ${KIND_STYLES[change.kind]}`}>
+                            {change.kind}
+                          </span>
+                        </button>
+                        {openDiff === key && <div className="mt-2"><DiffView diff={change.diff} /></div>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-end gap-2">
+          {repoNames.length > 1 && (
+            <>
+              <button
+                onClick={() => downloadZip(bundleEntries(artifacts, true), bundleFileName('portfolio'))}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+              >
+                <Archive size={16} /> Portfolio ZIP
+              </button>
+              <button
+                onClick={() => repoNames.forEach(download)}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+              >
+                <Download size={16} /> All Patches
+              </button>
+              <button
+                onClick={() => writable.forEach(write)}
+                disabled={writable.length === 0}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Save size={16} /> Write All ({writable.length})
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyArtifactsModal;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { Citation } from '../types';
+import { webCitations } from '../services/citations';
+
+interface CitationListProps {
+  citations?: Citation[];
+  className?: string;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Numbered source links; the snippet the source supports shows on hover.
+const CitationList: React.FC<CitationListProps> = ({ citations, className = '' }) => {
+  const shown = webCitations(citations);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-slate-500 ${className}`}>
+      <span className="uppercase tracking-wider font-bold">Sources</span>
+      {shown.map((citation, i) => (
+        <a
+          key={citation.url}
+          href={citation.url}
+          target="_blank"
+          rel="noreferrer"
+          title={citation.snippet ? `“${citation.snippet}”` : citation.url}
+          className="flex items-center gap-0.5 text-indigo-400 hover:text-indigo-300 max-w-[16rem] truncate"
+        >
+          [{i + 1}] {citation.title || hostOf(citation.url)} <ExternalLink size={10} className="shrink-0" />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default CitationList;
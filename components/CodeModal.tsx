@@ -1,33 +1,124 @@
-import React, { useState } from 'react';
-import { X, Copy, Check, FileCode } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Copy, Check, FileCode, GitBranch, Folder, FileText, Archive, AlertTriangle, AlertCircle } from 'lucide-react';
+import { GeneratedFile } from '../types';
+import { downloadZip } from '../services/zipWriter';
+import { FileProblem, validateGeneratedFile } from '../services/configValidator';
+import { LLMTask } from '../services/llmProvider';
 
 interface CodeModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
-  content: string;
+  files: GeneratedFile[];
+  onApply?: () => void;
+  // When set, a ZIP of the files is offered under this name.
+  zipName?: string;
+  // Enables the checks that compare the output with what this generator was asked for.
+  task?: LLMTask;
 }
 
-const CodeModal: React.FC<CodeModalProps> = ({ isOpen, onClose, title, content }) => {
+interface TreeRow {
+  depth: number;
+  label: string;
+  file?: GeneratedFile;
+}
+
+const comparePaths = (a: string[], b: string[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aIsDir = i < a.length - 1;
+    const bIsDir = i < b.length - 1;
+    if (aIsDir !== bIsDir) return aIsDir ? -1 : 1;
+    const order = a[i].localeCompare(b[i]);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+};
+
+// Flattens the file paths into an indented tree, directories first.
+const buildTree = (files: GeneratedFile[]): TreeRow[] => {
+  const rows: TreeRow[] = [];
+  const seen = new Set<string>();
+  [...files]
+    .sort((a, b) => comparePaths(a.path.split('/'), b.path.split('/')))
+    .forEach(file => {
+      const segments = file.path.split('/');
+      segments.slice(0, -1).forEach((segment, depth) => {
+        const dir = segments.slice(0, depth + 1).join('/');
+        if (!seen.has(dir)) {
+          seen.add(dir);
+          rows.push({ depth, label: `${segment}/` });
+        }
+      });
+      rows.push({ depth: segments.length - 1, label: segments[segments.length - 1], file });
+    });
+  return rows;
+};
+
+const ProblemBadge: React.FC<{ problems?: FileProblem[] }> = ({ problems }) => {
+  if (!problems || problems.length === 0) return null;
+  const hasError = problems.some(p => p.severity === 'error');
+  return (
+    <span className={`ml-auto shrink-0 px-1.5 rounded text-[10px] font-sans ${hasError ? 'bg-rose-500/20 text-rose-300' : 'bg-amber-500/20 text-amber-300'}`}>
+      {problems.length}
+    </span>
+  );
+};
+
+const CodeModal: React.FC<CodeModalProps> = ({ isOpen, onClose, title, files, onApply, zipName, task }) => {
   const [copied, setCopied] = useState(false);
+  const [activePath, setActivePath] = useState<string | null>(null);
+
+  const problemsByPath: Map<string, FileProblem[]> = useMemo(
+    () => new Map(files.map(file => [file.path, validateGeneratedFile(file, task)])),
+    [files, task]
+  );
+
+  useEffect(() => {
+    setActivePath(files[0]?.path ?? null);
+  }, [files]);
 
   if (!isOpen) return null;
 
+  const active = files.find(f => f.path === activePath) || files[0];
+  const multiple = files.length > 1;
+  const activeProblems = (active && problemsByPath.get(active.path)) || [];
+  const problemLines = new Map<number, FileProblem['severity']>();
+  activeProblems.forEach(p => {
+    if (p.line && problemLines.get(p.line) !== 'error') problemLines.set(p.line, p.severity);
+  });
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(content);
+    if (!active) return;
+    navigator.clipboard.writeText(active.content);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
-      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl max-h-[85vh] flex flex-col shadow-2xl">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[85vh] flex flex-col shadow-2xl">
         <div className="flex items-center justify-between p-4 border-b border-slate-800">
           <h3 className="text-lg font-semibold text-white flex items-center gap-2">
             <FileCode className="text-emerald-400" size={20} />
             {title}
           </h3>
           <div className="flex items-center gap-2">
+            {onApply && (
+              <button
+                onClick={onApply}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+              >
+                <GitBranch size={14} /> Apply to Repo
+              </button>
+            )}
+            {zipName && (
+              <button
+                onClick={() => downloadZip(files.map(({ path, content }) => ({ path, content })), zipName)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+              >
+                <Archive size={14} /> ZIP
+              </button>
+            )}
             <button
               onClick={handleCopy}
               className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
@@ -43,13 +134,89 @@ const CodeModal: React.FC<CodeModalProps> = ({ isOpen, onClose, title, content }
             </button>
           </div>
         </div>
-        
-        <div className="flex-1 overflow-auto p-4 bg-slate-950">
-          <pre className="font-mono text-sm text-slate-300 whitespace-pre-wrap break-words leading-relaxed">
-            {content}
-          </pre>
+
+        <div className="flex-1 flex min-h-0">
+          {multiple && (
+            <nav className="w-56 shrink-0 overflow-y-auto border-r border-slate-800 bg-slate-900 py-2 text-xs font-mono">
+              {buildTree(files).map((row, i) => (
+                <button
+                  key={i}
+                  disabled={!row.file}
+                  onClick={() => row.file && setActivePath(row.file.path)}
+                  style={{ paddingLeft: `${0.75 + row.depth * 0.75}rem` }}
+                  className={`w-full flex items-center gap-1.5 pr-3 py-1 text-left truncate ${
+                    row.file && row.file.path === active?.path ? 'bg-slate-800 text-emerald-400' : 'text-slate-400 hover:text-white'
+                  } disabled:hover:text-slate-400 disabled:cursor-default`}
+                >
+                  {row.file ? <FileText size={12} className="shrink-0" /> : <Folder size={12} className="shrink-0" />}
+                  <span className="truncate">{row.label}</span>
+                  {row.file && <ProblemBadge problems={problemsByPath.get(row.file.path)} />}
+                </button>
+              ))}
+            </nav>
+          )}
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {multiple && (
+              <div className="flex overflow-x-auto border-b border-slate-800 bg-slate-900">
+                {files.map(file => (
+                  <button
+                    key={file.path}
+                    onClick={() => setActivePath(file.path)}
+                    className={`flex items-center gap-1.5 px-3 py-2 text-xs font-mono whitespace-nowrap border-r border-slate-800 ${
+                      file.path === active?.path ? 'bg-slate-950 text-white' : 'text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {file.path.split('/').pop()}
+                    <ProblemBadge problems={problemsByPath.get(file.path)} />
+                  </button>
+                ))}
+              </div>
+            )}
+            {active && (
+              <div className="px-4 pt-3 text-xs text-slate-500 font-mono bg-slate-950">
+                {active.path} · {active.language}{active.template && ` · ${active.template}`}
+              </div>
+            )}
+            {activeProblems.length > 0 && (
+              <ul className="mx-4 mt-3 p-2 space-y-1 max-h-36 overflow-y-auto rounded-lg border border-slate-800 bg-slate-900 text-xs">
+                {activeProblems.map((problem, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    {problem.severity === 'error'
+                      ? <AlertCircle size={12} className="mt-0.5 shrink-0 text-rose-400" />
+                      : <AlertTriangle size={12} className="mt-0.5 shrink-0 text-amber-400" />}
+                    <span className="text-slate-300">
+                      {problem.line && <span className="font-mono text-slate-500">L{problem.line} </span>}
+                      {problem.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex-1 overflow-auto p-4 bg-slate-950">
+              {problemLines.size > 0 ? (
+                <pre className="font-mono text-sm text-slate-300 leading-relaxed">
+                  {active.content.split('\n').map((line, i) => (
+                    <div
+                      key={i}
+                      className={`flex ${
+                        problemLines.get(i + 1) === 'error' ? 'bg-rose-500/10' : problemLines.get(i + 1) === 'warning' ? 'bg-amber-500/10' : ''
+                      }`}
+                    >
+                      <span className="w-10 shrink-0 pr-3 text-right text-slate-600 select-none">{i + 1}</span>
+                      <span className="whitespace-pre-wrap break-words min-w-0">{line || ' '}</span>
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <pre className="font-mono text-sm text-slate-300 whitespace-pre-wrap break-words leading-relaxed">
+                  {active?.content}
+                </pre>
+              )}
+            </div>
+          </div>
         </div>
-        
+
         <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-end">
           <button
             onClick={onClose}
@@ -63,4 +230,4 @@ const CodeModal: React.FC<CodeModalProps> = ({ isOpen, onClose, title, content }
   );
 };
 
-export default CodeModal;
\ No newline at end of file
+export default CodeModal;
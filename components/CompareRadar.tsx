@@ -0,0 +1,85 @@
+import React from 'react';
+import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { X } from 'lucide-react';
+import { RepoAnalysis, Rubric } from '../types';
+import { MAX_COMPARED } from '../services/portfolioStats';
+import { weightedScore } from '../services/rubrics';
+
+interface CompareRadarProps {
+  repos: RepoAnalysis[];
+  rubric: Rubric;
+  // Names of the compared repos, in selection order.
+  compared: string[];
+  onChange: (compared: string[]) => void;
+}
+
+const SERIES_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ec4899'];
+
+const CompareRadar: React.FC<CompareRadarProps> = ({ repos, rubric, compared, onChange }) => {
+  const selected = compared
+    .map(name => repos.find(r => r.name === name))
+    .filter((r): r is RepoAnalysis => !!r);
+  const candidates = repos.filter(r => !compared.includes(r.name));
+
+  // One row per dimension, one key per compared repo.
+  const data = rubric.dimensions.map(dimension => ({
+    subject: dimension.label,
+    ...Object.fromEntries(selected.map(repo => [repo.name, repo.audit.scores[dimension.id] ?? 0])),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {selected.map((repo, i) => (
+          <span key={repo.name} className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-slate-300">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SERIES_COLORS[i] }} />
+            {repo.name}
+            <span className="font-mono text-slate-500">{weightedScore(repo.audit, rubric, repo.repoType).toFixed(1)}</span>
+            <button onClick={() => onChange(compared.filter(name => name !== repo.name))} className="text-slate-500 hover:text-white">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {selected.length < MAX_COMPARED && candidates.length > 0 && (
+          <select
+            className="bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-300"
+            value=""
+            onChange={(e) => e.target.value && onChange([...compared, e.target.value])}
+          >
+            <option value="">Add repository…</option>
+            {candidates.map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {selected.length < 2 ? (
+        <p className="text-sm text-slate-500">Pick two to {MAX_COMPARED} repositories here or with the heatmap checkboxes to overlay them.</p>
+      ) : (
+        <div className="h-96 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <RadarChart cx="50%" cy="50%" outerRadius="70%" data={data}>
+              <PolarGrid stroke="#475569" />
+              <PolarAngleAxis dataKey="subject" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+              <PolarRadiusAxis angle={30} domain={[0, 5]} tick={false} axisLine={false} />
+              {selected.map((repo, i) => (
+                <Radar
+                  key={repo.name}
+                  name={repo.name}
+                  dataKey={repo.name}
+                  stroke={SERIES_COLORS[i]}
+                  strokeWidth={2}
+                  fill={SERIES_COLORS[i]}
+                  fillOpacity={0.12}
+                />
+              ))}
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+            </RadarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareRadar;
@@ -1,22 +1,104 @@
-import React, { useState, useMemo } from 'react';
-import { AnalysisResult, ActionItem } from '../types';
+import React, { useEffect, useState, useMemo } from 'react';
+import { AnalysisResult, Claim, ClaimSeverity, GeneratedFile, InputState, RepoAnalysis, TrackedAction } from '../types';
 import RepoCard from './RepoCard';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { CheckCircle, AlertOctagon, Terminal, Activity, Layers, Award, Book, Loader2 } from 'lucide-react';
+import { CheckCircle, AlertOctagon, Terminal, Activity, Layers, Award, Book, Loader2, History, Download, Printer, Save, GitBranch, Archive, Building2, ScrollText, SlidersHorizontal, Grid3x3, Send } from 'lucide-react';
 import { generateDocStrategy } from '../services/geminiService';
+import { downloadReport, printReport } from '../services/reportExporter';
+import { downloadAnalysisFile } from '../services/analysisFile';
 import CodeModal from './CodeModal';
 import ErrorBoundary from './ErrorBoundary';
+import ApplyArtifactsModal from './ApplyArtifactsModal';
+import { bundleEntries, bundleFileName, GeneratedArtifact } from '../services/artifactApply';
+import { downloadZip } from '../services/zipWriter';
+import { CollectedSource, findForRepo } from '../services/factCollector';
+import { RepoSource } from '../services/repoSource';
+import { createGitHubRawReader, readerFromSource } from '../services/generatorContext';
+import LicenseCompliancePanel from './LicenseCompliancePanel';
+import OrgProfileModal from './OrgProfileModal';
+import { loadOrgProfile, OrganizationProfile, saveOrgProfile } from '../services/orgProfile';
+import PromptTemplatesModal from './PromptTemplatesModal';
+import { mockAnalysis } from '../services/providers/mockFixtures';
+import RubricModal from './RubricModal';
+import RepoToolbar from './RepoToolbar';
+import PortfolioHeatmap from './PortfolioHeatmap';
+import CompareRadar from './CompareRadar';
+import ScoreDistributions from './ScoreDistributions';
+import { MAX_COMPARED } from '../services/portfolioStats';
+import ActionBoard from './ActionBoard';
+import IssueExportModal from './IssueExportModal';
+import ActionMatrix from './ActionMatrix';
+import RoadmapPanel from './RoadmapPanel';
+import CitationList from './CitationList';
+import { loadTrackedActions, saveTrackedActions, TrackedActionPatch, TrackerSync, updateTrackedAction } from '../services/actionTracker';
+import { queryRepos, readQueryFromUrl, RepoQuery, writeQueryToUrl } from '../services/repoQuery';
+import { activeRubric, isBuiltInRubric, loadRubricLibrary, rubricOf, RubricLibrary, saveRubricLibrary } from '../services/rubrics';
+import { compareClaims, contextSentences } from '../services/claims';
 
 interface DashboardProps {
   data: AnalysisResult;
+  input?: InputState;
+  // Live progress panel for a run that is still in flight.
+  progress?: React.ReactNode;
+  summaryPending?: boolean;
   onReset: () => void;
+  onShowHistory: () => void;
+  sources?: CollectedSource[];
+  // Set when a live run has just merged its action plan into the tracker.
+  trackerSync?: TrackerSync | null;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
+const SEVERITY_STYLES: Record<ClaimSeverity, string> = {
+  High: 'text-red-400 bg-red-400/10',
+  Medium: 'text-orange-400 bg-orange-400/10',
+  Low: 'text-slate-400 bg-slate-400/10',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ data, input, progress, summaryPending, onReset, onShowHistory, sources = [], trackerSync }) => {
   const { summary, repos, actions, claimsCheck } = data;
   const [loadingStrategy, setLoadingStrategy] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
-  const [strategyContent, setStrategyContent] = useState('');
+  const [strategyFiles, setStrategyFiles] = useState<GeneratedFile[]>([]);
+  // Generated files kept for the "Apply to repo" flow; regenerating an artifact replaces it.
+  const [artifacts, setArtifacts] = useState<GeneratedArtifact[]>([]);
+  const [applyScope, setApplyScope] = useState<string | 'all' | null>(null);
+  const [profile, setProfile] = useState<OrganizationProfile>(loadOrgProfile);
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [rubricLibrary, setRubricLibrary] = useState<RubricLibrary>(loadRubricLibrary);
+  const [rubricsOpen, setRubricsOpen] = useState(false);
+  const rubric = rubricOf(data);
+  // Kept in the URL so a filtered view can be shared.
+  const [repoQuery, setRepoQuery] = useState<RepoQuery>(readQueryFromUrl);
+  const [healthView, setHealthView] = useState<'heatmap' | 'compare' | 'distribution'>('heatmap');
+  const [compared, setCompared] = useState<string[]>([]);
+  const [revealed, setRevealed] = useState<{ name: string; nonce: number } | null>(null);
+  const [trackedActions, setTrackedActions] = useState<TrackedAction[]>(loadTrackedActions);
+  const [carriedOver, setCarriedOver] = useState(0);
+  const [planView, setPlanView] = useState<'board' | 'matrix' | 'roadmap'>('board');
+  const [highlightedSentence, setHighlightedSentence] = useState<number | null>(null);
+  // A claim links to the context only while the sentence at its index is still the one it quoted.
+  const sentences: string[] = useMemo(() => contextSentences(input?.context || ''), [input]);
+  const linksContext = (claim: Claim) => claim.contextIndex !== undefined && sentences[claim.contextIndex] === claim.contextSentence;
+  const contradicted = new Set(claimsCheck.filter(linksContext).map(c => c.contextIndex!));
+  const sortedClaims = [...claimsCheck].sort(compareClaims);
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const sourcesByName: Record<string, RepoSource> = useMemo(
+    () => Object.fromEntries(sources.map(({ source }) => [source.name, source])),
+    [sources]
+  );
+
+  const applyArtifacts = useMemo(
+    () => (applyScope === 'all' ? artifacts : artifacts.filter(a => a.repo === applyScope)),
+    [artifacts, applyScope]
+  );
+
+  const addArtifact = (artifact: GeneratedArtifact) =>
+    setArtifacts(prev => [
+      ...prev.filter(a => !(a.repoUrl === artifact.repoUrl && a.task === artifact.task)),
+      artifact,
+    ]);
 
   // Memoize expensive data transformations
   const langData = useMemo(() => {
@@ -26,28 +108,56 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
     })).sort((a, b) => b.count - a.count);
   }, [summary.stats.languages]);
 
-  const sortedRepos = useMemo(() => {
-    return [...repos].sort((a, b) => {
-      // Prioritize Active repos, then sort by name
-      if (a.status === 'Active' && b.status !== 'Active') return -1;
-      if (a.status !== 'Active' && b.status === 'Active') return 1;
-      return a.name.localeCompare(b.name);
-    });
-  }, [repos]);
-
-  const prioritizedActions = useMemo(() => {
-    const priorities = ['High', 'Medium', 'Low'] as const;
-    return priorities.map(priority => ({
-      priority,
-      items: actions.filter(a => a.priority === priority)
-    })).filter(group => group.items.length > 0);
-  }, [actions]);
+  const visibleRepos: RepoAnalysis[] = useMemo(
+    () => queryRepos(repos, repoQuery, rubric),
+    [repos, repoQuery, rubric]
+  );
+
+  useEffect(() => {
+    writeQueryToUrl(repoQuery);
+  }, [repoQuery]);
+
+  // Sorting by the current key again flips the direction; a new key starts lowest first.
+  const sortBy = (key: string) =>
+    setRepoQuery(prev => ({
+      ...prev,
+      sort: key,
+      direction: prev.sort === key ? (prev.direction === 'asc' ? 'desc' : 'asc') : 'asc',
+    }));
+
+  const toggleCompared = (name: string) =>
+    setCompared(prev =>
+      prev.includes(name) ? prev.filter(n => n !== name) : prev.length < MAX_COMPARED ? [...prev, name] : prev
+    );
+
+  // The tracker is shared by every analysis; the board shows the items of this one's repos.
+  const boardActions: TrackedAction[] = useMemo(() => {
+    const names = new Set([...repos.map(r => r.name), ...actions.map(a => a.repo)].map(n => n.toLowerCase()));
+    return trackedActions.filter(t => names.has(t.item.repo.toLowerCase()));
+  }, [trackedActions, repos, actions]);
+
+  const persistTracked = (next: TrackedAction[]) => {
+    setTrackedActions(next);
+    try {
+      saveTrackedActions(next);
+    } catch (error) {
+      console.warn("Failed to save the action tracker", error);
+    }
+  };
+
+  // The tracker is synced by App when a live run finishes; every other view only reads it.
+  useEffect(() => {
+    setTrackedActions(trackerSync ? trackerSync.actions : loadTrackedActions());
+    setCarriedOver(trackerSync?.carried ?? 0);
+  }, [trackerSync]);
+
+  const handleTrackedChange = (id: string, patch: TrackedActionPatch) =>
+    persistTracked(updateTrackedAction(trackedActions, id, patch));
 
   const handleGenerateStrategy = async () => {
     setLoadingStrategy(true);
     try {
-      const content = await generateDocStrategy(summary);
-      setStrategyContent(content);
+      setStrategyFiles(await generateDocStrategy(summary, {}, profile));
       setModalOpen(true);
     } catch (error) {
       console.error(error);
@@ -57,11 +167,29 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
     }
   };
 
-  const getActionStyles = (priority: string) => {
-    switch(priority) {
-      case 'High': return { container: 'border-red-500/50 bg-red-500/5', badge: 'text-red-400 bg-red-400/10' };
-      case 'Medium': return { container: 'border-yellow-500/50 bg-yellow-500/5', badge: 'text-yellow-400 bg-yellow-400/10' };
-      default: return { container: 'border-blue-500/50 bg-blue-500/5', badge: 'text-blue-400 bg-blue-400/10' };
+  const handleSaveProfile = (next: OrganizationProfile) => {
+    setProfile(next);
+    try {
+      saveOrgProfile(next);
+    } catch (error: any) {
+      alert(`The profile applies to this session only: ${error.message}`);
+    }
+  };
+
+  const handleSaveRubrics = (next: RubricLibrary) => {
+    setRubricLibrary(next);
+    try {
+      saveRubricLibrary(next);
+    } catch (error: any) {
+      alert(`The rubrics apply to this session only: ${error.message}`);
+    }
+  };
+
+  const handlePrintReport = () => {
+    try {
+      printReport(data);
+    } catch (error: any) {
+      alert(error.message);
     }
   };
 
@@ -73,15 +201,101 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           <Terminal className="text-emerald-400" />
           <h1 className="text-xl font-bold tracking-tight text-white">Portfolio<span className="text-emerald-400">Signal</span></h1>
         </div>
-        <button 
-          onClick={onReset}
-          className="text-sm text-slate-400 hover:text-white transition-colors"
-        >
-          New Analysis
-        </button>
+        <div className="flex items-center gap-6">
+          <button
+            onClick={() => downloadAnalysisFile(data, input)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <Save size={16} /> Save JSON
+          </button>
+          <button
+            onClick={() => downloadReport(data)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <Download size={16} /> HTML Report
+          </button>
+          <button
+            onClick={handlePrintReport}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <Printer size={16} /> PDF
+          </button>
+          {artifacts.length > 0 && (
+            <button
+              onClick={() => setApplyScope('all')}
+              className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+            >
+              <GitBranch size={16} /> Apply ({artifacts.length})
+            </button>
+          )}
+          {artifacts.length > 0 && (
+            <button
+              onClick={() => downloadZip(bundleEntries(artifacts, true), bundleFileName('portfolio'))}
+              className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+            >
+              <Archive size={16} /> Artifacts ZIP
+            </button>
+          )}
+          <button
+            onClick={() => setProfileOpen(true)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <Building2 size={16} /> Profile
+          </button>
+          <button
+            onClick={() => setTemplatesOpen(true)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <ScrollText size={16} /> Prompts
+          </button>
+          <button
+            onClick={() => setRubricsOpen(true)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <SlidersHorizontal size={16} /> Rubric
+          </button>
+          <button
+            onClick={onShowHistory}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <History size={16} /> History
+          </button>
+          <button 
+            onClick={onReset}
+            className="text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            New Analysis
+          </button>
+        </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-12">
+
+        {progress}
+
+        {data.repairs && data.repairs.length > 0 && (
+          <details className="bg-yellow-500/5 border border-yellow-500/30 rounded-lg px-4 py-3 text-sm text-yellow-200">
+            <summary className="cursor-pointer">
+              {data.repairs.length} field(s) in the AI response were repaired automatically.
+            </summary>
+            <ul className="mt-2 space-y-1 font-mono text-xs text-yellow-100/70">
+              {data.repairs.map((repair, i) => <li key={i}>{repair}</li>)}
+            </ul>
+          </details>
+        )}
+
+        {data.templates && data.templates.some(version => version.includes('@custom-')) && (
+          <p className="text-xs text-slate-500 flex flex-wrap items-center gap-1.5">
+            <ScrollText size={12} /> Analyzed with custom prompt templates:
+            {data.templates.map(version => <span key={version} className="font-mono text-slate-400">{version}</span>)}
+          </p>
+        )}
+
+        {!isBuiltInRubric(rubric) && (
+          <p className="text-xs text-slate-500 flex items-center gap-1.5">
+            <SlidersHorizontal size={12} /> Scored with the <span className="text-slate-400">{rubric.name}</span> rubric ({rubric.dimensions.length} dimensions).
+          </p>
+        )}
         
         {/* Executive Summary */}
         <section className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -90,9 +304,15 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
               <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                 <Activity size={20} className="text-emerald-400"/> Executive Summary
               </h2>
-              <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">
-                {summary.executiveSummary}
-              </p>
+              {summaryPending ? (
+                <p className="text-slate-500 italic flex items-center gap-2">
+                  <Loader2 size={16} className="animate-spin" /> The executive summary is generated once every repository has been audited.
+                </p>
+              ) : (
+                <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">
+                  {summary.executiveSummary}
+                </p>
+              )}
               
               <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-4">
                 <div className="bg-slate-900 p-3 rounded border border-slate-700 text-center">
@@ -156,10 +376,34 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                 <h3 className="text-md font-semibold text-white mb-3 flex items-center gap-2">
                     <AlertOctagon size={16} className="text-orange-400" /> Claims Check
                 </h3>
-                <ul className="text-sm text-slate-400 space-y-2">
-                    {claimsCheck.length > 0 ? claimsCheck.map((claim, i) => (
-                        <li key={i} className="flex gap-2 items-start">
-                            <span className="text-orange-400 mt-1">•</span> {claim}
+                <ul className="text-sm text-slate-400 space-y-3">
+                    {summaryPending ? (
+                        <li className="text-slate-500 italic">Checked after all repositories are audited.</li>
+                    ) : claimsCheck.length > 0 ? sortedClaims.map((claim, i) => (
+                        <li key={i} className="space-y-1">
+                            <div className="flex gap-2 items-start">
+                                <span className={`text-[11px] px-1.5 py-0.5 rounded shrink-0 ${SEVERITY_STYLES[claim.severity] || SEVERITY_STYLES.Medium}`}>{claim.severity}</span>
+                                <span>
+                                    {claim.statement}
+                                    {claim.repo && <span className="ml-2 text-xs font-mono text-indigo-400">{claim.repo}</span>}
+                                </span>
+                            </div>
+                            {claim.contextSentence && (
+                                <p className="text-xs text-slate-500 pl-2 border-l-2 border-orange-400/40">
+                                    Contradicts{' '}
+                                    {linksContext(claim) ? (
+                                        <a
+                                            href={`#context-sentence-${claim.contextIndex}`}
+                                            onClick={() => setHighlightedSentence(claim.contextIndex!)}
+                                            className="text-orange-300 hover:text-orange-200 underline decoration-dotted"
+                                        >
+                                            sentence {claim.contextIndex! + 1}
+                                        </a>
+                                    ) : 'the context'}
+                                    : <q className="italic">{claim.contextSentence}</q>
+                                </p>
+                            )}
+                            <CitationList citations={claim.citations} />
                         </li>
                     )) : (
                         <li className="text-emerald-400 flex gap-2 items-center">
@@ -167,6 +411,24 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                         </li>
                     )}
                 </ul>
+                {!summaryPending && claimsCheck.some(linksContext) && (
+                    <details className="mt-4 text-xs" open={highlightedSentence !== null}>
+                        <summary className="cursor-pointer text-slate-500 hover:text-white">Your context</summary>
+                        <ol className="mt-2 space-y-1 list-decimal list-inside">
+                            {sentences.map((sentence, i) => (
+                                <li
+                                    key={i}
+                                    id={`context-sentence-${i}`}
+                                    className={`scroll-mt-20 rounded px-1 ${
+                                        i === highlightedSentence ? 'bg-orange-400/20 text-orange-200' : contradicted.has(i) ? 'text-orange-300' : 'text-slate-400'
+                                    }`}
+                                >
+                                    {sentence}
+                                </li>
+                            ))}
+                        </ol>
+                    </details>
+                )}
             </div>
           </div>
         </section>
@@ -191,47 +453,130 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
            </button>
         </section>
 
+        <LicenseCompliancePanel
+          repos={repos}
+          readerFor={(repo) => {
+            const source = findForRepo(repo, sourcesByName);
+            return source ? readerFromSource(source) : createGitHubRawReader(repo.url);
+          }}
+        />
+
         {/* Action Plan */}
         <section>
-            <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
-                <Layers className="text-indigo-400" /> Prioritized Action Plan
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {prioritizedActions.map(({ priority, items }) => {
-                    const styles = getActionStyles(priority);
-
-                    return (
-                        <div key={priority} className={`rounded-xl border ${styles.container} p-4`}>
-                            <h3 className={`font-bold mb-4 flex items-center gap-2 ${styles.badge} inline-block px-3 py-1 rounded text-sm`}>
-                                {priority} Priority
-                            </h3>
-                            <div className="space-y-4">
-                                {items.map((action, idx) => (
-                                    <div key={idx} className="bg-slate-800 p-3 rounded border border-slate-700 shadow-sm hover:border-slate-600 transition-colors">
-                                        <div className="flex justify-between items-start mb-1">
-                                            <span className="font-semibold text-slate-200 text-sm">{action.title}</span>
-                                            <span className="text-xs font-mono text-slate-500 bg-slate-900 px-2 py-0.5 rounded">{action.effort} Effort</span>
-                                        </div>
-                                        <div className="text-xs text-indigo-400 mb-2 font-mono">{action.repo}</div>
-                                        <p className="text-xs text-slate-400 leading-normal">{action.rationale}</p>
-                                    </div>
-                                ))}
-                            </div>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                    <Layers className="text-indigo-400" /> Prioritized Action Plan
+                </h2>
+                {boardActions.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+                            {([['board', 'Board'], ['matrix', 'Matrix'], ['roadmap', 'Roadmap']] as const).map(([view, label]) => (
+                                <button
+                                    key={view}
+                                    onClick={() => setPlanView(view)}
+                                    className={`px-3 py-1.5 transition-colors ${planView === view ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
                         </div>
-                    );
-                })}
+                        <button
+                            onClick={() => setExportOpen(true)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+                        >
+                            <Send size={14} /> Export to tracker
+                        </button>
+                    </div>
+                )}
             </div>
+            {summaryPending && (
+                <p className="text-sm text-slate-500 italic">The action plan is generated after the repository audits finish.</p>
+            )}
+            {carriedOver > 0 && (
+                <p className="text-xs text-slate-500 mb-3">
+                    {carriedOver} item(s) from earlier analyses were proposed again and kept their progress.
+                </p>
+            )}
+            {boardActions.length > 0 && planView === 'board' && <ActionBoard actions={boardActions} onChange={handleTrackedChange} />}
+            {boardActions.length > 0 && planView === 'matrix' && <ActionMatrix actions={boardActions} />}
+            {boardActions.length > 0 && planView === 'roadmap' && <RoadmapPanel actions={boardActions} />}
         </section>
 
+        {/* Portfolio Health */}
+        {repos.length > 1 && (
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                <Grid3x3 className="text-emerald-400" /> Portfolio Health
+              </h2>
+              <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+                {([['heatmap', 'Heatmap'], ['compare', `Compare${compared.length ? ` (${compared.length})` : ''}`], ['distribution', 'Distribution']] as const).map(([view, label]) => (
+                  <button
+                    key={view}
+                    onClick={() => setHealthView(view)}
+                    className={`px-3 py-1.5 transition-colors ${healthView === view ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+              {healthView !== 'compare' && visibleRepos.length < repos.length && (
+                <p className="text-xs text-slate-500 mb-3">Showing the {visibleRepos.length} of {repos.length} repositories that match the Repository Audit filters.</p>
+              )}
+              {healthView === 'heatmap' && (
+                <PortfolioHeatmap
+                  repos={visibleRepos}
+                  rubric={rubric}
+                  query={repoQuery}
+                  onSort={sortBy}
+                  onReveal={(name) => setRevealed({ name, nonce: Date.now() })}
+                  compared={compared}
+                  onToggleCompare={toggleCompared}
+                />
+              )}
+              {healthView === 'compare' && (
+                <CompareRadar repos={repos} rubric={rubric} compared={compared} onChange={setCompared} />
+              )}
+              {healthView === 'distribution' && (
+                <ScoreDistributions
+                  repos={visibleRepos}
+                  rubric={rubric}
+                  onSelect={(dimension) => {
+                    setRepoQuery(prev => ({ ...prev, sort: dimension, direction: 'asc' }));
+                    setHealthView('heatmap');
+                  }}
+                />
+              )}
+            </div>
+          </section>
+        )}
+
         {/* Repository Audit */}
         <section>
           <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
             <Terminal className="text-emerald-400" /> Repository Audit
           </h2>
+          {repos.length > 0 && (
+            <RepoToolbar repos={repos} rubric={rubric} query={repoQuery} onChange={setRepoQuery} shownCount={visibleRepos.length} />
+          )}
           <div className="space-y-4">
-            {sortedRepos.map((repo) => (
+            {visibleRepos.length === 0 && repos.length > 0 && (
+              <p className="text-sm text-slate-500">No repositories match these filters.</p>
+            )}
+            {visibleRepos.map((repo) => (
               <ErrorBoundary key={repo.name}>
-                <RepoCard repo={repo} />
+                <RepoCard
+                  repo={repo}
+                  source={findForRepo(repo, sourcesByName)}
+                  onArtifact={addArtifact}
+                  onApply={setApplyScope}
+                  profile={profile}
+                  onEditProfile={() => setProfileOpen(true)}
+                  rubric={rubric}
+                  reveal={revealed?.name === repo.name ? revealed.nonce : undefined}
+                />
               </ErrorBoundary>
             ))}
           </div>
@@ -251,6 +596,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                             <span className="text-xs uppercase tracking-wider text-slate-500 font-bold block mb-1">Impressive Factor</span>
                             <p className="text-sm text-emerald-300">{project.impressiveFactor}</p>
                         </div>
+                        <CitationList citations={project.citations} className="mt-3" />
                     </div>
                 ))}
             </div>
@@ -261,7 +607,44 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
         isOpen={modalOpen} 
         onClose={() => setModalOpen(false)} 
         title="Portfolio Documentation Strategy" 
-        content={strategyContent} 
+        files={strategyFiles} 
+      />
+
+      <OrgProfileModal
+        isOpen={profileOpen}
+        onClose={() => setProfileOpen(false)}
+        profile={profile}
+        onSave={handleSaveProfile}
+      />
+
+      <PromptTemplatesModal
+        isOpen={templatesOpen}
+        onClose={() => setTemplatesOpen(false)}
+        repos={repos.length > 0 ? repos : mockAnalysis.repos}
+        summary={repos.length > 0 ? summary : mockAnalysis.summary}
+        context={input?.context ?? ''}
+        profile={profile}
+        rubric={activeRubric(rubricLibrary)}
+      />
+
+      <IssueExportModal
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        sources={boardActions}
+        repos={repos}
+      />
+
+      <RubricModal
+        isOpen={rubricsOpen}
+        onClose={() => setRubricsOpen(false)}
+        library={rubricLibrary}
+        onSave={handleSaveRubrics}
+      />
+
+      <ApplyArtifactsModal
+        isOpen={applyScope !== null}
+        onClose={() => setApplyScope(null)}
+        artifacts={applyArtifacts}
       />
     </div>
   );
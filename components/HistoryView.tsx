@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, GitCompare, History, Loader2, Trash2, ExternalLink } from 'lucide-react';
+import { AnalysisRecord } from '../types';
+import { deleteAnalysis, listAnalyses } from '../services/historyStore';
+
+interface HistoryViewProps {
+  onOpen: (record: AnalysisRecord) => void;
+  onCompare: (before: AnalysisRecord, after: AnalysisRecord) => void;
+  onBack: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onCompare, onBack }) => {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch(err => setError(err.message || "Failed to load history."))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep at most two runs selected; the oldest selection drops off.
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this analysis from history?")) return;
+    try {
+      await deleteAnalysis(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+      setSelected(prev => prev.filter(x => x !== id));
+    } catch (err: any) {
+      setError(err.message || "Failed to delete analysis.");
+    }
+  };
+
+  const handleCompare = () => {
+    const [a, b] = selected.map(id => records.find(r => r.id === id)!);
+    // Always diff older -> newer regardless of selection order.
+    const [before, after] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+    onCompare(before, after);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-200">
+      <header className="sticky top-0 z-30 bg-slate-900/80 backdrop-blur-md border-b border-slate-800 px-6 py-4 flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <History className="text-emerald-400" />
+          <h1 className="text-xl font-bold tracking-tight text-white">Analysis History</h1>
+        </div>
+        <button onClick={onBack} className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1">
+          <ArrowLeft size={16} /> Back
+        </button>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-400">Select two runs to compare how scores, status and actions changed.</p>
+          <button
+            onClick={handleCompare}
+            disabled={selected.length !== 2}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitCompare size={16} /> Compare Selected
+          </button>
+        </div>
+
+        {loading && (
+          <div className="flex items-center gap-2 text-slate-400"><Loader2 className="animate-spin" size={16} /> Loading history...</div>
+        )}
+        {error && <div className="p-4 bg-red-900/20 border border-red-900/50 rounded-lg text-red-200 text-sm">{error}</div>}
+        {!loading && records.length === 0 && !error && (
+          <div className="text-slate-500 text-sm">No saved analyses yet. Completed analyses are saved automatically.</div>
+        )}
+
+        <ul className="space-y-3">
+          {records.map(record => (
+            <li
+              key={record.id}
+              className={`bg-slate-800 border rounded-lg p-4 flex items-center gap-4 transition-colors ${selected.includes(record.id) ? 'border-indigo-500' : 'border-slate-700'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(record.id)}
+                onChange={() => toggleSelected(record.id)}
+                className="accent-indigo-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-white font-semibold">
+                  {formatDate(record.createdAt)}
+                  {record.updatedAt && <span className="ml-2 text-xs font-normal text-slate-500">updated {formatDate(record.updatedAt)}</span>}
+                </div>
+                <div className="text-xs text-slate-400 font-mono truncate">{record.input.urls.split('\n').filter(Boolean).join(', ')}</div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {record.result.repos.length} repos · {record.result.actions.length} actions
+                  {record.input.context && ` · ${record.input.context.slice(0, 80)}`}
+                </div>
+              </div>
+              <button
+                onClick={() => onOpen(record)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+              >
+                <ExternalLink size={14} /> Open
+              </button>
+              <button onClick={() => handleDelete(record.id)} className="p-1.5 text-slate-500 hover:text-red-400 transition-colors">
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </main>
+    </div>
+  );
+};
+
+export default HistoryView;
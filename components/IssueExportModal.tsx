@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, X, Download, Loader2, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { RepoAnalysis } from '../types';
+import {
+  buildIssueDrafts, createGitHubIssues, downloadText, ghBundle, IssueResult, IssueSource, jiraCsv, linearCsv
+} from '../services/issueExport';
+import { downloadZip } from '../services/zipWriter';
+
+interface IssueExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sources: IssueSource[];
+  repos: RepoAnalysis[];
+}
+
+type ExportTarget = 'github' | 'gh' | 'jira' | 'linear';
+
+const TARGETS: { id: ExportTarget; label: string; hint: string }[] = [
+  { id: 'github', label: 'GitHub Issues', hint: 'Creates the issues through the REST API. Titles that already exist in a repository are skipped.' },
+  { id: 'gh', label: 'gh bundle', hint: 'ZIP with issues.json, issues.csv and create-issues.sh, which runs `gh issue create` for each issue.' },
+  { id: 'jira', label: 'Jira CSV', hint: 'For Jira\'s CSV importer. Priority and status map to Jira fields; effort and repository become labels.' },
+  { id: 'linear', label: 'Linear CSV', hint: 'For Linear\'s CSV importer. Priority and status map to Linear fields; effort and repository become labels.' },
+];
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500';
+
+const IssueExportModal: React.FC<IssueExportModalProps> = ({ isOpen, onClose, sources, repos }) => {
+  const [target, setTarget] = useState<ExportTarget>('github');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [baseUrl, setBaseUrl] = useState(process.env.GITHUB_API_URL || 'https://api.github.com');
+  const [token, setToken] = useState('');
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<IssueResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Open items are selected by default; finished ones rarely need a ticket.
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set(sources.map((s, i) => (s.status === 'done' || s.status === 'wontDo' ? -1 : i)).filter(i => i >= 0)));
+    setResults([]);
+    setError(null);
+  }, [isOpen, sources]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!isOpen) return null;
+
+  const drafts = buildIssueDrafts(sources.filter((_, i) => selected.has(i)), repos);
+  const withoutRepo = drafts.filter(d => !d.repoSlug).length;
+  const hint = TARGETS.find(t => t.id === target)!.hint;
+
+  const toggle = (index: number) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const handleCreate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setResults([]);
+    setError(null);
+    try {
+      await createGitHubIssues(drafts, { baseUrl, token }, (result) => setResults(prev => [...prev, result]), controller.signal);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (target === 'gh') downloadZip(ghBundle(drafts), 'action-plan-issues.zip');
+    if (target === 'jira') downloadText(jiraCsv(drafts), 'action-plan-jira.csv');
+    if (target === 'linear') downloadText(linearCsv(drafts), 'action-plan-linear.csv');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Send className="text-indigo-400" size={20} />
+            Export Action Plan
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {TARGETS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTarget(t.id)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                  target === t.id ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300' : 'border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            {hint} Labels: <span className="font-mono">priority: high|medium|low</span>, <span className="font-mono">effort: small|medium|large</span>.
+          </p>
+
+          {target === 'github' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="text-xs text-slate-400">API URL</span>
+                <input className={inputClass} value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="https://api.github.com" />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-slate-400">Token (needs issue write access; not saved)</span>
+                <input type="password" className={inputClass} value={token} onChange={(e) => setToken(e.target.value)} autoComplete="off" />
+              </label>
+            </div>
+          )}
+
+          <ul className="space-y-1 text-sm">
+            {sources.map((source, i) => (
+              <li key={i}>
+                <label className="flex items-start gap-2 text-slate-300">
+                  <input type="checkbox" className="accent-emerald-500 mt-1" checked={selected.has(i)} onChange={() => toggle(i)} />
+                  <span>
+                    {source.item.title}
+                    <span className="ml-2 text-xs font-mono text-indigo-400">{source.item.repo}</span>
+                    <span className="ml-2 text-xs text-slate-500">{source.item.priority} · {source.item.effort}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          {(target === 'github' || target === 'gh') && withoutRepo > 0 && (
+            <p className="text-xs text-amber-400">{withoutRepo} selected item(s) belong to repositories that are not on GitHub and are left out.</p>
+          )}
+
+          {error && (
+            <p className="text-sm text-rose-300 flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+          )}
+          {results.length > 0 && (
+            <ul className="space-y-1 text-xs border-t border-slate-800 pt-3">
+              {results.map((result, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  {result.status === 'failed'
+                    ? <AlertCircle size={12} className="text-rose-400 shrink-0" />
+                    : <CheckCircle size={12} className={`shrink-0 ${result.status === 'created' ? 'text-emerald-400' : 'text-slate-500'}`} />}
+                  <span className="text-slate-300 truncate">{result.draft.title}</span>
+                  <span className="text-slate-500">{result.status === 'exists' ? 'already exists' : result.status === 'failed' ? result.error : 'created'}</span>
+                  {result.url && (
+                    <a href={result.url} target="_blank" rel="noreferrer" className="text-indigo-400 hover:text-indigo-300 shrink-0"><ExternalLink size={12} /></a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-300 hover:text-white transition-colors">
+            Close
+          </button>
+          {target === 'github' ? (
+            running ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-4 py-2 text-sm font-medium text-white bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Loader2 size={14} className="animate-spin" /> Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleCreate}
+                disabled={drafts.length === withoutRepo || !token.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none flex items-center gap-2"
+              >
+                <Send size={14} /> Create {drafts.length - withoutRepo} issue(s)
+              </button>
+            )
+          ) : (
+            <button
+              onClick={handleDownload}
+              disabled={drafts.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none flex items-center gap-2"
+            >
+              <Download size={14} /> Download
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IssueExportModal;
@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { Scale, Loader2, CheckCircle, AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { RepoAnalysis } from '../types';
+import { ContextReader } from '../services/generatorContext';
+import { checkPortfolioLicenses, portfolioLicenseMix, RepoLicenseReport } from '../services/licenseCheck';
+import { isAbortError } from '../services/requestPolicy';
+
+interface LicenseCompliancePanelProps {
+  repos: RepoAnalysis[];
+  readerFor: (repo: RepoAnalysis) => ContextReader | null;
+}
+
+const LicenseCompliancePanel: React.FC<LicenseCompliancePanelProps> = ({ repos, readerFor }) => {
+  const [reports, setReports] = useState<RepoLicenseReport[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleCheck = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    try {
+      setReports(await checkPortfolioLicenses(repos, readerFor, controller.signal));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || "License check failed.");
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const flagged = (reports || []).filter(r => r.findings.length > 0);
+  const mix = reports ? portfolioLicenseMix(reports) : [];
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white flex items-center gap-2 mb-2">
+            <Scale className="text-indigo-400" /> License Compliance
+          </h2>
+          <p className="text-slate-400 text-sm max-w-2xl">
+            Reads each repository's license files and manifests, then flags missing or conflicting licenses and well-known copyleft dependencies that the license cannot take.
+          </p>
+        </div>
+        <button
+          onClick={running ? () => abortRef.current?.abort() : handleCheck}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+        >
+          {running ? <><Loader2 size={14} className="animate-spin" /> Cancel</> : <><Scale size={14} /> {reports ? 'Re-check' : 'Check Licenses'}</>}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-xs text-red-400 flex items-center gap-1"><X size={12} /> {error}</p>}
+
+      {reports && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap gap-2 text-xs">
+            {mix.map(([license, count]) => (
+              <span key={license} className="px-2 py-1 bg-slate-900 border border-slate-700 rounded font-mono text-slate-400">
+                {license === 'none' ? 'no license' : license} × {count}
+              </span>
+            ))}
+          </div>
+          {flagged.length === 0 ? (
+            <p className="text-sm text-emerald-400 flex items-center gap-2"><CheckCircle size={14} /> No license problems found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {flagged.map(report => (
+                <li key={report.repo} className="bg-slate-900 p-3 rounded border border-slate-700">
+                  <div className="text-sm font-semibold text-slate-200 mb-1">
+                    {report.repo}
+                    <span className="ml-2 text-xs font-mono text-slate-500">{report.effective || 'unlicensed'}</span>
+                  </div>
+                  <ul className="space-y-1">
+                    {report.findings.map((finding, i) => (
+                      <li key={i} className="flex items-start gap-2 text-xs text-slate-400">
+                        {finding.severity === 'error'
+                          ? <AlertCircle size={12} className="mt-0.5 shrink-0 text-rose-400" />
+                          : <AlertTriangle size={12} className="mt-0.5 shrink-0 text-amber-400" />}
+                        {finding.message}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default LicenseCompliancePanel;
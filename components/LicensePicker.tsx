@@ -0,0 +1,60 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { LICENSE_IDS, LICENSES, LicenseId, LicenseSelection } from '../services/licenseTemplates';
+
+interface LicensePickerProps {
+  selection: LicenseSelection;
+  onChange: (selection: LicenseSelection) => void;
+  onGenerate: (e: React.MouseEvent) => void;
+  loading: boolean;
+}
+
+const LicensePicker: React.FC<LicensePickerProps> = ({ selection, onChange, onGenerate, loading }) => {
+  const usesHolder = LICENSES[selection.id].hasCopyrightLine;
+
+  return (
+    <div className="mt-3 p-3 bg-slate-900 border border-slate-700 rounded-md space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+        <select
+          value={selection.id}
+          onChange={(e) => onChange({ ...selection, id: e.target.value as LicenseId })}
+          className="bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-300"
+        >
+          {LICENSE_IDS.map(id => (
+            <option key={id} value={id}>{id} · {LICENSES[id].name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Copyright holder"
+          value={selection.holder}
+          disabled={!usesHolder}
+          onChange={(e) => onChange({ ...selection, holder: e.target.value })}
+          className="flex-1 min-w-[10rem] bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-300 disabled:opacity-50"
+        />
+        <input
+          type="text"
+          placeholder="Year"
+          value={selection.year}
+          disabled={!usesHolder}
+          onChange={(e) => onChange({ ...selection, year: e.target.value })}
+          className="w-24 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-300 disabled:opacity-50"
+        />
+        <button
+          onClick={onGenerate}
+          disabled={loading || (usesHolder && (!selection.holder.trim() || !selection.year.trim()))}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Scale size={14} /> Render
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        {usesHolder
+          ? 'Rendered from the canonical SPDX text; only the copyright line is filled in.'
+          : 'Rendered verbatim from the canonical text; this license carries no copyright line.'}
+      </p>
+    </div>
+  );
+};
+
+export default LicensePicker;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, X } from 'lucide-react';
+import { DOCS_TOOLING, DocsTooling, OrganizationProfile, PROFILE_LABELS } from '../services/orgProfile';
+import { LICENSE_IDS, LICENSES, LicenseId } from '../services/licenseTemplates';
+
+interface OrgProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: OrganizationProfile;
+  onSave: (profile: OrganizationProfile) => void;
+}
+
+type TextField = 'legalName' | 'securityContact' | 'conductContact' | 'supportedVersions' | 'defaultBranch';
+
+const PLACEHOLDERS: Record<TextField, string> = {
+  legalName: 'Acme Software GmbH',
+  securityContact: 'security@acme.dev or https://acme.dev/security',
+  conductContact: 'conduct@acme.dev',
+  supportedVersions: 'The latest minor release of each supported major version',
+  defaultBranch: 'main',
+};
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500';
+
+const OrgProfileModal: React.FC<OrgProfileModalProps> = ({ isOpen, onClose, profile, onSave }) => {
+  const [draft, setDraft] = useState<OrganizationProfile>(profile);
+
+  useEffect(() => {
+    if (isOpen) setDraft(profile);
+  }, [isOpen, profile]);
+
+  if (!isOpen) return null;
+
+  const textField = (field: TextField) => (
+    <label key={field} className="block space-y-1">
+      <span className="text-xs text-slate-400">{PROFILE_LABELS[field]}</span>
+      <input
+        type="text"
+        className={inputClass}
+        placeholder={PLACEHOLDERS[field]}
+        value={draft[field]}
+        onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-xl max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Building2 className="text-emerald-400" size={20} />
+            Organization Profile
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          <p className="text-xs text-slate-500">
+            Every generator states these values verbatim, so generated files are ready to commit. Blank fields are left out of the output instead of being filled with placeholders.
+          </p>
+          {textField('legalName')}
+          {textField('securityContact')}
+          {textField('conductContact')}
+          {textField('supportedVersions')}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {textField('defaultBranch')}
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">{PROFILE_LABELS.preferredLicense}</span>
+              <select
+                className={inputClass}
+                value={draft.preferredLicense}
+                onChange={(e) => setDraft({ ...draft, preferredLicense: e.target.value as LicenseId })}
+              >
+                {LICENSE_IDS.map(id => <option key={id} value={id} title={LICENSES[id].name}>{id}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">{PROFILE_LABELS.docsTooling}</span>
+              <select
+                className={inputClass}
+                value={draft.docsTooling}
+                onChange={(e) => setDraft({ ...draft, docsTooling: e.target.value as DocsTooling })}
+              >
+                {(Object.keys(DOCS_TOOLING) as DocsTooling[]).map(tool => (
+                  <option key={tool} value={tool}>{tool === 'auto' ? 'By language' : DOCS_TOOLING[tool]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave({ ...draft, defaultBranch: draft.defaultBranch.trim() || 'main' });
+              onClose();
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrgProfileModal;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { RepoAnalysis, Rubric } from '../types';
+import { AVERAGE_KEY, repoScore, RepoQuery } from '../services/repoQuery';
+import { MAX_COMPARED } from '../services/portfolioStats';
+
+interface PortfolioHeatmapProps {
+  repos: RepoAnalysis[];
+  rubric: Rubric;
+  query: RepoQuery;
+  // Clicking a column header sorts by that dimension.
+  onSort: (key: string) => void;
+  // Clicking a row or cell opens the repo's card.
+  onReveal: (repoName: string) => void;
+  compared: string[];
+  onToggleCompare: (repoName: string) => void;
+}
+
+// Red at 0 through yellow to green at 5.
+export const heatColor = (score: number) => `hsl(${Math.round((score / 5) * 140)}, 65%, 32%)`;
+
+const PortfolioHeatmap: React.FC<PortfolioHeatmapProps> = ({ repos, rubric, query, onSort, onReveal, compared, onToggleCompare }) => {
+  const columns = [
+    ...rubric.dimensions.map(d => ({ id: d.id, label: d.label })),
+    { id: AVERAGE_KEY, label: 'Score' },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs border-separate border-spacing-0.5">
+        <thead>
+          <tr>
+            <th className="w-6" />
+            <th className="text-left font-medium text-slate-500 pb-1 pr-2">Repository</th>
+            {columns.map(column => (
+              <th key={column.id} className="pb-1 font-medium">
+                <button
+                  onClick={() => onSort(column.id)}
+                  className={`inline-flex items-center gap-0.5 whitespace-nowrap ${query.sort === column.id ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+                >
+                  {column.label}
+                  {query.sort === column.id && (query.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {repos.map(repo => (
+            <tr key={repo.name}>
+              <td>
+                <input
+                  type="checkbox"
+                  className="accent-emerald-500"
+                  title="Compare"
+                  checked={compared.includes(repo.name)}
+                  disabled={!compared.includes(repo.name) && compared.length >= MAX_COMPARED}
+                  onChange={() => onToggleCompare(repo.name)}
+                />
+              </td>
+              <td className="pr-2">
+                <button onClick={() => onReveal(repo.name)} className="text-slate-300 hover:text-emerald-400 truncate max-w-[14rem] block text-left">
+                  {repo.name}
+                </button>
+              </td>
+              {columns.map(column => {
+                const score = repoScore(repo, column.id, rubric);
+                return (
+                  <td
+                    key={column.id}
+                    onClick={() => onReveal(repo.name)}
+                    title={`${repo.name} · ${column.label}: ${score === undefined ? 'not scored' : score.toFixed(1)}`}
+                    className={`h-7 min-w-[3rem] text-center font-mono cursor-pointer rounded hover:ring-1 hover:ring-white/60 ${
+                      column.id === AVERAGE_KEY ? 'font-bold' : ''
+                    } ${score === undefined ? 'bg-slate-800 text-slate-600' : 'text-white'}`}
+                    style={score === undefined ? undefined : { backgroundColor: heatColor(score) }}
+                  >
+                    {score === undefined ? '—' : score.toFixed(1)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PortfolioHeatmap;
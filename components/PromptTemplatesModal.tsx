@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollText, X, RotateCcw, AlertTriangle } from 'lucide-react';
+import { PortfolioSummary, RepoAnalysis, Rubric } from '../types';
+import { OrganizationProfile } from '../services/orgProfile';
+import {
+  DEFAULT_TEMPLATES, loadTemplateOverrides, previewVariables, PromptTemplateId, renderTemplate, resetTemplateOverride,
+  saveTemplateOverride, TEMPLATE_ORDER, TemplateOverrides, templateVersion, VARIABLE_DESCRIPTIONS
+} from '../services/promptTemplates';
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The preview renders against the first repository; the portfolio templates use all of them.
+  repos: RepoAnalysis[];
+  summary: PortfolioSummary;
+  context: string;
+  profile: OrganizationProfile;
+  // The rubric the next analysis would use.
+  rubric: Rubric;
+}
+
+const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({ isOpen, onClose, repos, summary, context, profile, rubric }) => {
+  const [overrides, setOverrides] = useState<TemplateOverrides>(loadTemplateOverrides);
+  const [activeId, setActiveId] = useState<PromptTemplateId>('readme');
+  const [draft, setDraft] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (isOpen) setOverrides(loadTemplateOverrides());
+  }, [isOpen]);
+
+  useEffect(() => {
+    setDraft(overrides[activeId]?.body ?? DEFAULT_TEMPLATES[activeId].body);
+  }, [activeId, overrides]);
+
+  const template = DEFAULT_TEMPLATES[activeId];
+  const override = overrides[activeId];
+
+  const preview: ReturnType<typeof renderTemplate> | null = useMemo(() => {
+    if (!isOpen || repos.length === 0) return null;
+    return renderTemplate(draft, previewVariables(activeId, repos[0], repos, summary, context, profile, rubric));
+  }, [isOpen, draft, activeId, repos, summary, context, profile, rubric]);
+
+  if (!isOpen) return null;
+
+  const dirty = draft !== (override?.body ?? template.body);
+
+  const insertVariable = (name: string) => {
+    const editor = editorRef.current;
+    const placeholder = `{{${name}}}`;
+    if (!editor || showPreview) {
+      setDraft(draft + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = editor;
+    setDraft(draft.slice(0, selectionStart) + placeholder + draft.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      editor.focus();
+      editor.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-6xl h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ScrollText className="text-emerald-400" size={20} />
+            Prompt Templates
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <nav className="w-56 shrink-0 overflow-y-auto border-r border-slate-800 py-2 text-sm">
+            {TEMPLATE_ORDER.map(id => (
+              <button
+                key={id}
+                onClick={() => setActiveId(id)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left ${
+                  id === activeId ? 'bg-slate-800 text-emerald-400' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                <span className="truncate">{DEFAULT_TEMPLATES[id].label}</span>
+                {overrides[id] && <span className="shrink-0 px-1.5 rounded text-[10px] bg-indigo-500/20 text-indigo-300">custom</span>}
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-slate-800 text-xs">
+              <span className="font-mono text-slate-500">{templateVersion(activeId, override)}</span>
+              <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+                <button
+                  onClick={() => setShowPreview(false)}
+                  className={`px-3 py-1 ${!showPreview ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => setShowPreview(true)}
+                  className={`px-3 py-1 ${showPreview ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+
+            {override && override.baseVersion < template.version && (
+              <p className="mx-4 mt-3 text-xs text-amber-300 flex items-center gap-1.5">
+                <AlertTriangle size={12} /> The shipped template changed (v{override.baseVersion} → v{template.version}) since this override was saved.
+              </p>
+            )}
+            {preview && preview.unknown.length > 0 && (
+              <p className="mx-4 mt-3 text-xs text-amber-300 flex items-center gap-1.5">
+                <AlertTriangle size={12} /> Unknown variable(s), left as written: {preview.unknown.map(name => `{{${name}}}`).join(', ')}
+              </p>
+            )}
+
+            <div className="flex-1 min-h-0 p-4">
+              {showPreview ? (
+                <pre className="h-full overflow-auto p-3 rounded-lg bg-slate-950 border border-slate-800 font-mono text-xs text-slate-300 whitespace-pre-wrap">
+                  {preview ? preview.text : 'Run an analysis to preview against a real repository.'}
+                </pre>
+              ) : (
+                <textarea
+                  ref={editorRef}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                  className="w-full h-full resize-none p-3 rounded-lg bg-slate-950 border border-slate-700 font-mono text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+                />
+              )}
+            </div>
+          </div>
+
+          <aside className="w-64 shrink-0 overflow-y-auto border-l border-slate-800 p-3 space-y-2">
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Variables</h4>
+            {repos[0] && <p className="text-[11px] text-slate-500">Preview uses {repos[0].name}.</p>}
+            <ul className="space-y-1.5">
+              {template.variables.map(name => (
+                <li key={name}>
+                  <button
+                    onClick={() => insertVariable(name)}
+                    className="text-left w-full group"
+                    title="Insert at cursor"
+                  >
+                    <span className="block font-mono text-xs text-emerald-400 group-hover:text-emerald-300">{`{{${name}}}`}</span>
+                    <span className="block text-[11px] text-slate-500">{VARIABLE_DESCRIPTIONS[name]}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900 flex items-center justify-between gap-2">
+          <button
+            onClick={() => setOverrides(resetTemplateOverride(activeId))}
+            disabled={!override}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <RotateCcw size={14} /> Reset to default
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-300 hover:text-white transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={() => setOverrides(saveTemplateOverride(activeId, draft))}
+              disabled={!dirty}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesModal;
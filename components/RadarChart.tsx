@@ -1,22 +1,18 @@
 import React from 'react';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
-import { RepoAudit } from '../types';
+import { RepoAudit, Rubric } from '../types';
 
 interface HealthChartProps {
   audit: RepoAudit;
+  rubric: Rubric;
 }
 
-const HealthChart: React.FC<HealthChartProps> = ({ audit }) => {
-  const data = [
-    { subject: 'Docs', A: audit.documentation, fullMark: 5 },
-    { subject: 'DevX', A: audit.buildDevX, fullMark: 5 },
-    { subject: 'Testing', A: audit.testing, fullMark: 5 },
-    { subject: 'CI/CD', A: audit.ciCd, fullMark: 5 },
-    { subject: 'Security', A: audit.security, fullMark: 5 },
-    { subject: 'Observability', A: audit.observability, fullMark: 5 },
-    { subject: 'Maintainability', A: audit.maintainability, fullMark: 5 },
-    { subject: 'Prod Ready', A: audit.productionReadiness, fullMark: 5 },
-  ];
+const HealthChart: React.FC<HealthChartProps> = ({ audit, rubric }) => {
+  const data = rubric.dimensions.map(dimension => ({
+    subject: dimension.label,
+    A: audit.scores[dimension.id] ?? 0,
+    fullMark: 5,
+  }));
 
   return (
     <div className="h-64 w-full">
@@ -1,11 +1,11 @@
-import React, { useState } from 'react';
-import { RepoAnalysis, RepoAudit } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedFile, RepoAnalysis, Rubric } from '../types';
 import HealthChart from './RadarChart';
-import { ChevronDown, ChevronUp, ExternalLink, ShieldCheck, FileText, Zap, Loader2, Scale, GitCommit, FileWarning, Lock, Users, FolderTree } from 'lucide-react';
+import CitationList from './CitationList';
+import { ChevronDown, ChevronUp, ExternalLink, ShieldCheck, FileText, Zap, Loader2, Scale, GitCommit, FileWarning, Lock, Users, FolderTree, X } from 'lucide-react';
 import { 
   generateReadme, 
   generateCiCd, 
-  generateLicense, 
   generateCommitConfig,
   generateIssueTemplates,
   generateSecurityPolicy,
@@ -13,9 +13,30 @@ import {
   generateDirectoryStructure
 } from '../services/geminiService';
 import CodeModal from './CodeModal';
+import { CallOptions, isAbortError } from '../services/requestPolicy';
+import { DEFAULT_RUBRIC, dimensionWeights, REPO_TYPE_LABELS, weightedScore } from '../services/rubrics';
+import { bundleFileName, createArtifact, GeneratedArtifact, isArtifactTask } from '../services/artifactApply';
+import { LLMTask } from '../services/llmProvider';
+import { collectRepoContext, createGitHubRawReader, GenerationMode, readerFromSource, RepoContextBundle } from '../services/generatorContext';
+import { RepoSource } from '../services/repoSource';
+import { CI_TARGET_ORDER, CI_TARGETS, CiTarget, defaultCiTarget } from '../services/ciTargets';
+import { LicenseSelection, renderLicense } from '../services/licenseTemplates';
+import { parseGitHubReference } from '../services/githubUrls';
+import LicensePicker from './LicensePicker';
+import { DEFAULT_ORG_PROFILE, missingProfileFields, OrganizationProfile, PROFILE_LABELS } from '../services/orgProfile';
 
 interface RepoCardProps {
   repo: RepoAnalysis;
+  // Local clone or archive collected for this repo; generators read existing files from it.
+  source?: RepoSource;
+  onArtifact?: (artifact: GeneratedArtifact) => void;
+  onApply?: (repo: string) => void;
+  profile?: OrganizationProfile;
+  onEditProfile?: () => void;
+  // The rubric the repo was scored with; it decides the chart axes and the weighted score.
+  rubric?: Rubric;
+  // Changes whenever the Dashboard asks to open this card and scroll it into view.
+  reveal?: number;
 }
 
 interface ActionButtonProps {
@@ -24,12 +45,21 @@ interface ActionButtonProps {
   onClick: (e: React.MouseEvent) => void;
   loading: boolean;
   disabled?: boolean;
+  onCancel?: () => void;
 }
 
-const ActionButton: React.FC<ActionButtonProps> = ({ icon: Icon, label, onClick, loading, disabled }) => (
+const ActionButton: React.FC<ActionButtonProps> = ({ icon: Icon, label, onClick, loading, disabled, onCancel }) => (
   <button 
-    onClick={onClick}
-    disabled={loading || disabled}
+    onClick={(e) => {
+      if (loading && onCancel) {
+        e.stopPropagation();
+        onCancel();
+      } else {
+        onClick(e);
+      }
+    }}
+    disabled={(loading && !onCancel) || disabled}
+    title={loading && onCancel ? 'Cancel' : undefined}
     className={`
       flex items-center justify-start gap-2 px-3 py-2 
       bg-slate-800 hover:bg-slate-700 
@@ -41,30 +71,45 @@ const ActionButton: React.FC<ActionButtonProps> = ({ icon: Icon, label, onClick,
   >
       {loading ? <Loader2 className="animate-spin" size={16}/> : <Icon size={16} className="text-indigo-400" />}
       <span className="truncate">{label}</span>
+      {loading && onCancel && <X size={14} className="ml-auto text-slate-400" />}
   </button>
 );
 
-const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
+const GENERATOR_TASKS: LLMTask[] = ['readme', 'cicd', 'directoryStructure', 'issueTemplates', 'license', 'securityPolicy', 'codeOfConduct', 'commitConfig'];
+
+const RepoCard: React.FC<RepoCardProps> = ({ repo, source, onArtifact, onApply, profile = DEFAULT_ORG_PROFILE, onEditProfile, rubric = DEFAULT_RUBRIC, reveal }) => {
   const [expanded, setExpanded] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
   
   const [modalOpen, setModalOpen] = useState(false);
-  const [modalContent, setModalContent] = useState({ title: '', content: '' });
-
-  // Explicitly map keys to avoid accidental inclusion of non-numeric props if schema changes
-  const auditKeys: (keyof RepoAudit)[] = [
-    'documentation', 
-    'buildDevX', 
-    'testing', 
-    'ciCd', 
-    'security', 
-    'observability', 
-    'maintainability', 
-    'productionReadiness'
-  ];
-
-  const scores = auditKeys.map(key => repo.audit[key] as number);
-  const avgScore = (scores.reduce((a, b) => a + b, 0) / scores.length).toFixed(1);
+  const [modalContent, setModalContent] = useState<{ title: string; task: LLMTask; files: GeneratedFile[] }>({
+    title: '',
+    task: 'readme',
+    files: [],
+  });
+  const abortRef = useRef<AbortController | null>(null);
+  const [mode, setMode] = useState<GenerationMode>('create');
+  const [ciTarget, setCiTarget] = useState<CiTarget>(() => defaultCiTarget(repo.url));
+  const [licenseOpen, setLicenseOpen] = useState(false);
+  const [license, setLicense] = useState<LicenseSelection>(() => ({
+    id: profile.preferredLicense,
+    holder: profile.legalName || parseGitHubReference(repo.url)?.owner || '',
+    year: String(new Date().getFullYear()),
+  }));
+
+  useEffect(() => {
+    setLicense(prev => ({ ...prev, id: profile.preferredLicense, holder: profile.legalName || prev.holder }));
+  }, [profile.preferredLicense, profile.legalName]);
+
+  const missingFields: (keyof OrganizationProfile)[] = useMemo(
+    () => Array.from(new Set(GENERATOR_TASKS.flatMap(task => missingProfileFields(profile, task)))),
+    [profile]
+  );
+  const reader = useMemo(() => (source ? readerFromSource(source) : createGitHubRawReader(repo.url)), [source, repo.url]);
+
+  const weights = dimensionWeights(rubric, repo.repoType);
+  const avgScore = weightedScore(repo.audit, rubric, repo.repoType).toFixed(1);
 
   const getScoreColor = (score: number) => {
     if (score >= 4) return 'text-emerald-400';
@@ -74,33 +119,53 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
 
   const handleGenerator = async (
     e: React.MouseEvent, 
-    actionName: string, 
-    generatorFn: (repo: RepoAnalysis) => Promise<string>,
+    actionName: LLMTask,
+    generatorFn: (repo: RepoAnalysis, context?: RepoContextBundle, options?: CallOptions) => Promise<GeneratedFile[]>,
     title: string
   ) => {
     e.stopPropagation();
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoadingAction(actionName);
     try {
-      const content = await generatorFn(repo);
-      setModalContent({ title, content });
+      const context = await collectRepoContext(repo, actionName, reader, mode, controller.signal, profile);
+      const files = await generatorFn(repo, context, { signal: controller.signal });
+      if (isArtifactTask(actionName)) onArtifact?.(createArtifact(repo, actionName, files));
+      setModalContent({ title, task: actionName, files });
       setModalOpen(true);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
       alert(`Failed to generate ${title}`);
     } finally {
-      setLoadingAction(null);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoadingAction(null);
+      }
     }
   };
 
+  const cancelGenerator = () => abortRef.current?.abort();
+
+  useEffect(() => {
+    if (reveal === undefined) return;
+    setExpanded(true);
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [reveal]);
+
   return (
     <>
-      <div className="bg-slate-800 border border-slate-700 rounded-lg overflow-hidden mb-4 transition-all hover:border-slate-600">
+      <div ref={cardRef} className="bg-slate-800 border border-slate-700 rounded-lg overflow-hidden mb-4 transition-all hover:border-slate-600 scroll-mt-20">
         <div 
           className="p-4 flex items-center justify-between cursor-pointer bg-slate-800/50"
           onClick={() => setExpanded(!expanded)}
         >
           <div className="flex items-center space-x-4">
-            <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold bg-slate-700 ${getScoreColor(parseFloat(avgScore))}`}>
+            <div
+              title={`Weighted ${rubric.name} score${repo.repoType ? ` for a ${REPO_TYPE_LABELS[repo.repoType].toLowerCase()}` : ''}`}
+              className={`w-10 h-10 rounded-full flex items-center justify-center font-bold bg-slate-700 ${getScoreColor(parseFloat(avgScore))}`}
+            >
               {avgScore}
             </div>
             <div>
@@ -112,6 +177,7 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
               </h3>
               <div className="flex items-center space-x-2 text-sm text-slate-400">
                 <span className="px-2 py-0.5 bg-slate-700 rounded text-xs">{repo.status}</span>
+                {repo.repoType && <span className="px-2 py-0.5 bg-slate-700 rounded text-xs">{REPO_TYPE_LABELS[repo.repoType]}</span>}
                 <span>{repo.primaryLanguage}</span>
               </div>
             </div>
@@ -132,8 +198,46 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
               <div>
                 <h4 className="text-sm uppercase tracking-wider text-slate-500 mb-2 font-bold">Health Audit</h4>
                 <div className="h-64">
-                   <HealthChart audit={repo.audit} />
+                   <HealthChart audit={repo.audit} rubric={rubric} />
                 </div>
+                <div className="mt-4">
+                  <h5 className="text-sm font-semibold text-indigo-400 mb-2">Score Breakdown</h5>
+                  <ul className="space-y-2 text-xs">
+                    {rubric.dimensions.map(({ id, label, description }) => {
+                      const baseline = repo.audit.baseline?.[id];
+                      const adjustment = repo.audit.adjustments?.find(a => a.dimension === id);
+                      return (
+                        <li key={id} className="bg-slate-900 border border-slate-700 rounded p-2">
+                          <div className="flex justify-between text-slate-300">
+                            <span className="font-semibold" title={description}>
+                              {label}
+                              <span className={`ml-1.5 font-normal ${weights[id] > 0 ? 'text-slate-500' : 'text-slate-600 line-through'}`}>×{weights[id]}</span>
+                            </span>
+                            <span className="font-mono">
+                              {repo.audit.scores[id] ?? '—'}
+                              {adjustment && baseline && <span className="text-slate-500"> (baseline {baseline.score})</span>}
+                            </span>
+                          </div>
+                          {baseline && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {baseline.firedRules.length > 0 ? baseline.firedRules.map(rule => (
+                                <span key={rule.id} title={rule.id} className="px-1.5 py-0.5 bg-slate-800 border border-slate-700 rounded text-slate-400">
+                                  {rule.description} <span className="text-emerald-400">+{rule.weight}</span>
+                                </span>
+                              )) : (
+                                <span className="text-slate-500">No rules fired (of weight {baseline.totalWeight})</span>
+                              )}
+                            </div>
+                          )}
+                          {adjustment && (
+                            <p className="mt-1 text-yellow-300/80">Adjusted by model: {adjustment.justification}</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+
                 <div className="mt-4">
                   <h5 className="text-sm font-semibold text-emerald-400 mb-1 flex items-center gap-1">
                       <ShieldCheck size={14}/> Top Fixes
@@ -152,6 +256,7 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
                   <p className="text-sm text-slate-300 leading-relaxed bg-slate-800 p-3 rounded border border-slate-700">
                     {repo.audit.rationale}
                   </p>
+                  <CitationList citations={repo.audit.citations} className="mt-2" />
                 </div>
                 
                 <div>
@@ -159,6 +264,21 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
                    <p className="text-sm text-slate-400">{repo.description}</p>
                 </div>
 
+                {repo.facts && (
+                  <div>
+                    <h4 className="text-sm uppercase tracking-wider text-slate-500 mb-2 font-bold">Collected Facts</h4>
+                    <ul className="text-xs text-slate-400 space-y-1 font-mono bg-slate-900 p-3 rounded border border-slate-700">
+                      <li>README: {repo.facts.hasReadme ? 'yes' : 'no'} · LICENSE: {repo.facts.hasLicense ? 'yes' : 'no'} · SECURITY.md: {repo.facts.hasSecurityPolicy ? 'yes' : 'no'}</li>
+                      <li>CI: {repo.facts.ciWorkflows.join(', ') || 'none'}</li>
+                      <li>Tests: {repo.facts.testDirectories.join(', ') || 'none'}</li>
+                      <li>Lockfiles: {repo.facts.lockfiles.join(', ') || 'none'}</li>
+                      {repo.facts.lastCommitAt && (
+                        <li>Last commit: {repo.facts.lastCommitAt.slice(0, 10)} ({repo.facts.lastCommitSource === 'git' ? 'git log' : 'file timestamps'})</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="flex flex-wrap gap-2 mt-2">
                    {repo.frameworks.map(fw => (
                       <span key={fw} className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-slate-400 font-mono">
@@ -168,49 +288,122 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
                 </div>
 
                 <div className="pt-4 border-t border-slate-800">
-                   <h4 className="text-sm uppercase tracking-wider text-slate-500 mb-3 font-bold">Engineering Assets Generator</h4>
+                   <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                     <h4 className="text-sm uppercase tracking-wider text-slate-500 font-bold">Engineering Assets Generator</h4>
+                     <div className="flex items-center gap-3 text-xs text-slate-500">
+                       <span title="Existing files and manifests are read from here before generating">
+                         Context: <span className="font-mono text-slate-400">{reader ? reader.label : 'audit findings only'}</span>
+                       </span>
+                       <label className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+                         <input
+                           type="checkbox"
+                           className="accent-emerald-500"
+                           checked={mode === 'update'}
+                           onChange={(e) => setMode(e.target.checked ? 'update' : 'create')}
+                         />
+                         Update in place
+                       </label>
+                       <label className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+                         CI:
+                         <select
+                           value={ciTarget}
+                           onChange={(e) => setCiTarget(e.target.value as CiTarget)}
+                           className="bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300"
+                         >
+                           {CI_TARGET_ORDER.map(target => (
+                             <option key={target} value={target}>{CI_TARGETS[target].label}</option>
+                           ))}
+                         </select>
+                       </label>
+                     </div>
+                   </div>
+                   {missingFields.length > 0 && (
+                     <p className="mb-3 text-xs text-amber-300/80">
+                       Organization profile is missing {missingFields.map(field => PROFILE_LABELS[field]).join(', ')}; generated files will leave them out.
+                       {onEditProfile && (
+                         <button
+                           onClick={(e) => {
+                             e.stopPropagation();
+                             onEditProfile();
+                           }}
+                           className="ml-2 underline hover:text-amber-200"
+                         >
+                           Edit profile
+                         </button>
+                       )}
+                     </p>
+                   )}
                    <div className="grid grid-cols-2 gap-3">
                       <ActionButton 
                         icon={FileText} label="README" 
+                        onCancel={cancelGenerator}
                         loading={loadingAction === 'readme'} 
                         onClick={(e) => handleGenerator(e, 'readme', generateReadme, `README.md - ${repo.name}`)} 
                       />
                       <ActionButton 
                         icon={Zap} label="CI/CD & Docs" 
+                        onCancel={cancelGenerator}
                         loading={loadingAction === 'cicd'} 
-                        onClick={(e) => handleGenerator(e, 'cicd', generateCiCd, `.github/workflows/ci.yml - ${repo.name}`)} 
+                        onClick={(e) => handleGenerator(
+                          e,
+                          'cicd',
+                          (r, context, options) => generateCiCd(r, context, options, ciTarget),
+                          `${CI_TARGETS[ciTarget].label} & Docs - ${repo.name}`
+                        )} 
                       />
                       <ActionButton 
                         icon={FolderTree} label="Structure" 
-                        loading={loadingAction === 'structure'} 
-                        onClick={(e) => handleGenerator(e, 'structure', generateDirectoryStructure, `Structure - ${repo.name}`)} 
+                        onCancel={cancelGenerator}
+                        loading={loadingAction === 'directoryStructure'} 
+                        onClick={(e) => handleGenerator(e, 'directoryStructure', generateDirectoryStructure, `Structure - ${repo.name}`)} 
                       />
                       <ActionButton 
                         icon={FileWarning} label="Issues" 
-                        loading={loadingAction === 'issues'} 
-                        onClick={(e) => handleGenerator(e, 'issues', generateIssueTemplates, `Issue Templates - ${repo.name}`)} 
+                        onCancel={cancelGenerator}
+                        loading={loadingAction === 'issueTemplates'} 
+                        onClick={(e) => handleGenerator(e, 'issueTemplates', generateIssueTemplates, `Issue Templates - ${repo.name}`)} 
                       />
                       <ActionButton 
                         icon={Scale} label="License" 
+                        onCancel={cancelGenerator}
                         loading={loadingAction === 'license'} 
-                        onClick={(e) => handleGenerator(e, 'license', generateLicense, `LICENSE - ${repo.name}`)} 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setLicenseOpen(!licenseOpen);
+                        }} 
                       />
                       <ActionButton 
                         icon={Lock} label="Security" 
-                        loading={loadingAction === 'security'} 
-                        onClick={(e) => handleGenerator(e, 'security', generateSecurityPolicy, `SECURITY.md - ${repo.name}`)} 
+                        onCancel={cancelGenerator}
+                        loading={loadingAction === 'securityPolicy'} 
+                        onClick={(e) => handleGenerator(e, 'securityPolicy', generateSecurityPolicy, `SECURITY.md - ${repo.name}`)} 
                       />
                       <ActionButton 
                         icon={Users} label="Conduct" 
-                        loading={loadingAction === 'coc'} 
-                        onClick={(e) => handleGenerator(e, 'coc', generateCodeOfConduct, `CODE_OF_CONDUCT.md - ${repo.name}`)} 
+                        onCancel={cancelGenerator}
+                        loading={loadingAction === 'codeOfConduct'} 
+                        onClick={(e) => handleGenerator(e, 'codeOfConduct', generateCodeOfConduct, `CODE_OF_CONDUCT.md - ${repo.name}`)} 
                       />
                       <ActionButton 
                         icon={GitCommit} label="Commits" 
-                        loading={loadingAction === 'commit'} 
-                        onClick={(e) => handleGenerator(e, 'commit', generateCommitConfig, `Commit Config - ${repo.name}`)} 
+                        onCancel={cancelGenerator}
+                        loading={loadingAction === 'commitConfig'} 
+                        onClick={(e) => handleGenerator(e, 'commitConfig', generateCommitConfig, `Commit Config - ${repo.name}`)} 
                       />
                    </div>
+                   {licenseOpen && (
+                     <LicensePicker
+                       selection={license}
+                       onChange={setLicense}
+                       loading={loadingAction === 'license'}
+                       onGenerate={(e) => handleGenerator(
+                         e,
+                         'license',
+                         async (r) => renderLicense(license, r.name),
+                         `LICENSE (${license.id}) - ${repo.name}`
+                       )}
+                     />
+                   )}
                 </div>
               </div>
             </div>
@@ -221,7 +414,13 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo }) => {
         isOpen={modalOpen} 
         onClose={() => setModalOpen(false)} 
         title={modalContent.title} 
-        content={modalContent.content} 
+        files={modalContent.files}
+        zipName={bundleFileName(`${repo.name}-${modalContent.task}`)}
+        task={modalContent.task}
+        onApply={isArtifactTask(modalContent.task) && onApply ? () => {
+          setModalOpen(false);
+          onApply(repo.name);
+        } : undefined}
       />
     </>
   );
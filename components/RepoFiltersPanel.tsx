@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { FileJson, X } from 'lucide-react';
+import { RepoFilters } from '../types';
+import { createJsonListingSource, DEFAULT_REPO_FILTERS, ExpandedInput, RepoListingSource } from '../services/repoListing';
+
+interface RepoFiltersPanelProps {
+  filters?: RepoFilters;
+  onChange: (filters: RepoFilters) => void;
+  // A local listing replaces the GitHub API when expanding profiles and organizations.
+  listing: RepoListingSource | null;
+  onListingChange: (listing: RepoListingSource | null) => void;
+  expanded?: ExpandedInput | null;
+}
+
+const RepoFiltersPanel: React.FC<RepoFiltersPanelProps> = ({ filters = DEFAULT_REPO_FILTERS, onChange, listing, onListingChange, expanded }) => {
+  const [error, setError] = useState<string | null>(null);
+  const listingInput = useRef<HTMLInputElement>(null);
+
+  const handleListingInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onListingChange(createJsonListingSource(await file.text(), file.name));
+    } catch (err: any) {
+      setError(err.message || "Failed to read repository listing.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <span className="text-slate-500">Profile expansion:</span>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            className="accent-emerald-500"
+            checked={filters.includeForks}
+            onChange={e => onChange({ ...filters, includeForks: e.target.checked })}
+          />
+          Forks
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            className="accent-emerald-500"
+            checked={filters.includeArchived}
+            onChange={e => onChange({ ...filters, includeArchived: e.target.checked })}
+          />
+          Archived
+        </label>
+        <label className="flex items-center gap-1.5">
+          Pushed since
+          <input
+            type="date"
+            className="bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300"
+            value={filters.pushedSince || ''}
+            onChange={e => onChange({ ...filters, pushedSince: e.target.value || undefined })}
+          />
+        </label>
+        {listing ? (
+          <span className="flex items-center gap-1.5 font-mono text-emerald-400">
+            <FileJson size={12} /> {listing.label}
+            <button type="button" onClick={() => onListingChange(null)} className="text-slate-500 hover:text-white">
+              <X size={12} />
+            </button>
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={() => listingInput.current?.click()}
+            className="flex items-center gap-1.5 text-slate-500 hover:text-emerald-400 underline decoration-dotted"
+          >
+            <FileJson size={12} /> Use local listing (.json)
+          </button>
+        )}
+        <input ref={listingInput} type="file" accept=".json,application/json" className="hidden" onChange={handleListingInput} />
+      </div>
+
+      {error && <div className="text-xs text-red-300">{error}</div>}
+
+      {expanded && (expanded.expansions.length > 0 || expanded.invalid.length > 0) && (
+        <ul className="space-y-1 text-xs">
+          {expanded.expansions.map(expansion => (
+            <li key={expansion.owner} className={expansion.error ? 'text-red-300' : 'text-slate-400'}>
+              <span className="font-mono text-slate-300">@{expansion.owner}</span>{' '}
+              {expansion.error || `${expansion.kept} of ${expansion.total} repositories after filters`}
+            </li>
+          ))}
+          {expanded.invalid.length > 0 && (
+            <li className="text-amber-300">Ignored unrecognized input: {expanded.invalid.join(', ')}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RepoFiltersPanel;
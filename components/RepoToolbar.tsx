@@ -0,0 +1,154 @@
+import React from 'react';
+import { Search, ArrowDown, ArrowUp, Plus, X, ChevronDown } from 'lucide-react';
+import { RepoAnalysis, Rubric } from '../types';
+import {
+  AVERAGE_KEY, DEFAULT_REPO_QUERY, facetValues, isDefaultQuery, REPO_STATUSES, RepoQuery, RepoStatus, ScoreRange
+} from '../services/repoQuery';
+
+interface RepoToolbarProps {
+  repos: RepoAnalysis[];
+  rubric: Rubric;
+  query: RepoQuery;
+  onChange: (query: RepoQuery) => void;
+  shownCount: number;
+}
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+interface FacetMenuProps {
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const FacetMenu: React.FC<FacetMenuProps> = ({ label, options, selected, onChange }) => (
+  <details className="relative">
+    <summary className={`list-none cursor-pointer flex items-center gap-1 px-2 py-1 rounded border ${
+      selected.length > 0 ? 'border-emerald-500/50 text-emerald-300' : 'border-slate-700 text-slate-400 hover:text-white'
+    }`}>
+      {label}{selected.length > 0 && ` (${selected.length})`} <ChevronDown size={12} />
+    </summary>
+    <div className="absolute z-20 mt-1 max-h-64 w-56 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-2 shadow-xl space-y-1">
+      {options.length === 0 && <p className="text-slate-500 px-1">None in this analysis.</p>}
+      {options.map(option => (
+        <label key={option} className="flex items-center gap-2 px-1 text-slate-300">
+          <input type="checkbox" className="accent-emerald-500" checked={selected.includes(option)} onChange={() => onChange(toggle(selected, option))} />
+          <span className="truncate">{option}</span>
+        </label>
+      ))}
+    </div>
+  </details>
+);
+
+const RepoToolbar: React.FC<RepoToolbarProps> = ({ repos, rubric, query, onChange, shownCount }) => {
+  const statuses = REPO_STATUSES.filter(status => repos.some(r => r.status === status));
+  const languages = facetValues(repos.map(r => r.primaryLanguage));
+  const frameworks = facetValues(repos.flatMap(r => r.frameworks || []));
+  const scoreKeys = [
+    { id: AVERAGE_KEY, label: 'Weighted score' },
+    ...rubric.dimensions.map(d => ({ id: d.id, label: d.label })),
+  ];
+
+  const updateRange = (index: number, patch: Partial<ScoreRange>) =>
+    onChange({ ...query, ranges: query.ranges.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  const addRange = () => {
+    const unused = scoreKeys.find(k => !query.ranges.some(r => r.dimension === k.id)) || scoreKeys[0];
+    onChange({ ...query, ranges: [...query.ranges, { dimension: unused.id, min: 0, max: 5 }] });
+  };
+
+  return (
+    <div className="mb-4 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[14rem]">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-8 pr-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
+            placeholder="Search name, description and rationale"
+            value={query.search}
+            onChange={(e) => onChange({ ...query, search: e.target.value })}
+          />
+        </div>
+        <label className="flex items-center gap-1.5 text-slate-400">
+          Sort
+          <select
+            className="bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-300"
+            value={query.sort}
+            onChange={(e) => onChange({ ...query, sort: e.target.value, direction: e.target.value === 'name' ? 'asc' : 'desc' })}
+          >
+            <option value="default">Active first</option>
+            <option value="name">Name</option>
+            {scoreKeys.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+          </select>
+        </label>
+        {query.sort !== 'default' && (
+          <button
+            onClick={() => onChange({ ...query, direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+            title={query.direction === 'asc' ? 'Ascending' : 'Descending'}
+            className="p-1.5 text-slate-400 hover:text-white border border-slate-700 rounded transition-colors"
+          >
+            {query.direction === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+          </button>
+        )}
+        <span className="text-slate-500">{shownCount} of {repos.length} repos</span>
+        {!isDefaultQuery(query) && (
+          <button onClick={() => onChange(DEFAULT_REPO_QUERY)} className="text-slate-500 hover:text-emerald-400 underline decoration-dotted">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {statuses.map(status => (
+          <button
+            key={status}
+            onClick={() => onChange({ ...query, statuses: toggle<RepoStatus>(query.statuses, status) })}
+            className={`px-2 py-1 rounded border transition-colors ${
+              query.statuses.includes(status) ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300' : 'border-slate-700 text-slate-400 hover:text-white'
+            }`}
+          >
+            {status}
+          </button>
+        ))}
+        <FacetMenu label="Language" options={languages} selected={query.languages} onChange={(languages) => onChange({ ...query, languages })} />
+        <FacetMenu label="Framework" options={frameworks} selected={query.frameworks} onChange={(frameworks) => onChange({ ...query, frameworks })} />
+
+        {query.ranges.map((range, i) => (
+          <span key={i} className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-emerald-500/50 text-slate-300">
+            <select
+              className="bg-transparent text-emerald-300 focus:outline-none"
+              value={range.dimension}
+              onChange={(e) => updateRange(i, { dimension: e.target.value })}
+            >
+              {scoreKeys.map(k => <option key={k.id} value={k.id} className="bg-slate-900">{k.label}</option>)}
+            </select>
+            <input
+              type="number" min={0} max={5} step={0.5}
+              className="w-12 bg-slate-950 border border-slate-700 rounded px-1 text-right font-mono"
+              value={range.min}
+              onChange={(e) => updateRange(i, { min: Number(e.target.value) })}
+            />
+            –
+            <input
+              type="number" min={0} max={5} step={0.5}
+              className="w-12 bg-slate-950 border border-slate-700 rounded px-1 text-right font-mono"
+              value={range.max}
+              onChange={(e) => updateRange(i, { max: Number(e.target.value) })}
+            />
+            <button onClick={() => onChange({ ...query, ranges: query.ranges.filter((_, j) => j !== i) })} className="text-slate-500 hover:text-white">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <button onClick={addRange} className="flex items-center gap-1 text-slate-500 hover:text-emerald-400">
+          <Plus size={12} /> Score range
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RepoToolbar;
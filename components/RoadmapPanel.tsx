@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Zap, AlertCircle } from 'lucide-react';
+import { ActionItem, TrackedAction } from '../types';
+import {
+  buildRoadmap, DEFAULT_EFFORT_WEEKS, isQuickWin, QUARTER_WEEKS, Roadmap, RoadmapConfig, roadmapCsv, roadmapMarkdown, SPRINT_WEEKS
+} from '../services/roadmap';
+import { downloadText } from '../services/issueExport';
+
+interface RoadmapPanelProps {
+  actions: TrackedAction[];
+}
+
+const EFFORTS: ActionItem['effort'][] = ['Small', 'Medium', 'Large'];
+
+const numberClass = 'w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 text-right focus:outline-none focus:border-emerald-500';
+
+// Next Monday, so sprints line up with calendar weeks.
+const nextMonday = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+  return date.toISOString().slice(0, 10);
+};
+
+const RoadmapPanel: React.FC<RoadmapPanelProps> = ({ actions }) => {
+  const [config, setConfig] = useState<RoadmapConfig>(() => ({
+    cadence: 'sprint',
+    capacity: 6,
+    effortWeeks: DEFAULT_EFFORT_WEEKS,
+    startDate: nextMonday(),
+  }));
+
+  const roadmap: Roadmap = useMemo(() => buildRoadmap(actions, config), [actions, config]);
+  const periodWeeks = config.cadence === 'sprint' ? SPRINT_WEEKS : QUARTER_WEEKS;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span className="block">Plan by</span>
+          <select
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-300"
+            value={config.cadence}
+            onChange={(e) => {
+              const cadence = e.target.value as RoadmapConfig['cadence'];
+              // Keep the team size when switching: capacity scales with the period length.
+              const perWeek = config.capacity / periodWeeks;
+              setConfig({ ...config, cadence, capacity: Math.round(perWeek * (cadence === 'sprint' ? SPRINT_WEEKS : QUARTER_WEEKS) * 10) / 10 });
+            }}
+          >
+            <option value="sprint">{SPRINT_WEEKS}-week sprints</option>
+            <option value="quarter">Quarters</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block">Capacity (engineer-weeks per {config.cadence})</span>
+          <input
+            type="number" min={0.5} step={0.5} className={numberClass}
+            value={config.capacity}
+            onChange={(e) => setConfig({ ...config, capacity: Math.max(0, Number(e.target.value)) })}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block">Starts</span>
+          <input
+            type="date"
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-300"
+            value={config.startDate}
+            onChange={(e) => e.target.value && setConfig({ ...config, startDate: e.target.value })}
+          />
+        </label>
+        <div className="space-y-1">
+          <span className="block">Engineer-weeks per effort</span>
+          <div className="flex items-center gap-2">
+            {EFFORTS.map(effort => (
+              <label key={effort} className="flex items-center gap-1">
+                {effort}
+                <input
+                  type="number" min={0} step={0.5} className={`${numberClass} w-14`}
+                  value={config.effortWeeks[effort]}
+                  onChange={(e) => setConfig({ ...config, effortWeeks: { ...config.effortWeeks, [effort]: Math.max(0, Number(e.target.value)) } })}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => downloadText(roadmapMarkdown(roadmap, config, actions), 'roadmap.md', 'text/markdown')}
+            disabled={roadmap.periods.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <Download size={14} /> Markdown
+          </button>
+          <button
+            onClick={() => downloadText(roadmapCsv(roadmap, actions), 'roadmap.csv')}
+            disabled={roadmap.periods.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <Download size={14} /> CSV
+          </button>
+        </div>
+      </div>
+
+      {roadmap.periods.length === 0 && roadmap.unscheduled.length === 0 && (
+        <p className="text-sm text-slate-500">No open actions to schedule.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+        {roadmap.periods.map(period => (
+          <div key={period.index} className="rounded-xl border border-slate-700 bg-slate-900/40 p-3">
+            <div className="flex items-baseline justify-between">
+              <h3 className="text-sm font-bold text-slate-200">{period.label}</h3>
+              <span className="text-[11px] text-slate-500">{period.start} – {period.end}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded mt-2 mb-1 overflow-hidden" title={`${period.load} of ${config.capacity} engineer-weeks`}>
+              <div className="h-full bg-indigo-500" style={{ width: `${config.capacity > 0 ? Math.min(100, (period.load / config.capacity) * 100) : 0}%` }} />
+            </div>
+            <p className="text-[11px] text-slate-500 mb-2">{Math.round(period.load * 10) / 10} / {config.capacity} engineer-weeks</p>
+            <ul className="space-y-1.5">
+              {period.actions.map(({ action, weeks, startPeriod, endPeriod }) => (
+                <li key={action.id} className="text-xs bg-slate-800 border border-slate-700 rounded px-2 py-1.5">
+                  <span className="text-slate-200 flex items-center gap-1">
+                    {isQuickWin(action.item) && <Zap size={11} className="text-emerald-400 shrink-0" />}
+                    {action.item.title}
+                  </span>
+                  <span className="block text-[11px] text-slate-500">
+                    <span className="font-mono text-indigo-400">{action.item.repo}</span> · {weeks} wk
+                    {startPeriod !== endPeriod && (period.index === startPeriod ? ' · continues' : period.index === endPeriod ? ' · finishes' : ' · ongoing')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {roadmap.unscheduled.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {roadmap.unscheduled.map(({ action, reason }) => (
+            <li key={action.id} className="flex items-start gap-2 text-amber-300">
+              <AlertCircle size={12} className="mt-0.5 shrink-0" /> {action.item.title} ({action.item.repo}): {reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RoadmapPanel;
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, X, Plus, Trash2, Copy, AlertCircle, CheckCircle } from 'lucide-react';
+import { RepoType, Rubric, RubricDimension } from '../types';
+import {
+  DEFAULT_RUBRIC, dimensionIdFor, isBuiltInRubric, REPO_TYPE_LABELS, REPO_TYPES, RubricLibrary, validateRubric
+} from '../services/rubrics';
+
+interface RubricModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  library: RubricLibrary;
+  onSave: (library: RubricLibrary) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-emerald-500 disabled:opacity-60';
+const weightClass = 'w-16 bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-xs font-mono text-slate-200 text-right focus:outline-none focus:border-emerald-500 disabled:opacity-60';
+
+const RubricModal: React.FC<RubricModalProps> = ({ isOpen, onClose, library, onSave }) => {
+  const [selectedId, setSelectedId] = useState(library.activeId);
+  const [draft, setDraft] = useState<Rubric>(DEFAULT_RUBRIC);
+
+  const rubrics = [DEFAULT_RUBRIC, ...library.rubrics];
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(library.activeId);
+  }, [isOpen, library.activeId]);
+
+  useEffect(() => {
+    setDraft(structuredClone(rubrics.find(r => r.id === selectedId) || DEFAULT_RUBRIC));
+  }, [selectedId, library]);
+
+  if (!isOpen) return null;
+
+  const readOnly = isBuiltInRubric(draft);
+  const problems = readOnly ? [] : validateRubric(draft);
+
+  const updateDimension = (index: number, patch: Partial<RubricDimension>) => {
+    const dimensions = draft.dimensions.map((d, i) => (i === index ? { ...d, ...patch } : d));
+    setDraft({ ...draft, dimensions });
+  };
+
+  // Renaming an id carries its per-type weights along.
+  const renameDimension = (index: number, id: string) => {
+    const previous = draft.dimensions[index].id;
+    const profiles: Rubric['profiles'] = {};
+    REPO_TYPES.forEach(type => {
+      const weights = draft.profiles[type];
+      if (!weights) return;
+      const { [previous]: weight, ...rest } = weights;
+      profiles[type] = weight === undefined ? rest : { ...rest, [id]: weight };
+    });
+    setDraft({ ...draft, profiles, dimensions: draft.dimensions.map((d, i) => (i === index ? { ...d, id } : d)) });
+  };
+
+  const removeDimension = (index: number) => {
+    const id = draft.dimensions[index].id;
+    const profiles: Rubric['profiles'] = {};
+    REPO_TYPES.forEach(type => {
+      if (!draft.profiles[type]) return;
+      const { [id]: _removed, ...rest } = draft.profiles[type]!;
+      profiles[type] = rest;
+    });
+    setDraft({ ...draft, profiles, dimensions: draft.dimensions.filter((_, i) => i !== index) });
+  };
+
+  const addDimension = () => {
+    let n = draft.dimensions.length + 1;
+    while (draft.dimensions.some(d => d.id === `dimension${n}`)) n++;
+    setDraft({ ...draft, dimensions: [...draft.dimensions, { id: `dimension${n}`, label: '', description: '', weight: 1 }] });
+  };
+
+  const setProfileWeight = (type: RepoType, id: string, value: string) => {
+    const { [id]: _previous, ...rest } = draft.profiles[type] || {};
+    const weights = value.trim() === '' ? rest : { ...rest, [id]: Math.max(0, Number(value)) };
+    setDraft({ ...draft, profiles: { ...draft.profiles, [type]: weights } });
+  };
+
+  const duplicate = () => {
+    const copy: Rubric = { ...structuredClone(draft), id: crypto.randomUUID(), name: `${draft.name} (copy)` };
+    onSave({ ...library, rubrics: [...library.rubrics, copy] });
+    setSelectedId(copy.id);
+  };
+
+  const remove = () => {
+    const rest = library.rubrics.filter(r => r.id !== draft.id);
+    onSave({ rubrics: rest, activeId: library.activeId === draft.id ? DEFAULT_RUBRIC.id : library.activeId });
+    setSelectedId(DEFAULT_RUBRIC.id);
+  };
+
+  const save = () => {
+    onSave({ ...library, rubrics: library.rubrics.map(r => (r.id === draft.id ? draft : r)) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-6xl h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <SlidersHorizontal className="text-emerald-400" size={20} />
+            Audit Rubrics
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <nav className="w-56 shrink-0 overflow-y-auto border-r border-slate-800 py-2 text-sm">
+            {rubrics.map(rubric => (
+              <button
+                key={rubric.id}
+                onClick={() => setSelectedId(rubric.id)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left ${
+                  rubric.id === selectedId ? 'bg-slate-800 text-emerald-400' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                <span className="truncate">{rubric.name}</span>
+                {rubric.id === library.activeId && <span className="shrink-0 px-1.5 rounded text-[10px] bg-emerald-500/20 text-emerald-300">active</span>}
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex-1 overflow-auto p-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="flex-1 min-w-[12rem] space-y-1">
+                <span className="text-xs text-slate-400">Name</span>
+                <input className={inputClass} value={draft.name} disabled={readOnly} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <button
+                onClick={() => onSave({ ...library, activeId: draft.id })}
+                disabled={draft.id === library.activeId || problems.length > 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <CheckCircle size={14} /> Use for next analysis
+              </button>
+              <button
+                onClick={duplicate}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+              >
+                <Copy size={14} /> Duplicate
+              </button>
+              {!readOnly && (
+                <button
+                  onClick={remove}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-rose-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+                >
+                  <Trash2 size={14} /> Delete
+                </button>
+              )}
+            </div>
+
+            {readOnly && (
+              <p className="text-xs text-slate-500">The Standard rubric ships with the app. Duplicate it to change dimensions or weights.</p>
+            )}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 text-left">
+                  <th className="pb-2 pr-2 font-medium">Dimension</th>
+                  <th className="pb-2 pr-2 font-medium">What a 5 looks like</th>
+                  <th className="pb-2 pr-2 font-medium text-right">Weight</th>
+                  {REPO_TYPES.map(type => (
+                    <th key={type} className="pb-2 pr-2 font-medium text-right">{REPO_TYPE_LABELS[type]}</th>
+                  ))}
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.dimensions.map((dimension, i) => (
+                  <tr key={i} className="align-top border-t border-slate-800">
+                    <td className="py-2 pr-2 w-48 space-y-1">
+                      <input
+                        className={inputClass}
+                        placeholder="Accessibility"
+                        value={dimension.label}
+                        disabled={readOnly}
+                        onChange={(e) => {
+                          const label = e.target.value;
+                          const wasDerived = dimension.id === dimensionIdFor(dimension.label) || /^dimension\d+$/.test(dimension.id);
+                          updateDimension(i, { label });
+                          if (wasDerived && label.trim()) renameDimension(i, dimensionIdFor(label));
+                        }}
+                      />
+                      <input
+                        className={`${inputClass} font-mono text-xs`}
+                        title="Key in the audit scores"
+                        value={dimension.id}
+                        disabled={readOnly}
+                        onChange={(e) => renameDimension(i, e.target.value.trim())}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <textarea
+                        rows={2}
+                        className={`${inputClass} resize-y text-xs`}
+                        placeholder="WCAG 2.1 AA checks in CI, semantic markup, keyboard navigation."
+                        value={dimension.description}
+                        disabled={readOnly}
+                        onChange={(e) => updateDimension(i, { description: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className={weightClass}
+                        value={dimension.weight}
+                        disabled={readOnly}
+                        onChange={(e) => updateDimension(i, { weight: Math.max(0, Number(e.target.value)) })}
+                      />
+                    </td>
+                    {REPO_TYPES.map(type => (
+                      <td key={type} className="py-2 pr-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className={weightClass}
+                          placeholder={String(dimension.weight)}
+                          value={draft.profiles[type]?.[dimension.id] ?? ''}
+                          disabled={readOnly}
+                          onChange={(e) => setProfileWeight(type, dimension.id, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2 text-right">
+                      {!readOnly && (
+                        <button onClick={() => removeDimension(i)} title="Remove dimension" className="p-1.5 text-slate-500 hover:text-rose-400 transition-colors">
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {!readOnly && (
+              <button
+                onClick={addDimension}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-white border border-slate-700 rounded-lg transition-colors"
+              >
+                <Plus size={14} /> Add dimension
+              </button>
+            )}
+
+            <p className="text-xs text-slate-500">
+              Per-type columns override the weight for repos of that type; leave them blank to use the weight, or set 0 to leave a dimension out of that type's score.
+              Dimensions without a built-in rule are scored by the model alone. A rubric applies to the next analysis.
+            </p>
+
+            {problems.length > 0 && (
+              <ul className="space-y-1 text-xs">
+                {problems.map((problem, i) => (
+                  <li key={i} className="flex items-start gap-2 text-rose-300">
+                    <AlertCircle size={12} className="mt-0.5 shrink-0" /> {problem}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-300 hover:text-white transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={save}
+            disabled={readOnly || problems.length > 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RubricModal;
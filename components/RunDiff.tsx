@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, GitCompare, ArrowUp, ArrowDown, Plus, Minus } from 'lucide-react';
+import { AnalysisRecord } from '../types';
+import { diffAnalyses, RepoDiff } from '../services/analysisDiff';
+
+interface RunDiffProps {
+  before: AnalysisRecord;
+  after: AnalysisRecord;
+  onBack: () => void;
+}
+
+const CHANGE_STYLES: Record<RepoDiff['change'], string> = {
+  added: 'text-emerald-400 bg-emerald-400/10',
+  removed: 'text-red-400 bg-red-400/10',
+  changed: 'text-yellow-400 bg-yellow-400/10',
+  unchanged: 'text-slate-400 bg-slate-400/10',
+};
+
+const Delta: React.FC<{ before?: number; after?: number }> = ({ before, after }) => {
+  if (before === undefined || after === undefined) {
+    return <span className="text-slate-500 font-mono">{before ?? '—'} → {after ?? '—'}</span>;
+  }
+  const delta = after - before;
+  if (delta === 0) return <span className="text-slate-500 font-mono">{after}</span>;
+  return (
+    <span className={`font-mono flex items-center gap-1 ${delta > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+      {before} → {after}
+      {delta > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+    </span>
+  );
+};
+
+const RunDiff: React.FC<RunDiffProps> = ({ before, after, onBack }) => {
+  const diffs = useMemo(() => diffAnalyses(before.result, after.result), [before, after]);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-200">
+      <header className="sticky top-0 z-30 bg-slate-900/80 backdrop-blur-md border-b border-slate-800 px-6 py-4 flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <GitCompare className="text-indigo-400" />
+          <h1 className="text-xl font-bold tracking-tight text-white">
+            {new Date(before.createdAt).toLocaleDateString()} → {new Date(after.createdAt).toLocaleDateString()}
+          </h1>
+        </div>
+        <button onClick={onBack} className="text-sm text-slate-400 hover:text-white transition-colors flex items-center gap-1">
+          <ArrowLeft size={16} /> History
+        </button>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {diffs.map(diff => (
+          <section key={diff.name} className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-white flex items-center gap-3">
+                {diff.name}
+                <span className={`px-2 py-0.5 rounded text-xs uppercase ${CHANGE_STYLES[diff.change]}`}>{diff.change}</span>
+              </h2>
+              <div className="flex items-center gap-4 text-sm text-slate-400">
+                {diff.status.before !== diff.status.after ? (
+                  <span>Status: {diff.status.before || '—'} → <span className="text-white">{diff.status.after || '—'}</span></span>
+                ) : (
+                  <span>Status: {diff.status.after}</span>
+                )}
+                {diff.averageBefore !== undefined && diff.averageAfter !== undefined && (
+                  <span className="flex items-center gap-1">
+                    Score: <Delta before={Number(diff.averageBefore.toFixed(1))} after={Number(diff.averageAfter.toFixed(1))} />
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {diff.scores.length > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-2 mb-3">
+                {diff.scores.map(score => (
+                  <div key={score.dimension} className="bg-slate-900 border border-slate-700 rounded p-2 text-xs">
+                    <div className="text-slate-500 mb-1">{score.label}</div>
+                    <Delta before={score.before} after={score.after} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(diff.actionsAdded.length > 0 || diff.actionsResolved.length > 0) && (
+              <ul className="text-xs space-y-1">
+                {diff.actionsResolved.map((action, i) => (
+                  <li key={`resolved-${i}`} className="flex items-center gap-2 text-emerald-300">
+                    <Minus size={12} /> <span className="line-through">{action.title}</span>
+                  </li>
+                ))}
+                {diff.actionsAdded.map((action, i) => (
+                  <li key={`added-${i}`} className="flex items-center gap-2 text-orange-300">
+                    <Plus size={12} /> {action.title} <span className="text-slate-500">({action.priority})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {diff.actionsCarried.length > 0 && (
+              <p className="text-xs text-slate-500 mt-2">{diff.actionsCarried.length} action(s) still open from the earlier run.</p>
+            )}
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default RunDiff;
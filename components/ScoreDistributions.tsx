@@ -0,0 +1,66 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import { RepoAnalysis, Rubric } from '../types';
+import { isSystemicWeakness, portfolioDistributions, SCORE_BINS, WEAK_MEAN } from '../services/portfolioStats';
+import { heatColor } from './PortfolioHeatmap';
+
+interface ScoreDistributionsProps {
+  repos: RepoAnalysis[];
+  rubric: Rubric;
+  // Clicking a chart sorts the repositories by that dimension.
+  onSelect: (dimension: string) => void;
+}
+
+const ScoreDistributions: React.FC<ScoreDistributionsProps> = ({ repos, rubric, onSelect }) => {
+  const distributions = portfolioDistributions(repos, rubric);
+  const weak = distributions.filter(isSystemicWeakness);
+
+  return (
+    <div className="space-y-4">
+      {weak.length > 0 && (
+        <p className="text-sm text-rose-300 flex items-center gap-2">
+          <AlertTriangle size={14} />
+          Low across the portfolio: {weak.map(d => `${d.label} (avg ${d.mean.toFixed(1)})`).join(', ')}
+        </p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {distributions.map(distribution => (
+          <button
+            key={distribution.dimension}
+            onClick={() => onSelect(distribution.dimension)}
+            className={`text-left bg-slate-900/50 rounded-lg border p-3 hover:border-slate-500 transition-colors ${
+              isSystemicWeakness(distribution) ? 'border-rose-500/50' : 'border-slate-700'
+            }`}
+          >
+            <div className="flex items-baseline justify-between text-xs">
+              <span className="font-medium text-slate-300">{distribution.label}</span>
+              <span className="font-mono text-slate-500">avg {distribution.mean.toFixed(1)}</span>
+            </div>
+            <div className="h-24">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={SCORE_BINS.map((bin, i) => ({ bin, count: distribution.bins[i] }))} margin={{ top: 8, right: 0, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="bin" tick={{ fill: '#64748b', fontSize: 9 }} interval={0} tickLine={false} axisLine={false} />
+                  <YAxis hide allowDecimals={false} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff', fontSize: 12 }}
+                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                    formatter={(value: number) => [`${value} repos`, 'Count']}
+                  />
+                  <Bar dataKey="count" radius={[3, 3, 0, 0]}>
+                    {SCORE_BINS.map((bin, i) => <Cell key={bin} fill={heatColor(i + 0.5)} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-[11px] text-slate-500">
+              {Math.round(distribution.lowShare * 100)}% of {distribution.count} below {WEAK_MEAN}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreDistributions;
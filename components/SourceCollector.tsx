@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Archive, X, Loader2 } from 'lucide-react';
+import { collectRepoFacts, CollectedSource } from '../services/factCollector';
+import { RepoSource, sourceFromArchive, sourceFromDirectoryHandle, sourceFromFileList } from '../services/repoSource';
+
+interface SourceCollectorProps {
+  sources: CollectedSource[];
+  onChange: (sources: CollectedSource[]) => void;
+}
+
+const SourceCollector: React.FC<SourceCollectorProps> = ({ sources, onChange }) => {
+  const [collecting, setCollecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+  const archiveInput = useRef<HTMLInputElement>(null);
+
+  const addSources = async (load: () => Promise<RepoSource[]>) => {
+    setCollecting(true);
+    setError(null);
+    try {
+      const loaded = await load();
+      const collected = await Promise.all(loaded.map(async source => ({ source, facts: await collectRepoFacts(source) })));
+      const names = new Set(collected.map(c => c.source.name));
+      onChange([...sources.filter(s => !names.has(s.source.name)), ...collected]);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') setError(err.message || "Failed to read local source.");
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  const handleAddFolder = () => {
+    // Prefer the File System Access API so the handle can be reused later; fall back to a directory input.
+    const picker = (window as any).showDirectoryPicker;
+    if (picker) {
+      addSources(async () => [await sourceFromDirectoryHandle(await picker({ mode: 'read' }))]);
+    } else {
+      folderInput.current?.click();
+    }
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) addSources(async () => [sourceFromFileList(files)]);
+    e.target.value = '';
+  };
+
+  const handleArchiveInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    if (files.length > 0) addSources(() => Promise.all(files.map(sourceFromArchive)));
+    e.target.value = '';
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-slate-300">Local Sources (Optional)</span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleAddFolder}
+            disabled={collecting}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <FolderOpen size={14} /> Add Clone
+          </button>
+          <button
+            type="button"
+            onClick={() => archiveInput.current?.click()}
+            disabled={collecting}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Archive size={14} /> Add Archive
+          </button>
+        </div>
+        <input ref={folderInput} type="file" className="hidden" webkitdirectory="" multiple onChange={handleFolderInput} />
+        <input ref={archiveInput} type="file" className="hidden" accept=".zip,.tar,.tar.gz,.tgz" multiple onChange={handleArchiveInput} />
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">
+        Facts read from a local clone or archive (README, LICENSE, CI, tests, lockfiles, languages, commit recency) ground the audit in evidence.
+      </p>
+
+      {collecting && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Loader2 size={14} className="animate-spin" /> Collecting repository facts...
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-300">{error}</div>}
+
+      {sources.length > 0 && (
+        <ul className="space-y-2">
+          {sources.map(({ source, facts }) => (
+            <li key={source.name} className="flex items-center justify-between bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs">
+              <div className="min-w-0">
+                <span className="font-mono text-emerald-400">{source.name}</span>
+                <span className="text-slate-500 ml-2">
+                  {facts.fileCount} files · {facts.ciWorkflows.length} CI · {facts.testDirectories.length} test dirs
+                  {facts.lastCommitAt && ` · last commit ${facts.lastCommitAt.slice(0, 10)}`}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(sources.filter(s => s.source.name !== source.name))}
+                className="text-slate-500 hover:text-white"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SourceCollector;
@@ -0,0 +1,94 @@
+// Local stand-in for the GitHub issues API, for trying the issue exporter without touching
+// real repositories. Issues live in memory until the server stops.
+//
+//   npm run mock:github            # http://localhost:4010
+//   PORT=5000 npm run mock:github
+//
+// Set the exporter's API URL to the printed address; any token is accepted unless
+// MOCK_GITHUB_TOKEN is set. `GET /_issues` dumps everything created so far.
+import http from 'node:http';
+
+const port = Number(process.env.PORT) || 4010;
+const requiredToken = process.env.MOCK_GITHUB_TOKEN;
+const issuesByRepo = new Map();
+let nextNumber = 1;
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Link',
+    ...headers,
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname === '/_issues') return send(res, 200, Object.fromEntries(issuesByRepo));
+
+  const token = (req.headers.authorization || '').replace(/^Bearer\s*/i, '');
+  if (!token || (requiredToken && token !== requiredToken)) {
+    return send(res, 401, { message: 'Bad credentials' });
+  }
+
+  const match = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/issues$/);
+  if (!match) return send(res, 404, { message: 'Not Found' });
+  const slug = `${match[1]}/${match[2]}`;
+  const issues = issuesByRepo.get(slug) || [];
+
+  if (req.method === 'GET') {
+    // Newest first and paginated like the real API, with a `Link: rel="next"` header while more remain.
+    const state = url.searchParams.get('state') || 'open';
+    const perPage = Math.min(Number(url.searchParams.get('per_page')) || 30, 100);
+    const page = Math.max(Number(url.searchParams.get('page')) || 1, 1);
+    const matching = [...issues].reverse().filter(issue => state === 'all' || issue.state === state);
+    const headers = {};
+    if (page * perPage < matching.length) {
+      const next = new URL(url);
+      next.searchParams.set('page', String(page + 1));
+      headers.Link = `<${next}>; rel="next"`;
+    }
+    return send(res, 200, matching.slice((page - 1) * perPage, page * perPage), headers);
+  }
+  if (req.method === 'POST') {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { message: 'Problems parsing JSON' });
+    }
+    if (!body.title) return send(res, 422, { message: 'Validation Failed', errors: [{ field: 'title', code: 'missing_field' }] });
+    const number = nextNumber++;
+    const issue = {
+      number,
+      title: body.title,
+      body: body.body || '',
+      labels: (body.labels || []).map(name => ({ name })),
+      state: 'open',
+      html_url: `http://localhost:${port}/${slug}/issues/${number}`,
+    };
+    issuesByRepo.set(slug, [...issues, issue]);
+    return send(res, 201, issue);
+  }
+  send(res, 405, { message: 'Method Not Allowed' });
+});
+
+server.listen(port, () => console.log(`Mock GitHub API on http://localhost:${port}`));
@@ -0,0 +1,175 @@
+import { ActionItem, ActionStatus, TrackedAction } from '../types';
+
+export const ACTION_STATUSES: ActionStatus[] = ['todo', 'inProgress', 'done', 'wontDo'];
+
+export const ACTION_STATUS_LABELS: Record<ActionStatus, string> = {
+  todo: 'To do',
+  inProgress: 'In progress',
+  done: 'Done',
+  wontDo: "Won't do",
+};
+
+const PRIORITY_ORDER: Record<ActionItem['priority'], number> = { High: 0, Medium: 1, Low: 2 };
+
+// --- MATCHING ---
+// Titles of the same action drift between runs ("Add CI workflow" vs "Add a CI workflow
+// for tests"), so items of one repo are paired by word overlap rather than exact text.
+export const MATCH_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'to', 'for', 'and', 'of', 'in', 'on', 'with', 'into', 'by', 'from', 'at', 'its', 'all']);
+
+const stem = (word: string) => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word;
+
+const titleWords = (title: string): Set<string> =>
+  new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(w => w && !STOP_WORDS.has(w)).map(stem));
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const wa = titleWords(a);
+  const wb = titleWords(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  wa.forEach(w => { if (wb.has(w)) shared++; });
+  return shared / (wa.size + wb.size - shared);
+};
+
+const sameRepo = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface TrackerSync {
+  actions: TrackedAction[];
+  // Matched items that already had progress: a status, an assignee, a due date or notes.
+  carried: number;
+  added: number;
+  // Tracked items of the analyzed repos that the new analysis no longer proposes.
+  stale: number;
+}
+
+const hasProgress = (t: TrackedAction) => t.status !== 'todo' || !!t.assignee || !!t.dueDate || !!t.notes;
+
+const newTrackedAction = (item: ActionItem, now: string): TrackedAction => ({
+  id: crypto.randomUUID(),
+  item,
+  status: 'todo',
+  assignee: '',
+  notes: '',
+  createdAt: now,
+  updatedAt: now,
+});
+
+// Merges an analysis' action plan into the tracker. Matched items keep their status, assignee,
+// due date and notes and take the new wording; items of other repos are left alone.
+export const syncTrackedActions = (
+  tracked: TrackedAction[],
+  actions: ActionItem[],
+  repoNames: string[],
+  now = new Date().toISOString()
+): TrackerSync => {
+  const inScope = (t: TrackedAction) => repoNames.some(name => sameRepo(name, t.item.repo)) || actions.some(a => sameRepo(a.repo, t.item.repo));
+
+  const pairs: { trackedIndex: number; actionIndex: number; score: number }[] = [];
+  tracked.forEach((t, trackedIndex) => {
+    if (!inScope(t)) return;
+    actions.forEach((action, actionIndex) => {
+      if (!sameRepo(action.repo, t.item.repo)) return;
+      const score = titleSimilarity(action.title, t.item.title);
+      if (score >= MATCH_THRESHOLD) pairs.push({ trackedIndex, actionIndex, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const actionFor = new Map<number, number>();
+  const usedActions = new Set<number>();
+  for (const { trackedIndex, actionIndex } of pairs) {
+    if (actionFor.has(trackedIndex) || usedActions.has(actionIndex)) continue;
+    actionFor.set(trackedIndex, actionIndex);
+    usedActions.add(actionIndex);
+  }
+
+  let stale = 0;
+  let carried = 0;
+  const next = tracked.map((t, i) => {
+    const match = actionFor.get(i);
+    if (match !== undefined) {
+      if (hasProgress(t)) carried++;
+      return { ...t, item: actions[match], stale: undefined };
+    }
+    if (!inScope(t)) return t;
+    stale++;
+    return t.stale ? t : { ...t, stale: true };
+  });
+  const added = actions.filter((_, i) => !usedActions.has(i)).map(item => newTrackedAction(item, now));
+
+  return { actions: [...next, ...added], carried, added: added.length, stale };
+};
+
+export type TrackedActionPatch = Partial<Pick<TrackedAction, 'status' | 'assignee' | 'dueDate' | 'notes' | 'dependsOn'>>;
+
+export const updateTrackedAction = (
+  tracked: TrackedAction[],
+  id: string,
+  patch: TrackedActionPatch,
+  now = new Date().toISOString()
+): TrackedAction[] => tracked.map(t => (t.id === id ? { ...t, ...patch, updatedAt: now } : t));
+
+// Board order within a column: priority, then the nearest due date, then title.
+export const compareTrackedActions = (a: TrackedAction, b: TrackedAction) =>
+  PRIORITY_ORDER[a.item.priority] - PRIORITY_ORDER[b.item.priority] ||
+  (a.dueDate || '9999').localeCompare(b.dueDate || '9999') ||
+  a.item.title.localeCompare(b.item.title);
+
+export const isOverdue = (action: TrackedAction, today = new Date().toISOString().slice(0, 10)) =>
+  !!action.dueDate && action.dueDate < today && (action.status === 'todo' || action.status === 'inProgress');
+
+// --- PERSISTENCE ---
+const STORAGE_KEY = 'portfolio-signal:action-tracker';
+
+const PRIORITIES: ActionItem['priority'][] = ['High', 'Medium', 'Low'];
+const EFFORTS: ActionItem['effort'][] = ['Small', 'Medium', 'Large'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Priority and effort index the sort and scheduling tables, so unknown values fall back to Medium.
+const normalizeItem = (raw: unknown): ActionItem | null => {
+  if (!isRecord(raw) || typeof raw.title !== 'string' || typeof raw.repo !== 'string') return null;
+  return {
+    title: raw.title,
+    repo: raw.repo,
+    priority: PRIORITIES.find(p => p === raw.priority) ?? 'Medium',
+    impact: text(raw.impact),
+    effort: EFFORTS.find(e => e === raw.effort) ?? 'Medium',
+    rationale: text(raw.rationale),
+  };
+};
+
+const normalizeTrackedAction = (raw: unknown): TrackedAction | null => {
+  const item = isRecord(raw) ? normalizeItem(raw.item) : null;
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !item) return null;
+  return {
+    id: raw.id,
+    item,
+    status: ACTION_STATUSES.find(status => status === raw.status) ?? 'todo',
+    assignee: text(raw.assignee),
+    dueDate: typeof raw.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.dueDate) ? raw.dueDate : undefined,
+    notes: text(raw.notes),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date(0).toISOString(),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date(0).toISOString(),
+    stale: raw.stale === true || undefined,
+    dependsOn: Array.isArray(raw.dependsOn) ? raw.dependsOn.filter((id): id is string => typeof id === 'string') : undefined,
+  };
+};
+
+export const loadTrackedActions = (): TrackedAction[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const actions: unknown[] = isRecord(stored) && Array.isArray(stored.actions) ? stored.actions : [];
+    return actions.map(normalizeTrackedAction).filter((t): t is TrackedAction => !!t);
+  } catch {
+    return [];
+  }
+};
+
+export const saveTrackedActions = (actions: TrackedAction[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ actions }));
+};
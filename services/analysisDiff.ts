@@ -0,0 +1,82 @@
+import { ActionItem, AnalysisResult, RepoAnalysis } from '../types';
+import { dimensionLabel, rubricOf, weightedScore } from './rubrics';
+
+export interface ScoreDelta {
+  dimension: string;
+  label: string;
+  // Undefined when the dimension is only in one run's rubric.
+  before?: number;
+  after?: number;
+}
+
+export interface RepoDiff {
+  name: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  status: { before?: RepoAnalysis['status']; after?: RepoAnalysis['status'] };
+  scores: ScoreDelta[];
+  averageBefore?: number;
+  averageAfter?: number;
+  actionsAdded: ActionItem[];
+  actionsResolved: ActionItem[];
+  actionsCarried: ActionItem[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const actionKey = (action: ActionItem) => `${normalize(action.repo)}::${normalize(action.title)}`;
+
+// Compares two runs repo by repo. Repos are matched by name, actions by repo + title,
+// and scores by dimension id across the two runs' rubrics.
+export const diffAnalyses = (before: AnalysisResult, after: AnalysisResult): RepoDiff[] => {
+  const beforeRubric = rubricOf(before);
+  const afterRubric = rubricOf(after);
+  const dimensions = Array.from(new Set([...afterRubric.dimensions, ...beforeRubric.dimensions].map(d => d.id)));
+
+  const beforeRepos = new Map(before.repos.map(r => [normalize(r.name), r]));
+  const afterRepos = new Map(after.repos.map(r => [normalize(r.name), r]));
+  const names = Array.from(new Set([...beforeRepos.keys(), ...afterRepos.keys()])).sort();
+
+  return names.map(key => {
+    const prev = beforeRepos.get(key);
+    const next = afterRepos.get(key);
+
+    const prevActions = before.actions.filter(a => normalize(a.repo) === key);
+    const nextActions = after.actions.filter(a => normalize(a.repo) === key);
+    const prevKeys = new Set(prevActions.map(actionKey));
+    const nextKeys = new Set(nextActions.map(actionKey));
+
+    const scores: ScoreDelta[] = prev && next
+      ? dimensions.map(dimension => ({
+        dimension,
+        label: dimensionLabel(afterRubric.dimensions.some(d => d.id === dimension) ? afterRubric : beforeRubric, dimension),
+        before: prev.audit.scores[dimension],
+        after: next.audit.scores[dimension],
+      }))
+      : [];
+
+    const actionsAdded = nextActions.filter(a => !prevKeys.has(actionKey(a)));
+    const actionsResolved = prevActions.filter(a => !nextKeys.has(actionKey(a)));
+
+    let change: RepoDiff['change'] = 'unchanged';
+    if (!prev) change = 'added';
+    else if (!next) change = 'removed';
+    else if (
+      prev.status !== next.status ||
+      scores.some(s => s.before !== s.after) ||
+      actionsAdded.length > 0 ||
+      actionsResolved.length > 0
+    ) change = 'changed';
+
+    return {
+      name: (next || prev)!.name,
+      change,
+      status: { before: prev?.status, after: next?.status },
+      scores,
+      averageBefore: prev ? weightedScore(prev.audit, beforeRubric, prev.repoType) : undefined,
+      averageAfter: next ? weightedScore(next.audit, afterRubric, next.repoType) : undefined,
+      actionsAdded,
+      actionsResolved,
+      actionsCarried: nextActions.filter(a => prevKeys.has(actionKey(a))),
+    };
+  });
+};
@@ -0,0 +1,101 @@
+import { AnalysisResult, InputState, Rubric } from '../types';
+import { AnalysisValidationError } from './errors';
+import { rootSchemaFor, rubricSchema } from './schemas';
+import { validateAgainstSchema } from './schemaValidator';
+import { rubricOf, upgradeLegacyResult } from './rubrics';
+import { upgradeLegacyClaims } from './claims';
+import { downloadBlob } from './download';
+
+export const ANALYSIS_FILE_FORMAT = 'portfoliosignal.analysis';
+export const ANALYSIS_FILE_VERSION = 3;
+
+export interface AnalysisFile {
+  format: typeof ANALYSIS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  input?: InputState;
+  result: AnalysisResult;
+}
+
+// A parsed file before migration and validation: only `version` has been checked.
+type RawAnalysisFile = Record<string, unknown> & { version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Enough of a result for a migration to rewrite `field`; validation checks the rest afterwards.
+const hasResultList = (value: unknown, field: keyof AnalysisResult): value is AnalysisResult =>
+  isRecord(value) && Array.isArray(value[field]);
+
+const upgradeResult = (field: keyof AnalysisResult, upgrade: (result: AnalysisResult) => AnalysisResult) =>
+  (file: RawAnalysisFile): RawAnalysisFile =>
+    hasResultList(file.result, field) ? { ...file, result: upgrade(file.result) } : file;
+
+// Upgrades a file from version N to N + 1. Add an entry whenever the
+// AnalysisResult shape changes and bump ANALYSIS_FILE_VERSION.
+const MIGRATIONS: Record<number, (file: RawAnalysisFile) => RawAnalysisFile> = {
+  // 2: scores moved from top-level audit fields into `audit.scores`, keyed by rubric dimension.
+  1: upgradeResult('repos', upgradeLegacyResult),
+  // 3: claims are objects with a severity, the contradicted context sentence and citations.
+  2: upgradeResult('claimsCheck', upgradeLegacyClaims),
+};
+
+export const serializeAnalysis = (result: AnalysisResult, input?: InputState): string => {
+  const file: AnalysisFile = {
+    format: ANALYSIS_FILE_FORMAT,
+    version: ANALYSIS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(input && { input }),
+    result,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseAnalysisFile = (text: string): { result: AnalysisResult; input?: InputState } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError: any) {
+    throw new AnalysisValidationError("File is not valid JSON.", [{ path: '(root)', message: parseError.message }]);
+  }
+
+  if (!isRecord(parsed) || parsed.format !== ANALYSIS_FILE_FORMAT) {
+    throw new AnalysisValidationError("File is not a PortfolioSignal analysis export.", [
+      { path: 'format', message: `Expected "${ANALYSIS_FILE_FORMAT}", got ${JSON.stringify(isRecord(parsed) ? parsed.format : undefined)}.` }
+    ]);
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new AnalysisValidationError("File has no valid schema version.", [
+      { path: 'version', message: `Expected a positive integer, got ${JSON.stringify(version)}.` }
+    ]);
+  }
+  if (version > ANALYSIS_FILE_VERSION) {
+    throw new AnalysisValidationError("File was exported by a newer version of PortfolioSignal.", [
+      { path: 'version', message: `Version ${version} is newer than the supported version ${ANALYSIS_FILE_VERSION}.` }
+    ]);
+  }
+
+  let file: RawAnalysisFile = { ...parsed, version };
+  for (let step = version; step < ANALYSIS_FILE_VERSION; step++) {
+    file = { ...MIGRATIONS[step](file), version: step + 1 };
+  }
+
+  // The rubric decides which scores every repo must have, so it is checked first.
+  const rubric = isRecord(file.result) ? file.result.rubric : undefined;
+  const rubricIssues = rubric === undefined ? [] : validateAgainstSchema(rubric, rubricSchema, 'result.rubric');
+  const issues = rubricIssues.length > 0
+    ? rubricIssues
+    : validateAgainstSchema(file.result, rootSchemaFor(rubricOf({ rubric: rubric as Rubric | undefined })), 'result');
+  if (issues.length > 0) {
+    throw new AnalysisValidationError(`File failed validation with ${issues.length} issue(s).`, issues);
+  }
+
+  return { result: file.result as AnalysisResult, input: file.input as InputState | undefined };
+};
+
+export const downloadAnalysisFile = (result: AnalysisResult, input?: InputState) =>
+  downloadBlob(
+    new Blob([serializeAnalysis(result, input)], { type: 'application/json' }),
+    `portfolio-analysis-${new Date().toISOString().slice(0, 10)}.json`
+  );
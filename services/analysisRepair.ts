@@ -0,0 +1,260 @@
+import { AnalysisResult, RepoAnalysis, Rubric } from '../types';
+import { ValidationIssue } from './errors';
+import { portfolioSchema, repoSchemaFor } from './schemas';
+import { validateAgainstSchema } from './schemaValidator';
+import { DEFAULT_RUBRIC, dimensionIds, REPO_TYPES } from './rubrics';
+import { CLAIM_SEVERITIES, contextSentences } from './claims';
+
+// `repairs` holds human-readable notes for every field that was changed. Output that
+// still has problems after repair is unusable, so only a clean outcome carries a result.
+export type RepairOutcome<T = AnalysisResult> =
+  | { status: 'valid'; result: T; repairs: string[] }
+  | { status: 'invalid'; repairs: string[]; issues: ValidationIssue[] };
+
+export type PortfolioSynthesis = Pick<AnalysisResult, 'summary' | 'actions' | 'claimsCheck'>;
+
+const REPO_STATUSES = ['Active', 'Dormant', 'Archived', 'Template', 'Fork', 'Unknown'];
+const PRIORITIES = ['High', 'Medium', 'Low'];
+const EFFORTS = ['Small', 'Medium', 'Large'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// --- FIELD HELPERS ---
+const ensureArray = (target: Record<string, any>, key: string, path: string, repairs: string[]) => {
+  if (target[key] === undefined || target[key] === null) {
+    target[key] = [];
+    repairs.push(`${path}: missing, defaulted to []`);
+  }
+};
+
+const ensureString = (target: Record<string, any>, key: string, path: string, repairs: string[]) => {
+  if (target[key] === undefined || target[key] === null) {
+    target[key] = '';
+    repairs.push(`${path}: missing, defaulted to ""`);
+  }
+};
+
+const ensureEnum = (target: Record<string, any>, key: string, allowed: string[], fallback: string, path: string, repairs: string[]) => {
+  if (allowed.includes(target[key])) return;
+  const match = typeof target[key] === 'string' && allowed.find(v => normalize(v) === normalize(target[key]));
+  repairs.push(`${path}: ${JSON.stringify(target[key])} replaced with "${match || fallback}"`);
+  target[key] = match || fallback;
+};
+
+// --- SECTION REPAIRS (mutate in place) ---
+const repairRepoType = (repo: Record<string, any>, path: string, repairs: string[]) => {
+  if (repo.repoType === undefined || REPO_TYPES.includes(repo.repoType)) return;
+  const match = typeof repo.repoType === 'string' && REPO_TYPES.find(t => t === normalize(repo.repoType));
+  if (match) {
+    repo.repoType = match;
+    return;
+  }
+  repairs.push(`${path}.repoType: ${JSON.stringify(repo.repoType)} dropped`);
+  delete repo.repoType;
+};
+
+const repairRepo = (repo: unknown, path: string, repairs: string[], dimensions: string[]) => {
+  if (!isObject(repo)) return;
+  ensureString(repo, 'description', `${path}.description`, repairs);
+  ensureString(repo, 'primaryLanguage', `${path}.primaryLanguage`, repairs);
+  ensureArray(repo, 'frameworks', `${path}.frameworks`, repairs);
+  ensureEnum(repo, 'status', REPO_STATUSES, 'Unknown', `${path}.status`, repairs);
+  repairRepoType(repo, path, repairs);
+
+  if (!isObject(repo.audit)) return;
+  const audit = repo.audit;
+  ensureString(audit, 'rationale', `${path}.audit.rationale`, repairs);
+  ensureArray(audit, 'topFixes', `${path}.audit.topFixes`, repairs);
+
+  // Models sometimes put the scores next to the rationale instead of under "scores".
+  if (!isObject(audit.scores)) {
+    audit.scores = {};
+    const flat = dimensions.filter(d => audit[d] !== undefined);
+    flat.forEach(d => {
+      audit.scores[d] = audit[d];
+      delete audit[d];
+    });
+    if (flat.length > 0) repairs.push(`${path}.audit.scores: collected from ${flat.length} top-level score field(s)`);
+  }
+  const scores = audit.scores;
+
+  const present = dimensions.map(d => toNumber(scores[d])).filter((n): n is number => n !== undefined);
+  const fallback = present.length > 0
+    ? Math.round((present.reduce((a, b) => a + b, 0) / present.length) * 2) / 2
+    : 0;
+
+  for (const dimension of dimensions) {
+    const scorePath = `${path}.audit.scores.${dimension}`;
+    const value = toNumber(scores[dimension]);
+    if (value === undefined) {
+      repairs.push(`${scorePath}: missing, filled with ${fallback} (mean of the other dimensions)`);
+      scores[dimension] = fallback;
+    } else if (value < 0 || value > 5) {
+      const clamped = Math.min(5, Math.max(0, value));
+      repairs.push(`${scorePath}: ${value} clamped to ${clamped}`);
+      scores[dimension] = clamped;
+    } else if (scores[dimension] !== value) {
+      scores[dimension] = value;
+    }
+  }
+};
+
+// Lower-cased repo names and URL slugs mapped to the repo name.
+const repoNameIndex = (repos: unknown[]) => {
+  const repoNames = new Map<string, string>();
+  for (const repo of repos) {
+    if (!isObject(repo) || typeof repo.name !== 'string') continue;
+    repoNames.set(normalize(repo.name), repo.name);
+    if (typeof repo.url === 'string') {
+      const slug = repo.url.split('/').filter(Boolean).pop();
+      if (slug) repoNames.set(normalize(slug), repo.name);
+    }
+  }
+  return repoNames;
+};
+
+const repairActions = (data: Record<string, any>, repos: unknown[], repairs: string[]) => {
+  ensureArray(data, 'actions', 'actions', repairs);
+  if (!Array.isArray(data.actions)) return;
+
+  const repoNames = repoNameIndex(repos);
+
+  data.actions = data.actions.filter((action: any, i: number) => {
+    if (!isObject(action)) return true;
+    const path = `actions[${i}]`;
+    ensureEnum(action, 'priority', PRIORITIES, 'Medium', `${path}.priority`, repairs);
+    ensureEnum(action, 'effort', EFFORTS, 'Medium', `${path}.effort`, repairs);
+    ensureString(action, 'impact', `${path}.impact`, repairs);
+    ensureString(action, 'rationale', `${path}.rationale`, repairs);
+
+    const name = typeof action.repo === 'string' ? repoNames.get(normalize(action.repo.split('/').pop() || '')) : undefined;
+    if (!name) {
+      repairs.push(`${path}: dropped "${action.title}" because repo ${JSON.stringify(action.repo)} is not in the analysis`);
+      return false;
+    }
+    if (name !== action.repo) {
+      repairs.push(`${path}.repo: "${action.repo}" normalized to "${name}"`);
+      action.repo = name;
+    }
+    return true;
+  });
+};
+
+// Plain-sentence claims become Medium; the contradicted sentence number is resolved
+// against the context the prompt numbered.
+const repairClaims = (data: Record<string, any>, repos: unknown[], context: string, repairs: string[]) => {
+  ensureArray(data, 'claimsCheck', 'claimsCheck', repairs);
+  if (!Array.isArray(data.claimsCheck)) return;
+
+  const repoNames = repoNameIndex(repos);
+  const sentences = contextSentences(context);
+  data.claimsCheck = data.claimsCheck.map((claim: any, i: number) => {
+    const path = `claimsCheck[${i}]`;
+    if (typeof claim === 'string') {
+      repairs.push(`${path}: plain text, wrapped as a Medium claim`);
+      return { statement: claim, severity: 'Medium' };
+    }
+    if (!isObject(claim)) return claim;
+    ensureEnum(claim, 'severity', CLAIM_SEVERITIES, 'Medium', `${path}.severity`, repairs);
+
+    if (claim.repo !== undefined) {
+      const name = typeof claim.repo === 'string' ? repoNames.get(normalize(claim.repo.split('/').pop() || '')) : undefined;
+      if (!name) repairs.push(`${path}.repo: ${JSON.stringify(claim.repo)} is not in the analysis, dropped`);
+      if (name) claim.repo = name;
+      else delete claim.repo;
+    }
+
+    const number = toNumber(claim.contradicts);
+    delete claim.contradicts;
+    if (number === undefined) return claim;
+    const index = Math.round(number) - 1;
+    if (sentences[index] === undefined) {
+      repairs.push(`${path}.contradicts: no context sentence ${number}, link dropped`);
+      return claim;
+    }
+    return { ...claim, contextSentence: sentences[index], contextIndex: index };
+  });
+};
+
+const repairSummary = (data: Record<string, any>, repos: unknown[], repairs: string[]) => {
+  if (!isObject(data.summary)) return;
+
+  const summary = data.summary;
+  ensureString(summary, 'executiveSummary', 'summary.executiveSummary', repairs);
+  ensureArray(summary, 'capabilities', 'summary.capabilities', repairs);
+  ensureArray(summary, 'spotlightProjects', 'summary.spotlightProjects', repairs);
+  if (!isObject(summary.stats)) summary.stats = {};
+
+  // Stats are derived from `repos` rather than trusted from the model.
+  const valid = repos.filter(isObject);
+  const derived = {
+    totalRepos: valid.length,
+    activeCount: valid.filter(r => r.status === 'Active').length,
+    archivedCount: valid.filter(r => r.status === 'Archived').length,
+  };
+  for (const [key, value] of Object.entries(derived)) {
+    if (summary.stats[key] !== value) {
+      if (summary.stats[key] !== undefined) repairs.push(`summary.stats.${key}: ${summary.stats[key]} recomputed as ${value}`);
+      summary.stats[key] = value;
+    }
+  }
+  if (!isObject(summary.stats.languages) || Object.keys(summary.stats.languages).length === 0) {
+    summary.stats.languages = countLanguages(valid as RepoAnalysis[]);
+    repairs.push('summary.stats.languages: derived from repo primary languages');
+  }
+};
+
+export const countLanguages = (repos: Pick<RepoAnalysis, 'primaryLanguage'>[]): Record<string, number> => {
+  const languages: Record<string, number> = {};
+  for (const repo of repos) {
+    if (typeof repo.primaryLanguage === 'string' && repo.primaryLanguage) {
+      languages[repo.primaryLanguage] = (languages[repo.primaryLanguage] || 0) + 1;
+    }
+  }
+  return languages;
+};
+
+export const unrepairable = (message: string): RepairOutcome<never> => ({
+  status: 'invalid',
+  repairs: [],
+  issues: [{ path: '(root)', message }],
+});
+
+const outcome = <T>(result: T, repairs: string[], issues: ValidationIssue[]): RepairOutcome<T> =>
+  issues.length > 0 ? { status: 'invalid', repairs, issues } : { status: 'valid', result, repairs };
+
+// --- SERVICES ---
+// Each repair works on a deep copy and fixes the recoverable problems models
+// commonly produce; anything that cannot be repaired is reported through `issues`.
+
+export const repairRepoAnalysis = (raw: unknown, rubric: Rubric = DEFAULT_RUBRIC): RepairOutcome<RepoAnalysis> => {
+  if (!isObject(raw)) return unrepairable('Expected a JSON object.');
+
+  const data: Record<string, any> = structuredClone(raw);
+  const repairs: string[] = [];
+  repairRepo(data, 'repo', repairs, dimensionIds(rubric));
+
+  return outcome(data as RepoAnalysis, repairs, validateAgainstSchema(data, repoSchemaFor(rubric), 'repo'));
+};
+
+// Repairs the final summary/actions phase against the repos analyzed in the per-repo phase
+// and the context the claims were checked against.
+export const repairPortfolioSynthesis = (raw: unknown, repos: RepoAnalysis[], context = ''): RepairOutcome<PortfolioSynthesis> => {
+  if (!isObject(raw)) return unrepairable('Expected a JSON object.');
+
+  const data: Record<string, any> = structuredClone(raw);
+  const repairs: string[] = [];
+  repairActions(data, repos, repairs);
+  repairClaims(data, repos, context, repairs);
+  repairSummary(data, repos, repairs);
+
+  return outcome(data as PortfolioSynthesis, repairs, validateAgainstSchema(data, portfolioSchema));
+};
@@ -0,0 +1,222 @@
+import { AnalysisResult, PortfolioSummary, RepoAnalysis, RepoFacts, RepoFilters, Rubric } from '../types';
+import { GeminiError } from './errors';
+import { analyzeRepository, summarizePortfolio } from './geminiService';
+import { findFactsForRepo } from './factCollector';
+import { countLanguages, PortfolioSynthesis } from './analysisRepair';
+import { isAbortError, toGeminiError } from './requestPolicy';
+import { createDefaultListingSource, expandRepositoryInput, RepoListingSource } from './repoListing';
+import { DEFAULT_RUBRIC } from './rubrics';
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface RepoJob {
+  url: string;
+  status: JobStatus;
+  error?: string;
+}
+
+export interface AnalysisRunState {
+  jobs: RepoJob[];
+  summaryStatus: JobStatus;
+  summaryError?: string;
+  // Repos appear as their jobs finish; summary, actions and claims are
+  // placeholders until the summary phase completes.
+  result: AnalysisResult;
+}
+
+export interface AnalysisRunConfig {
+  urls: string[];
+  context: string;
+  facts?: Record<string, RepoFacts>;
+  concurrency?: number;
+  // Every repo in the run, including retries, is scored with this rubric.
+  rubric?: Rubric;
+  onChange?: (state: AnalysisRunState) => void;
+}
+
+export interface AnalysisRun {
+  start: () => Promise<AnalysisRunState>;
+  retryRepo: (url: string) => Promise<AnalysisRunState>;
+  retrySummary: () => Promise<AnalysisRunState>;
+  cancel: () => void;
+  getState: () => AnalysisRunState;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+
+// --- UTILITIES ---
+const repoSlug = (url: string) => url.replace(/\/+$/, '').split('/').pop() || url;
+
+const mapWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  const queue = [...items];
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) await worker(queue.shift()!);
+  });
+  await Promise.all(runners);
+};
+
+const placeholderSummary = (repos: RepoAnalysis[]): PortfolioSummary => ({
+  executiveSummary: '',
+  stats: {
+    totalRepos: repos.length,
+    activeCount: repos.filter(r => r.status === 'Active').length,
+    archivedCount: repos.filter(r => r.status === 'Archived').length,
+    languages: countLanguages(repos),
+  },
+  capabilities: [],
+  spotlightProjects: [],
+});
+
+// --- SERVICES ---
+export const createAnalysisRun = (config: AnalysisRunConfig): AnalysisRun => {
+  const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+  const rubric = config.rubric || DEFAULT_RUBRIC;
+  const jobs = new Map<string, RepoJob>(config.urls.map(url => [url, { url, status: 'pending' }]));
+  const repos = new Map<string, RepoAnalysis>();
+  const repairs = new Map<string, string[]>();
+  const templates = new Map<string, string[]>();
+  let synthesis: PortfolioSynthesis | null = null;
+  let summaryRepairs: string[] = [];
+  let summaryTemplates: string[] = [];
+  let summaryStatus: JobStatus = 'pending';
+  let summaryError: string | undefined;
+  let controller = new AbortController();
+
+  const getState = (): AnalysisRunState => {
+    const done = config.urls.map(url => repos.get(url)).filter((r): r is RepoAnalysis => !!r);
+    return {
+      jobs: config.urls.map(url => ({ ...jobs.get(url)! })),
+      summaryStatus,
+      summaryError,
+      result: {
+        summary: synthesis?.summary ?? placeholderSummary(done),
+        repos: done,
+        actions: synthesis?.actions ?? [],
+        claimsCheck: synthesis?.claimsCheck ?? [],
+        repairs: [
+          ...config.urls.flatMap(url => (repairs.get(url) || []).map(r => `${repoSlug(url)}: ${r}`)),
+          ...summaryRepairs,
+        ],
+        templates: Array.from(new Set([
+          ...config.urls.flatMap(url => templates.get(url) || []),
+          ...summaryTemplates,
+        ])),
+        rubric,
+      },
+    };
+  };
+
+  const emit = () => config.onChange?.(getState());
+
+  const freshSignal = () => {
+    if (controller.signal.aborted) controller = new AbortController();
+    return controller.signal;
+  };
+
+  const runJob = async (url: string, signal: AbortSignal) => {
+    const job = jobs.get(url)!;
+    job.status = 'running';
+    job.error = undefined;
+    emit();
+
+    try {
+      const facts = findFactsForRepo({ name: repoSlug(url), url }, config.facts || {});
+      const { result, repairs: notes, templates: versions } = await analyzeRepository(url, config.context, facts, { signal }, rubric);
+      repos.set(url, result);
+      repairs.set(url, notes);
+      templates.set(url, versions);
+      job.status = 'done';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = isAbortError(error) ? 'Cancelled.' : toGeminiError(error).message;
+    }
+    emit();
+  };
+
+  const runSummary = async (signal: AbortSignal) => {
+    if (signal.aborted) return;
+    const done = config.urls.map(url => repos.get(url)).filter((r): r is RepoAnalysis => !!r);
+    synthesis = null;
+    summaryRepairs = [];
+    summaryTemplates = [];
+
+    if (done.length === 0) {
+      summaryStatus = 'failed';
+      summaryError = "No repositories could be analyzed.";
+      emit();
+      return;
+    }
+
+    summaryStatus = 'running';
+    summaryError = undefined;
+    emit();
+
+    try {
+      const { result, repairs: notes, templates: versions } = await summarizePortfolio(done, config.context, { signal }, rubric);
+      synthesis = result;
+      summaryRepairs = notes;
+      summaryTemplates = versions;
+      summaryStatus = 'done';
+    } catch (error) {
+      summaryStatus = 'failed';
+      summaryError = isAbortError(error) ? 'Cancelled.' : toGeminiError(error).message;
+    }
+    emit();
+  };
+
+  return {
+    getState,
+
+    start: async () => {
+      const signal = freshSignal();
+      await mapWithConcurrency(
+        config.urls.filter(url => jobs.get(url)!.status === 'pending'),
+        concurrency,
+        url => runJob(url, signal)
+      );
+      await runSummary(signal);
+      return getState();
+    },
+
+    // Re-audits one repo, then regenerates the summary so it reflects the new result.
+    retryRepo: async (url: string) => {
+      if (!jobs.has(url)) throw new GeminiError(`Unknown repository: ${url}`);
+      const signal = freshSignal();
+      await runJob(url, signal);
+      await runSummary(signal);
+      return getState();
+    },
+
+    retrySummary: async () => {
+      await runSummary(freshSignal());
+      return getState();
+    },
+
+    cancel: () => controller.abort(),
+  };
+};
+
+// Expands the input into repositories, runs a complete progressive analysis and
+// resolves with the final result. Throws if any repository or the summary phase fails.
+export const analyzePortfolio = async (
+  urls: string,
+  context: string,
+  facts: Record<string, RepoFacts> = {},
+  options: { signal?: AbortSignal; concurrency?: number; source?: RepoListingSource; filters?: RepoFilters; rubric?: Rubric } = {}
+): Promise<AnalysisResult> => {
+  const expanded = await expandRepositoryInput(urls, options.source || createDefaultListingSource(), options.filters, options.signal);
+  const list = expanded.urls;
+  if (list.length === 0) {
+    const failed = expanded.expansions.find(e => e.error);
+    throw new GeminiError(failed ? `${failed.owner}: ${failed.error}` : "URLs cannot be empty.");
+  }
+
+  const run = createAnalysisRun({ urls: list, context, facts, concurrency: options.concurrency, rubric: options.rubric });
+  options.signal?.addEventListener('abort', run.cancel, { once: true });
+  const state = await run.start();
+
+  const failed = state.jobs.find(job => job.status === 'failed');
+  if (failed) throw new GeminiError(`Failed to analyze ${failed.url}: ${failed.error}`);
+  if (state.summaryStatus !== 'done') throw new GeminiError(state.summaryError || "Portfolio summary failed.");
+  return state.result;
+};
@@ -0,0 +1,146 @@
+import { GeminiError } from './errors';
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  lastModified: number;
+  read: () => Promise<Uint8Array>;
+}
+
+// --- UTILITIES ---
+const decompress = async (bytes: Uint8Array, format: 'deflate-raw' | 'gzip'): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decoder = new TextDecoder();
+
+const dosDateTimeToMs = (time: number, date: number): number =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+// --- ZIP ---
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+
+export const readZip = (buffer: ArrayBuffer): ArchiveEntry[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new GeminiError("Archive is not a valid ZIP file.");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new GeminiError("ZIP64 archives are not supported.");
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new GeminiError("Corrupt ZIP central directory.");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      size,
+      lastModified: dosDateTimeToMs(time, date),
+      read: async () => {
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) return raw;
+        if (method === 8) return decompress(raw, 'deflate-raw');
+        throw new GeminiError(`Unsupported ZIP compression method ${method} for ${path}.`);
+      }
+    });
+  }
+  return entries;
+};
+
+// --- TAR / TAR.GZ ---
+const readTarString = (bytes: Uint8Array, start: number, length: number): string => {
+  const slice = bytes.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return decoder.decode(end >= 0 ? slice.subarray(0, end) : slice);
+};
+
+const readTarOctal = (bytes: Uint8Array, start: number, length: number): number =>
+  parseInt(readTarString(bytes, start, length).trim() || '0', 8);
+
+const parsePaxPath = (record: string): string | undefined =>
+  record.split('\n').map(line => line.match(/^\d+ path=(.*)$/)).find(Boolean)?.[1];
+
+export const readTar = (bytes: Uint8Array): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= bytes.length) {
+    const name = readTarString(bytes, offset, 100);
+    if (!name) break; // two zero blocks terminate the archive
+
+    const size = readTarOctal(bytes, offset + 124, 12);
+    const mtime = readTarOctal(bytes, offset + 136, 12) * 1000;
+    const type = String.fromCharCode(bytes[offset + 156] || 48);
+    const prefix = readTarString(bytes, offset + 345, 155);
+    const dataStart = offset + 512;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = decoder.decode(data).replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      longName = parsePaxPath(decoder.decode(data));
+      continue;
+    }
+    if (type !== '0' && type !== '7') {
+      longName = undefined;
+      continue;
+    }
+
+    const path = longName || (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+    entries.push({ path, size, lastModified: mtime, read: async () => data });
+  }
+  return entries;
+};
+
+export const readArchive = async (file: File): Promise<ArchiveEntry[]> => {
+  const buffer = await file.arrayBuffer();
+  const lower = file.name.toLowerCase();
+
+  if (lower.endsWith('.zip')) return readZip(buffer);
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+    return readTar(await decompress(new Uint8Array(buffer), 'gzip'));
+  }
+  if (lower.endsWith('.tar')) return readTar(new Uint8Array(buffer));
+
+  throw new GeminiError(`Unsupported archive format: ${file.name}. Use .zip, .tar or .tar.gz.`);
+};
@@ -0,0 +1,161 @@
+import { GeneratedFile, RepoAnalysis } from '../types';
+import { LLMTask } from './llmProvider';
+import { formatUnifiedDiff } from './unifiedDiff';
+import { safeRelativePath } from './generatedFiles';
+import { GeminiError } from './errors';
+import { LocalCheckout, readCheckoutFile, writeCheckoutFile } from './localCheckout';
+import { ZipInput } from './zipWriter';
+import { downloadBlob } from './download';
+import { ciTargetPaths } from './ciTargets';
+import { docsConfigPaths } from './orgProfile';
+
+// Generators whose output is a file that belongs in the repository.
+export type ArtifactTask = Extract<
+  LLMTask,
+  'readme' | 'cicd' | 'license' | 'securityPolicy' | 'codeOfConduct' | 'commitConfig' | 'issueTemplates' | 'directoryStructure'
+>;
+
+export interface ArtifactFile {
+  path: string;
+  content: string;
+}
+
+export interface GeneratedArtifact {
+  repo: string;
+  repoUrl: string;
+  task: ArtifactTask;
+  files: GeneratedFile[];
+}
+
+export type ChangeKind = 'create' | 'modify' | 'unchanged';
+
+export interface FileChange {
+  path: string;
+  // null when the file does not exist in the checkout (or no checkout was chosen).
+  before: string | null;
+  after: string;
+  kind: ChangeKind;
+  diff: string;
+}
+
+// Existing files a generator should see before writing its output.
+const CONTEXT_PATHS: Record<ArtifactTask, string[]> = {
+  readme: ['README.md'],
+  cicd: [...ciTargetPaths(), '.github/workflows/ci.yaml', ...docsConfigPaths()],
+  license: ['LICENSE'],
+  securityPolicy: ['SECURITY.md'],
+  codeOfConduct: ['CODE_OF_CONDUCT.md'],
+  commitConfig: ['commitlint.config.js', '.commitlintrc.json', '.pre-commit-config.yaml'],
+  issueTemplates: ['.github/ISSUE_TEMPLATE/bug_report.md', '.github/ISSUE_TEMPLATE/feature_request.md'],
+  directoryStructure: ['docs/DIRECTORY_STRUCTURE.md'],
+};
+
+export const isArtifactTask = (task: string): task is ArtifactTask => task in CONTEXT_PATHS;
+
+export const contextPathsFor = (task: LLMTask): string[] => (isArtifactTask(task) ? CONTEXT_PATHS[task] : []);
+
+export const createArtifact = (repo: RepoAnalysis, task: ArtifactTask, files: GeneratedFile[]): GeneratedArtifact => ({
+  repo: repo.name,
+  repoUrl: repo.url,
+  task,
+  files,
+});
+
+// Compares each file with the checkout. Later artifacts win when two target the same path.
+export const planChanges = async (artifacts: GeneratedArtifact[], checkout?: LocalCheckout | null): Promise<FileChange[]> => {
+  const files = new Map<string, string>();
+  artifacts.forEach(artifact => artifact.files.forEach(file => files.set(file.path, file.content)));
+
+  return Promise.all(Array.from(files, async ([path, after]) => {
+    const before = checkout ? await readCheckoutFile(checkout, path) : null;
+    const kind: ChangeKind = before === null ? 'create' : before === after ? 'unchanged' : 'modify';
+    return { path, before, after, kind, diff: kind === 'unchanged' ? '' : formatUnifiedDiff(path, before, after) };
+  }));
+};
+
+export const writeChanges = async (checkout: LocalCheckout, changes: FileChange[]): Promise<number> => {
+  const pending = changes.filter(change => change.kind !== 'unchanged');
+  for (const change of pending) await writeCheckoutFile(checkout, change.path, change.after);
+  return pending.length;
+};
+
+// --- GIT PATCH ---
+export interface PatchAuthor {
+  name: string;
+  email: string;
+}
+
+export const DEFAULT_PATCH_AUTHOR: PatchAuthor = { name: 'PortfolioSignal', email: 'portfoliosignal@users.noreply.github.com' };
+
+const diffStat = (changes: FileChange[]): string[] => {
+  const counts = changes.map(change => {
+    // Skip the ---/+++ file headers; inside hunks a removed "---" line reads "----".
+    const lines = change.diff.split('\n');
+    const body = lines.slice(Math.max(lines.findIndex(l => l.startsWith('@@')), 0));
+    return {
+      path: change.path,
+      added: body.filter(l => l.startsWith('+')).length,
+      removed: body.filter(l => l.startsWith('-')).length,
+    };
+  });
+  const width = Math.max(...counts.map(c => c.path.length));
+  const added = counts.reduce((sum, c) => sum + c.added, 0);
+  const removed = counts.reduce((sum, c) => sum + c.removed, 0);
+  return [
+    ...counts.map(c => ` ${c.path.padEnd(width)} | ${c.added + c.removed} ${'+'.repeat(Math.min(c.added, 40))}${'-'.repeat(Math.min(c.removed, 40))}`),
+    ` ${changes.length} file${changes.length === 1 ? '' : 's'} changed, ${added} insertion${added === 1 ? '' : 's'}(+), ${removed} deletion${removed === 1 ? '' : 's'}(-)`,
+  ];
+};
+
+// Produces a single-commit patch in `git format-patch` (mbox) form, ready for `git am`.
+// Without a checkout every file is a creation, so the patch only applies where those files do not exist yet.
+export const formatPatch = (
+  changes: FileChange[],
+  subject: string,
+  author: PatchAuthor = DEFAULT_PATCH_AUTHOR,
+  date: Date = new Date()
+): string => {
+  const effective = changes.filter(change => change.kind !== 'unchanged');
+  if (effective.length === 0) return '';
+  const unsafe = effective.find(change => safeRelativePath(change.path) !== change.path);
+  if (unsafe) throw new GeminiError(`Refusing to patch ${unsafe.path}: the path leaves the repository.`);
+
+  const body = effective.map(change => [
+    `diff --git a/${change.path} b/${change.path}`,
+    ...(change.kind === 'create' ? ['new file mode 100644'] : []),
+    change.diff.trimEnd(),
+  ].join('\n'));
+
+  return [
+    'From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001',
+    `From: ${author.name} <${author.email}>`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Subject: [PATCH] ${subject}`,
+    '',
+    '---',
+    ...diffStat(effective),
+    '',
+    ...body,
+    '-- ',
+    'PortfolioSignal',
+    '',
+  ].join('\n');
+};
+
+export const patchFileName = (repo: string) => `${repo.replace(/[^\w.-]+/g, '-')}-governance.patch`;
+
+export const downloadPatch = (patch: string, fileName: string) =>
+  downloadBlob(new Blob([patch], { type: 'text/x-patch' }), fileName);
+
+// --- BUNDLES ---
+// Repo-relative paths; the portfolio bundle nests each repository under its own folder.
+export const bundleEntries = (artifacts: GeneratedArtifact[], nested: boolean): ZipInput[] => {
+  const entries = new Map<string, string>();
+  artifacts.forEach(artifact => artifact.files.forEach(file => {
+    const path = safeRelativePath(nested ? `${artifact.repo}/${file.path}` : file.path);
+    if (path) entries.set(path, file.content);
+  }));
+  return Array.from(entries, ([path, content]) => ({ path, content }));
+};
+
+export const bundleFileName = (name: string) => `${name.replace(/[^\w.-]+/g, '-')}-artifacts.zip`;
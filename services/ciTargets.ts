@@ -0,0 +1,107 @@
+export type CiTarget = 'github' | 'gitlab' | 'azure' | 'circleci' | 'jenkins';
+
+export interface CiTargetSpec {
+  label: string;
+  // Where the pipeline definition lives in the repository.
+  path: string;
+  // Platform-specific wording of the shared job requirements (lint/test/build, commit lint, docs deploy).
+  requirements: (settings: CiSettings) => string;
+}
+
+export interface CiSettings {
+  branch: string;
+  // How the docs site is built, e.g. "'typedoc' (if TS/JS) or 'mkdocs' (if Python)".
+  docsTool: string;
+}
+
+export const CI_TARGETS: Record<CiTarget, CiTargetSpec> = {
+  github: {
+    label: 'GitHub Actions',
+    path: '.github/workflows/ci.yml',
+    requirements: ({ branch, docsTool }) => `
+    1. **Triggers**: Push to ${branch}, PRs.
+    2. **Jobs**:
+       - 'lint-and-test': Checkout, setup env, install deps, run lint (eslint/flake8), run tests, run build.
+       - 'commit-lint': Check conventional commits.
+       - 'deploy-docs':
+         - Runs only on push to ${branch} && success.
+         - Permissions: contents:read, pages:write, id-token:write.
+         - Tooling: Use ${docsTool} to build static site.
+         - Deploy: Use 'actions/upload-pages-artifact' & 'actions/deploy-pages'.
+       - Pin every action to a release tag (e.g. @v4), never a branch.`,
+  },
+  gitlab: {
+    label: 'GitLab CI',
+    path: '.gitlab-ci.yml',
+    requirements: ({ docsTool }) => `
+    1. **Workflow rules**: Run for merge request pipelines and for pushes to the default branch; avoid duplicate branch + MR pipelines.
+    2. **Stages**: lint, test, build, deploy.
+    3. **Jobs**:
+       - 'lint', 'test', 'build': Install deps (with cache keyed on the lockfile), run lint (eslint/flake8), tests and build.
+       - 'commit-lint': Merge requests only; check conventional commits from $CI_MERGE_REQUEST_DIFF_BASE_SHA to HEAD.
+       - 'pages':
+         - Runs only when $CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH.
+         - Tooling: Use ${docsTool} to build the static site into 'public/'.
+         - Deploy: GitLab Pages via the 'public' artifact.
+       - Pin images to a version tag, never 'latest'.`,
+  },
+  azure: {
+    label: 'Azure Pipelines',
+    path: 'azure-pipelines.yml',
+    requirements: ({ branch, docsTool }) => `
+    1. **Triggers**: 'trigger' on ${branch}, 'pr' on ${branch}.
+    2. **Stages**:
+       - 'Validate' with job 'LintAndTest': Install deps (Cache@2 keyed on the lockfile), run lint (eslint/flake8), tests (publish results with PublishTestResults@2) and build.
+       - 'CommitLint': PR builds only (condition on Build.Reason == 'PullRequest'); check conventional commits against the target branch.
+       - 'DeployDocs':
+         - Runs only when succeeded() and Build.SourceBranch is refs/heads/${branch}.
+         - Tooling: Use ${docsTool} to build static site.
+         - Deploy: AzureStaticWebApp@0 with the token from a secret variable named 'docs_deployment_token'.
+       - Use vmImage 'ubuntu-latest' and versioned tasks (e.g. NodeTool@0, UsePythonVersion@0).`,
+  },
+  circleci: {
+    label: 'CircleCI',
+    path: '.circleci/config.yml',
+    requirements: ({ branch, docsTool }) => `
+    1. **Version**: 2.1, with pinned orbs only where they save real work (e.g. circleci/node@5).
+    2. **Jobs**:
+       - 'lint-and-test': Checkout, restore/save cache keyed on the lockfile, install deps, run lint (eslint/flake8), run tests (store_test_results), run build.
+       - 'commit-lint': Check conventional commits between origin/${branch} and HEAD.
+       - 'deploy-docs':
+         - Tooling: Use ${docsTool} to build static site.
+         - Deploy: Push the site to the 'gh-pages' branch using a deploy key (add_ssh_keys).
+    3. **Workflow**: 'ci' runs lint-and-test and commit-lint on every branch; deploy-docs requires both and is filtered to ${branch} only.
+       - Pin docker images to a version tag (cimg/node:20.x or cimg/python:3.x), never 'latest'.`,
+  },
+  jenkins: {
+    label: 'Jenkinsfile',
+    path: 'Jenkinsfile',
+    requirements: ({ branch, docsTool }) => `
+    1. **Pipeline**: Declarative 'pipeline { }' with an 'agent' using a versioned docker image, 'options { timestamps(); timeout(...) }'.
+    2. **Stages**:
+       - 'Lint & Test': Install deps, run lint (eslint/flake8), run tests (junit for results), run build.
+       - 'Commit Lint': 'when { changeRequest() }'; check conventional commits from the change target to HEAD.
+       - 'Deploy Docs':
+         - 'when { branch '${branch}' }'.
+         - Tooling: Use ${docsTool} to build static site.
+         - Deploy: Push the site to the 'gh-pages' branch using credentials from 'withCredentials' (id 'docs-deploy').
+    3. **Post**: Always clean the workspace.`,
+  },
+};
+
+export const CI_TARGET_ORDER: CiTarget[] = ['github', 'gitlab', 'azure', 'circleci', 'jenkins'];
+
+export const ciTargetPaths = (): string[] => CI_TARGET_ORDER.map(target => CI_TARGETS[target].path);
+
+// The repository host decides the default; anything unrecognized falls back to GitHub Actions.
+export const defaultCiTarget = (repoUrl: string): CiTarget => {
+  let host: string;
+  try {
+    host = new URL(/^[a-z]+:\/\//i.test(repoUrl) ? repoUrl : `https://${repoUrl}`).hostname.toLowerCase();
+  } catch {
+    return 'github';
+  }
+  if (host === 'gitlab.com' || host.startsWith('gitlab.')) return 'gitlab';
+  if (host === 'dev.azure.com' || host.endsWith('.visualstudio.com')) return 'azure';
+  return 'github';
+};
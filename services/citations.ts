@@ -0,0 +1,92 @@
+import { Citation, Claim, RepoAnalysis } from '../types';
+import { LLMGrounding } from './llmProvider';
+import { PortfolioSynthesis } from './analysisRepair';
+
+// Grounding supports point at spans of the raw JSON response, so a span is tied to a field
+// when one of its string fragments occurs in the field's value (or the other way round).
+const MIN_FRAGMENT = 20;
+const MAX_SNIPPET = 300;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+const normalize = (text: string) => collapse(text).toLowerCase();
+
+const unescapeJson = (text: string) => text.replace(/\\(["\\/nrt])/g, (_, c) => (c === 'n' ? '\n' : c === 'r' ? '\r' : c === 't' ? '\t' : c));
+
+// A span can cross JSON syntax ("...", "impressiveFactor": "..."); only the prose between
+// unescaped quotes is compared.
+const fragmentsOf = (span: string): string[] =>
+  span
+    .split(/(?<!\\)"/)
+    .map(fragment => collapse(unescapeJson(fragment)))
+    .filter(fragment => fragment.length >= MIN_FRAGMENT);
+
+// The fragment of the span that backs `value`, if any; it becomes the citation snippet.
+const supportedFragment = (fragments: string[], value: string) => {
+  const field = normalize(value);
+  if (!field) return undefined;
+  return fragments.find(fragment => {
+    const text = fragment.toLowerCase();
+    return field.includes(text) || (field.length >= MIN_FRAGMENT && text.includes(field));
+  });
+};
+
+const truncate = (text: string) => (text.length > MAX_SNIPPET ? `${text.slice(0, MAX_SNIPPET - 1).trimEnd()}…` : text);
+
+// Only http(s) links are rendered; imported files can carry anything.
+export const isWebUrl = (url: string) => /^https?:\/\//i.test(url);
+
+export const webCitations = (citations: Citation[] | undefined): Citation[] => (citations || []).filter(c => isWebUrl(c.url));
+
+// --- SERVICES ---
+
+// The sources whose supported spans overlap `value`, one citation per URL.
+export const citationsFor = (value: string, grounding: LLMGrounding | undefined): Citation[] => {
+  if (!grounding || !value) return [];
+  const byUrl = new Map<string, Citation>();
+  for (const support of grounding.supports) {
+    const fragment = supportedFragment(fragmentsOf(support.text), value);
+    if (!fragment) continue;
+    for (const index of support.sources) {
+      const source = grounding.sources[index];
+      if (!source || !isWebUrl(source.url) || byUrl.has(source.url)) continue;
+      byUrl.set(source.url, {
+        url: source.url,
+        ...(source.title && { title: source.title }),
+        snippet: truncate(fragment),
+      });
+    }
+  }
+  return Array.from(byUrl.values());
+};
+
+const uniqueByUrl = (citations: Citation[]) => citations.filter((c, i) => citations.findIndex(o => o.url === c.url) === i);
+
+const withCitations = <T extends object>(target: T, citations: Citation[]): T =>
+  citations.length > 0 ? { ...target, citations } : target;
+
+export const citeRepoAnalysis = (repo: RepoAnalysis, grounding: LLMGrounding | undefined): RepoAnalysis => {
+  if (!grounding || !repo.audit) return repo;
+  return { ...repo, audit: withCitations(repo.audit, citationsFor(repo.audit.rationale, grounding)) };
+};
+
+// Claims without a grounded span of their own fall back to the audit citations of the
+// repo they are about, which is the evidence the summary phase worked from.
+export const citeSynthesis = (synthesis: PortfolioSynthesis, grounding: LLMGrounding | undefined, repos: RepoAnalysis[]): PortfolioSynthesis => {
+  const auditCitations = (claim: Claim) => webCitations(repos.find(r => r.name === claim.repo)?.audit.citations);
+  return {
+    ...synthesis,
+    summary: {
+      ...synthesis.summary,
+      spotlightProjects: synthesis.summary.spotlightProjects.map(project =>
+        withCitations(project, uniqueByUrl([
+          ...citationsFor(project.description, grounding),
+          ...citationsFor(project.impressiveFactor, grounding),
+        ]))
+      ),
+    },
+    claimsCheck: synthesis.claimsCheck.map(claim => {
+      const direct = citationsFor(claim.statement, grounding);
+      return withCitations(claim, direct.length > 0 ? direct : auditCitations(claim));
+    }),
+  };
+};
@@ -0,0 +1,32 @@
+import { AnalysisResult, Claim, ClaimSeverity } from '../types';
+
+export const CLAIM_SEVERITIES: ClaimSeverity[] = ['High', 'Medium', 'Low'];
+
+// --- CONTEXT SENTENCES ---
+// The owner's context is split into numbered sentences for the prompt; a claim names the
+// number it contradicts and stores the sentence, so the link survives edits to the context.
+export const contextSentences = (context: string): string[] =>
+  context
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, ''))
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=\S)/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+export const numberedContext = (context: string): string => {
+  const sentences = contextSentences(context);
+  return sentences.length > 0 ? sentences.map((sentence, i) => `[${i + 1}] ${sentence}`).join('\n') : '(none)';
+};
+
+// --- ORDERING ---
+export const compareClaims = (a: Claim, b: Claim) => CLAIM_SEVERITIES.indexOf(a.severity) - CLAIM_SEVERITIES.indexOf(b.severity);
+
+// Results saved before claims were objects kept each one as a plain sentence.
+export const upgradeLegacyClaims = (result: AnalysisResult): AnalysisResult => {
+  const claims: unknown[] = Array.isArray(result.claimsCheck) ? result.claimsCheck : [];
+  if (claims.every(claim => typeof claim !== 'string')) return result;
+  return {
+    ...result,
+    claimsCheck: claims.map(claim => (typeof claim === 'string' ? { statement: claim, severity: 'Medium' } : claim)) as Claim[],
+  };
+};
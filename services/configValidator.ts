@@ -0,0 +1,381 @@
+import { Document, isMap, isSeq, LineCounter, parseDocument } from 'yaml';
+import { GeneratedFile } from '../types';
+import { LLMTask } from './llmProvider';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface FileProblem {
+  severity: ProblemSeverity;
+  message: string;
+  line?: number;
+}
+
+// Parsed YAML or JSON; narrowed with isObject and asList before use.
+type Json = unknown;
+
+// --- YAML ---
+interface ParsedYaml {
+  value: Json;
+  lineOf: (path: (string | number)[]) => number | undefined;
+  problems: FileProblem[];
+}
+
+const parseYaml = (content: string): ParsedYaml => {
+  const lineCounter = new LineCounter();
+  const doc: Document = parseDocument(content, { lineCounter });
+  const lineOf = (path: (string | number)[]) => {
+    const node = doc.getIn(path, true) as { range?: [number, number, number] } | undefined;
+    return node?.range ? lineCounter.linePos(node.range[0]).line : undefined;
+  };
+  const problems: FileProblem[] = doc.errors.map(error => ({
+    severity: 'error',
+    message: `YAML syntax: ${error.message.split('\n')[0].replace(/ at line \d+, column \d+:$/, '')}`,
+    line: error.linePos?.[0].line,
+  }));
+  return { value: problems.length > 0 ? null : doc.toJS(), lineOf, problems };
+};
+
+const isObject = (value: Json): value is Record<string, Json> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asList = (value: Json): Json[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+// --- GITHUB ACTIONS ---
+// Keys and values below follow the published workflow syntax
+// (https://docs.github.com/actions/reference/workflow-syntax-for-github-actions).
+const WORKFLOW_KEYS = new Set(['name', 'run-name', 'on', 'permissions', 'env', 'defaults', 'concurrency', 'jobs']);
+
+const JOB_KEYS = new Set([
+  'name', 'permissions', 'needs', 'if', 'runs-on', 'environment', 'concurrency', 'outputs', 'env', 'defaults',
+  'steps', 'timeout-minutes', 'strategy', 'continue-on-error', 'container', 'services', 'uses', 'with', 'secrets',
+]);
+
+const STEP_KEYS = new Set(['id', 'if', 'name', 'uses', 'run', 'working-directory', 'shell', 'with', 'env', 'continue-on-error', 'timeout-minutes']);
+
+const EVENTS = new Set([
+  'branch_protection_rule', 'check_run', 'check_suite', 'create', 'delete', 'deployment', 'deployment_status',
+  'discussion', 'discussion_comment', 'fork', 'gollum', 'issue_comment', 'issues', 'label', 'merge_group',
+  'milestone', 'page_build', 'public', 'pull_request', 'pull_request_review', 'pull_request_review_comment',
+  'pull_request_target', 'push', 'registry_package', 'release', 'repository_dispatch', 'schedule', 'status',
+  'watch', 'workflow_call', 'workflow_dispatch', 'workflow_run',
+]);
+
+const PERMISSION_SCOPES = new Set([
+  'actions', 'attestations', 'checks', 'contents', 'deployments', 'discussions', 'id-token', 'issues', 'models',
+  'packages', 'pages', 'pull-requests', 'repository-projects', 'security-events', 'statuses',
+]);
+
+const JOB_ID = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const MOVING_REFS = new Set(['main', 'master', 'develop', 'head', 'latest', 'trunk']);
+
+// What `generateCiCd` asks for on GitHub Actions; drift from the prompt is reported as warnings.
+interface WorkflowExpectations {
+  triggers: string[];
+  jobs: string[];
+  permissions: Record<string, Record<string, string>>;
+  actions: Record<string, string[]>;
+}
+
+const CI_EXPECTATIONS: WorkflowExpectations = {
+  triggers: ['push', 'pull_request'],
+  jobs: ['lint-and-test', 'commit-lint', 'deploy-docs'],
+  permissions: { 'deploy-docs': { contents: 'read', pages: 'write', 'id-token': 'write' } },
+  actions: { 'deploy-docs': ['actions/upload-pages-artifact', 'actions/deploy-pages'] },
+};
+
+const checkPermissions = (
+  permissions: Json,
+  path: (string | number)[],
+  lineOf: ParsedYaml['lineOf'],
+  problems: FileProblem[]
+) => {
+  if (permissions === undefined) return;
+  if (typeof permissions === 'string') {
+    if (permissions !== 'read-all' && permissions !== 'write-all') {
+      problems.push({ severity: 'error', message: `permissions must be "read-all", "write-all" or a map of scopes, not "${permissions}".`, line: lineOf(path) });
+    }
+    return;
+  }
+  if (!isObject(permissions)) {
+    problems.push({ severity: 'error', message: 'permissions must be a map of scopes.', line: lineOf(path) });
+    return;
+  }
+  Object.entries(permissions).forEach(([scope, level]) => {
+    const line = lineOf([...path, scope]);
+    if (!PERMISSION_SCOPES.has(scope)) {
+      problems.push({ severity: 'error', message: `Unknown permission scope "${scope}".`, line });
+    } else if (typeof level !== 'string' || !['read', 'write', 'none'].includes(level) || (scope === 'id-token' && level === 'read')) {
+      problems.push({ severity: 'error', message: `Invalid level "${level}" for permission "${scope}".`, line });
+    }
+  });
+};
+
+const checkActionRef = (uses: Json, line: number | undefined, problems: FileProblem[]) => {
+  if (typeof uses !== 'string') {
+    problems.push({ severity: 'error', message: '"uses" must be a string.', line });
+    return;
+  }
+  if (uses.startsWith('./') || uses.startsWith('docker://')) return;
+  const at = uses.lastIndexOf('@');
+  if (at < 0) {
+    problems.push({ severity: 'error', message: `Action "${uses}" has no version; pin it to a tag or commit SHA.`, line });
+    return;
+  }
+  const ref = uses.slice(at + 1);
+  if (MOVING_REFS.has(ref.toLowerCase())) {
+    problems.push({ severity: 'error', message: `Action "${uses}" points at the moving branch "${ref}"; pin it to a tag or commit SHA.`, line });
+  }
+};
+
+const findCycle = (graph: Record<string, string[]>): string[] | null => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (node: string, trail: string[]): string[] | null => {
+    if (state.get(node) === 'done') return null;
+    if (state.get(node) === 'visiting') return [...trail.slice(trail.indexOf(node)), node];
+    state.set(node, 'visiting');
+    for (const next of graph[node] || []) {
+      const cycle = visit(next, [...trail, node]);
+      if (cycle) return cycle;
+    }
+    state.set(node, 'done');
+    return null;
+  };
+  for (const node of Object.keys(graph)) {
+    const cycle = visit(node, []);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+export const validateWorkflow = (content: string, expectations?: WorkflowExpectations): FileProblem[] => {
+  const { value, lineOf, problems } = parseYaml(content);
+  if (problems.length > 0) return problems;
+  if (!isObject(value)) return [{ severity: 'error', message: 'A workflow must be a YAML mapping.' }];
+
+  Object.keys(value).forEach(key => {
+    if (!WORKFLOW_KEYS.has(key)) problems.push({ severity: 'error', message: `Unknown top-level key "${key}".`, line: lineOf([key]) });
+  });
+
+  // Triggers
+  const on = value.on;
+  const events: string[] = typeof on === 'string' ? [on] : Array.isArray(on) ? on : isObject(on) ? Object.keys(on) : [];
+  if (on === undefined) problems.push({ severity: 'error', message: 'Missing "on": the workflow has no triggers.' });
+  events.forEach(event => {
+    if (!EVENTS.has(event)) problems.push({ severity: 'error', message: `Unknown trigger event "${event}".`, line: lineOf(['on']) });
+  });
+  if (isObject(on) && on.schedule !== undefined && !asList(on.schedule).every(entry => isObject(entry) && typeof entry.cron === 'string')) {
+    problems.push({ severity: 'error', message: 'Every schedule entry needs a "cron" string.', line: lineOf(['on', 'schedule']) });
+  }
+
+  checkPermissions(value.permissions, ['permissions'], lineOf, problems);
+
+  // Jobs
+  const jobs = value.jobs;
+  if (!isObject(jobs) || Object.keys(jobs).length === 0) {
+    problems.push({ severity: 'error', message: 'Missing "jobs": a workflow needs at least one job.', line: lineOf(['jobs']) });
+    return problems;
+  }
+
+  const graph: Record<string, string[]> = {};
+  Object.entries(jobs).forEach(([id, job]) => {
+    const line = lineOf(['jobs', id]);
+    if (!JOB_ID.test(id)) problems.push({ severity: 'error', message: `Invalid job id "${id}".`, line });
+    if (!isObject(job)) {
+      problems.push({ severity: 'error', message: `Job "${id}" must be a mapping.`, line });
+      return;
+    }
+
+    Object.keys(job).forEach(key => {
+      if (!JOB_KEYS.has(key)) problems.push({ severity: 'error', message: `Unknown key "${key}" in job "${id}".`, line: lineOf(['jobs', id, key]) });
+    });
+    checkPermissions(job.permissions, ['jobs', id, 'permissions'], lineOf, problems);
+
+    const needs = asList(job.needs);
+    graph[id] = needs.filter((n): n is string => typeof n === 'string' && n !== id);
+    needs.forEach(need => {
+      const needLine = lineOf(['jobs', id, 'needs']);
+      if (need === id) problems.push({ severity: 'error', message: `Job "${id}" needs itself.`, line: needLine });
+      else if (!(String(need) in jobs)) problems.push({ severity: 'error', message: `Job "${id}" needs unknown job "${need}".`, line: needLine });
+    });
+
+    if (job.uses !== undefined) {
+      // Reusable workflow call: no runner or steps of its own.
+      if (job.steps !== undefined) problems.push({ severity: 'error', message: `Job "${id}" calls a reusable workflow and cannot have steps.`, line });
+      return;
+    }
+    if (job['runs-on'] === undefined) problems.push({ severity: 'error', message: `Job "${id}" is missing "runs-on".`, line });
+    if (!Array.isArray(job.steps) || job.steps.length === 0) {
+      problems.push({ severity: 'error', message: `Job "${id}" has no steps.`, line });
+      return;
+    }
+
+    job.steps.forEach((step: Json, index: number) => {
+      const stepLine = lineOf(['jobs', id, 'steps', index]);
+      if (!isObject(step)) {
+        problems.push({ severity: 'error', message: `Step ${index + 1} of "${id}" must be a mapping.`, line: stepLine });
+        return;
+      }
+      const hasUses = step.uses !== undefined;
+      const hasRun = step.run !== undefined;
+      if (hasUses === hasRun) {
+        problems.push({ severity: 'error', message: `Step ${index + 1} of "${id}" must have exactly one of "uses" or "run".`, line: stepLine });
+      }
+      Object.keys(step).forEach(key => {
+        if (!STEP_KEYS.has(key)) problems.push({ severity: 'warning', message: `Unknown key "${key}" in step ${index + 1} of "${id}".`, line: lineOf(['jobs', id, 'steps', index, key]) });
+      });
+      if (hasUses) checkActionRef(step.uses, lineOf(['jobs', id, 'steps', index, 'uses']), problems);
+    });
+  });
+
+  const cycle = findCycle(graph);
+  if (cycle) problems.push({ severity: 'error', message: `Jobs depend on each other in a cycle: ${cycle.join(' -> ')}.`, line: lineOf(['jobs']) });
+
+  if (expectations) {
+    expectations.triggers.filter(t => !events.includes(t)).forEach(t => {
+      problems.push({ severity: 'warning', message: `Expected a "${t}" trigger.`, line: lineOf(['on']) });
+    });
+    expectations.jobs.filter(j => !(j in jobs)).forEach(j => {
+      problems.push({ severity: 'warning', message: `Expected a "${j}" job.`, line: lineOf(['jobs']) });
+    });
+    Object.entries(expectations.permissions).forEach(([jobId, scopes]) => {
+      const job = jobs[jobId];
+      if (!isObject(job)) return;
+      const granted = isObject(job.permissions) ? job.permissions : isObject(value.permissions) ? value.permissions : {};
+      Object.entries(scopes).forEach(([scope, level]) => {
+        if (granted[scope] !== level) {
+          problems.push({ severity: 'warning', message: `Job "${jobId}" should grant ${scope}: ${level}.`, line: lineOf(['jobs', jobId]) });
+        }
+      });
+    });
+    Object.entries(expectations.actions).forEach(([jobId, actions]) => {
+      const job = jobs[jobId];
+      if (!isObject(job) || !Array.isArray(job.steps)) return;
+      const used = job.steps.map((s: Json) => (isObject(s) && typeof s.uses === 'string' ? s.uses.split('@')[0] : ''));
+      actions.filter(a => !used.includes(a)).forEach(a => {
+        problems.push({ severity: 'warning', message: `Job "${jobId}" should use ${a}.`, line: lineOf(['jobs', jobId]) });
+      });
+    });
+  }
+
+  return problems;
+};
+
+// --- PRE-COMMIT ---
+export const validatePreCommitConfig = (content: string): FileProblem[] => {
+  const { value, lineOf, problems } = parseYaml(content);
+  if (problems.length > 0) return problems;
+  if (!isObject(value)) return [{ severity: 'error', message: '.pre-commit-config.yaml must be a YAML mapping.' }];
+  if (!Array.isArray(value.repos)) return [{ severity: 'error', message: 'Missing "repos" list.' }];
+
+  let hasCommitMessageHook = false;
+  value.repos.forEach((repo: Json, index: number) => {
+    const line = lineOf(['repos', index]);
+    if (!isObject(repo) || typeof repo.repo !== 'string') {
+      problems.push({ severity: 'error', message: `Entry ${index + 1} in "repos" needs a "repo".`, line });
+      return;
+    }
+    const isLocal = repo.repo === 'local' || repo.repo === 'meta';
+    if (!isLocal && typeof repo.rev !== 'string' && typeof repo.rev !== 'number') {
+      problems.push({ severity: 'error', message: `${repo.repo} is missing "rev".`, line });
+    } else if (!isLocal && MOVING_REFS.has(String(repo.rev).toLowerCase())) {
+      problems.push({ severity: 'error', message: `${repo.repo} uses the moving rev "${repo.rev}"; pin a tag or commit SHA.`, line: lineOf(['repos', index, 'rev']) });
+    }
+    if (!Array.isArray(repo.hooks) || repo.hooks.length === 0) {
+      problems.push({ severity: 'error', message: `${repo.repo} has no hooks.`, line });
+      return;
+    }
+    repo.hooks.forEach((hook: Json, hookIndex: number) => {
+      if (!isObject(hook) || typeof hook.id !== 'string') {
+        problems.push({ severity: 'error', message: `Hook ${hookIndex + 1} of ${repo.repo} needs an "id".`, line: lineOf(['repos', index, 'hooks', hookIndex]) });
+        return;
+      }
+      if (isLocal && repo.repo === 'local' && (!hook.entry || !hook.language)) {
+        problems.push({ severity: 'error', message: `Local hook "${hook.id}" needs "entry" and "language".`, line: lineOf(['repos', index, 'hooks', hookIndex]) });
+      }
+      if (/commitizen|commitlint|conventional/i.test(`${repo.repo} ${hook.id}`)) {
+        hasCommitMessageHook = true;
+        // The upstream hook manifests already set this stage; only an explicit list can leave it out.
+        if (hook.stages !== undefined && !asList(hook.stages).includes('commit-msg')) {
+          problems.push({ severity: 'warning', message: `Hook "${hook.id}" should run at the commit-msg stage.`, line: lineOf(['repos', index, 'hooks', hookIndex]) });
+        }
+      }
+    });
+  });
+
+  if (!hasCommitMessageHook) problems.push({ severity: 'warning', message: 'No Conventional Commits hook (commitizen) is configured.' });
+  return problems;
+};
+
+// --- COMMITLINT ---
+const CONVENTIONAL_PRESET = '@commitlint/config-conventional';
+
+const checkCommitlintRules = (rules: Json, problems: FileProblem[]) => {
+  if (rules === undefined) return;
+  if (!isObject(rules)) {
+    problems.push({ severity: 'error', message: '"rules" must be an object.' });
+    return;
+  }
+  Object.entries(rules).forEach(([name, rule]) => {
+    const list = asList(rule);
+    const [level, applies] = list;
+    if (level !== 0 && level !== 1 && level !== 2) problems.push({ severity: 'error', message: `Rule "${name}" must start with a level of 0, 1 or 2.` });
+    if (level !== 0 && list.length > 1 && applies !== 'always' && applies !== 'never') {
+      problems.push({ severity: 'error', message: `Rule "${name}" must use "always" or "never".` });
+    }
+  });
+};
+
+export const validateCommitlintConfig = (path: string, content: string): FileProblem[] => {
+  const problems: FileProblem[] = [];
+
+  if (path.endsWith('.json') || /\.commitlintrc$/.test(path)) {
+    let config: Json;
+    try {
+      config = JSON.parse(content);
+    } catch (error: any) {
+      return [{ severity: 'error', message: `Invalid JSON: ${error.message}` }];
+    }
+    const settings: Record<string, Json> = isObject(config) ? config : {};
+    if (!asList(settings.extends).includes(CONVENTIONAL_PRESET)) {
+      problems.push({ severity: 'warning', message: `Config does not extend ${CONVENTIONAL_PRESET}.` });
+    }
+    checkCommitlintRules(settings.rules, problems);
+    return problems;
+  }
+
+  // The JavaScript config is compiled to check its syntax but never executed.
+  const hasExport = /module\.exports\s*=|export\s+default\b/.test(content);
+  if (!hasExport) problems.push({ severity: 'error', message: 'Config must export an object via module.exports or export default.' });
+  // ES module configs may start with imports, which a function body cannot contain.
+  const script = content
+    .replace(/^\s*import\s+(?:[\w*{}\s,]+\s+from\s+)?['"][^'"]+['"]\s*;?/gm, '')
+    .replace(/export\s+default\b/, 'module.exports =');
+  try {
+    new Function('module', 'exports', 'require', script);
+  } catch (error: any) {
+    problems.push({ severity: 'error', message: `JavaScript syntax: ${error.message}` });
+  }
+  if (!content.includes(CONVENTIONAL_PRESET)) {
+    problems.push({ severity: 'warning', message: `Config does not extend ${CONVENTIONAL_PRESET}.` });
+  }
+  return problems;
+};
+
+// --- DISPATCH ---
+export const validateGeneratedFile = (file: GeneratedFile, task?: LLMTask): FileProblem[] => {
+  const name = file.path.split('/').pop() || file.path;
+  if (/^\.github\/workflows\/[^/]+\.ya?ml$/.test(file.path)) {
+    return validateWorkflow(file.content, task === 'cicd' ? CI_EXPECTATIONS : undefined);
+  }
+  if (name === '.pre-commit-config.yaml') return validatePreCommitConfig(file.content);
+  if (/^(commitlint\.config\.(c|m)?js|\.commitlintrc(\.json)?)$/.test(name)) return validateCommitlintConfig(name, file.content);
+  if (file.language === 'yaml') return parseYaml(file.content).problems;
+  if (file.language === 'json') {
+    try {
+      JSON.parse(file.content);
+    } catch (error: any) {
+      return [{ severity: 'error', message: `Invalid JSON: ${error.message}` }];
+    }
+  }
+  return [];
+};
@@ -0,0 +1,10 @@
+// Saves `blob` through a temporary link. The object URL is revoked on the next tick:
+// revoking it straight after click() can cancel the download in some browsers.
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,42 @@
+export type GeminiErrorCode =
+  | 'unknown'
+  | 'aborted'
+  | 'timeout'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'network'
+  | 'invalid_response';
+
+const RETRYABLE_CODES: GeminiErrorCode[] = ['timeout', 'rate_limited', 'unavailable', 'network'];
+
+export class GeminiError extends Error {
+  constructor(message: string, public originalError?: any, public code: GeminiErrorCode = 'unknown') {
+    super(message);
+    this.name = 'GeminiError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+export interface ValidationIssue {
+  // Dotted path to the offending field, e.g. `repos[2].audit.scores.testing`.
+  path: string;
+  message: string;
+}
+
+export class AnalysisValidationError extends GeminiError {
+  constructor(message: string, public issues: ValidationIssue[]) {
+    super(message, undefined, 'invalid_response');
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+// Maps an HTTP status from any provider to an error code.
+export const codeForStatus = (status: number): GeminiErrorCode => {
+  if (status === 429) return 'rate_limited';
+  if (status === 408) return 'timeout';
+  if (status === 500 || status === 502 || status === 503 || status === 504) return 'unavailable';
+  return 'unknown';
+};
@@ -0,0 +1,176 @@
+import { RepoFacts } from '../types';
+import { RepoSource, SourceFile } from './repoSource';
+
+export interface CollectedSource {
+  source: RepoSource;
+  facts: RepoFacts;
+}
+
+// --- SIGNAL TABLES ---
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', kts: 'Kotlin',
+  rb: 'Ruby', php: 'PHP', cs: 'C#', fs: 'F#', swift: 'Swift', scala: 'Scala',
+  c: 'C', h: 'C', cpp: 'C++', cc: 'C++', hpp: 'C++', m: 'Objective-C',
+  dart: 'Dart', ex: 'Elixir', exs: 'Elixir', erl: 'Erlang', hs: 'Haskell',
+  lua: 'Lua', r: 'R', jl: 'Julia', sh: 'Shell', bash: 'Shell', ps1: 'PowerShell',
+  vue: 'Vue', svelte: 'Svelte', html: 'HTML', css: 'CSS', scss: 'SCSS',
+  sql: 'SQL', tf: 'HCL', sol: 'Solidity', zig: 'Zig', nim: 'Nim',
+};
+
+const LOCKFILES = new Set([
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock',
+  'poetry.lock', 'Pipfile.lock', 'uv.lock', 'pdm.lock', 'Cargo.lock', 'go.sum',
+  'Gemfile.lock', 'composer.lock', 'mix.lock', 'pubspec.lock', 'Package.resolved', 'gradle.lockfile',
+]);
+
+const CI_FILES = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.gitlab-ci\.yml$/,
+  /^azure-pipelines\.ya?ml$/,
+  /^\.circleci\/config\.ya?ml$/,
+  /^Jenkinsfile$/,
+  /^\.travis\.yml$/,
+  /^bitbucket-pipelines\.yml$/,
+];
+
+const TEST_DIRECTORY = /^(tests?|__tests__|specs?|e2e|testing)$/i;
+
+export const MANIFESTS = new Set([
+  'package.json', 'pyproject.toml', 'setup.py', 'requirements.txt', 'Pipfile', 'go.mod', 'Cargo.toml',
+  'Gemfile', 'composer.json', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'mix.exs', 'pubspec.yaml', 'Package.swift',
+]);
+
+// Config files whose presence implies a tool, keyed by tool name.
+const LINTER_CONFIGS: Record<string, RegExp> = {
+  eslint: /^(\.eslintrc(\.\w+)?|eslint\.config\.\w+)$/,
+  biome: /^biome\.jsonc?$/,
+  prettier: /^(\.prettierrc(\.\w+)?|prettier\.config\.\w+)$/,
+  ruff: /^(ruff|\.ruff)\.toml$/,
+  flake8: /^\.flake8$/,
+  pylint: /^\.pylintrc$/,
+  golangci: /^\.golangci\.ya?ml$/,
+  rubocop: /^\.rubocop\.yml$/,
+  clippy: /^clippy\.toml$/,
+};
+
+const TEST_RUNNER_CONFIGS: Record<string, RegExp> = {
+  jest: /^jest\.config\.\w+$/,
+  vitest: /^vitest\.config\.\w+$/,
+  mocha: /^\.mocharc(\.\w+)?$/,
+  karma: /^karma\.conf\.\w+$/,
+  playwright: /^playwright\.config\.\w+$/,
+  cypress: /^cypress\.config\.\w+$/,
+  pytest: /^(pytest\.ini|conftest\.py|tox\.ini)$/,
+  rspec: /^\.rspec$/,
+  phpunit: /^phpunit\.xml(\.dist)?$/,
+};
+
+// Library names looked up in manifest contents.
+const TELEMETRY_LIBRARIES = ['@sentry/', 'sentry-sdk', 'opentelemetry', 'prom-client', 'prometheus', 'dd-trace', 'ddtrace', 'newrelic', 'honeycomb'];
+const LOGGING_LIBRARIES = ['winston', 'pino', 'bunyan', 'structlog', 'loguru', 'go.uber.org/zap', 'logrus', 'zerolog', 'tracing-subscriber', 'slog', 'log4j', 'logback'];
+
+const isRootFile = (path: string, pattern: RegExp) => !path.includes('/') && pattern.test(path);
+
+// --- COLLECTION ---
+const readGitRecency = async (files: SourceFile[]): Promise<string | null> => {
+  const log = files.find(f => f.path === '.git/logs/HEAD');
+  if (!log) return null;
+
+  // Each reflog line: <old-sha> <new-sha> <name> <email> <unix-seconds> <tz>\t<message>
+  const lines = (await log.text()).trim().split('\n');
+  const match = lines[lines.length - 1]?.match(/> (\d+) [+-]\d{4}\t/);
+  return match ? new Date(Number(match[1]) * 1000).toISOString() : null;
+};
+
+const readAll = async (files: SourceFile[]): Promise<string> =>
+  (await Promise.all(files.map(f => f.text().catch(() => '')))).join('\n');
+
+const matchConfigs = (rootNames: string[], configs: Record<string, RegExp>): string[] =>
+  Object.entries(configs).filter(([, pattern]) => rootNames.some(name => pattern.test(name))).map(([tool]) => tool);
+
+export const collectRepoFacts = async (source: RepoSource): Promise<RepoFacts> => {
+  const tracked = source.files.filter(f => !f.path.startsWith('.git/'));
+  const paths = tracked.map(f => f.path);
+  const rootNames = paths.filter(p => !p.includes('/'));
+
+  const languages: Record<string, number> = {};
+  for (const file of tracked) {
+    const ext = file.path.split('.').pop()?.toLowerCase() || '';
+    const language = LANGUAGE_BY_EXTENSION[ext];
+    if (language) languages[language] = (languages[language] || 0) + file.size;
+  }
+
+  const testDirectories = new Set<string>();
+  for (const path of paths) {
+    const segments = path.split('/');
+    const index = segments.slice(0, -1).findIndex(s => TEST_DIRECTORY.test(s));
+    if (index >= 0) testDirectories.add(segments.slice(0, index + 1).join('/'));
+  }
+
+  let lastCommitAt = await readGitRecency(source.files);
+  let lastCommitSource: RepoFacts['lastCommitSource'] = lastCommitAt ? 'git' : null;
+  if (!lastCommitAt && tracked.length > 0) {
+    lastCommitAt = new Date(tracked.reduce((max, f) => Math.max(max, f.lastModified), 0)).toISOString();
+    lastCommitSource = 'file-mtime';
+  }
+
+  const ciWorkflows = paths.filter(p => CI_FILES.some(pattern => pattern.test(p)));
+  const manifestFiles = tracked.filter(f => !f.path.includes('/') && MANIFESTS.has(f.path));
+  const manifestText = await readAll(manifestFiles);
+  const ciText = await readAll(tracked.filter(f => ciWorkflows.includes(f.path)));
+
+  const linters = matchConfigs(rootNames, LINTER_CONFIGS);
+  if (/\[tool\.ruff\]/.test(manifestText) && !linters.includes('ruff')) linters.push('ruff');
+
+  const testRunners = matchConfigs(rootNames, TEST_RUNNER_CONFIGS);
+  for (const runner of ['jest', 'vitest', 'mocha', 'pytest']) {
+    if (!testRunners.includes(runner) && new RegExp(`["\\s]${runner}["\\s>=<~^]`).test(manifestText)) testRunners.push(runner);
+  }
+
+  return {
+    source: source.kind,
+    fileCount: tracked.length,
+    hasReadme: paths.some(p => isRootFile(p, /^readme(\.|$)/i)),
+    hasLicense: paths.some(p => isRootFile(p, /^(licen[cs]e|copying)(\.|$)/i)),
+    hasSecurityPolicy: paths.some(p => /^(\.github\/|docs\/)?security\.md$/i.test(p)),
+    ciWorkflows,
+    testDirectories: Array.from(testDirectories).sort(),
+    lockfiles: paths.filter(p => LOCKFILES.has(p.split('/').pop() || '')),
+    languages,
+    lastCommitAt,
+    lastCommitSource,
+    manifests: manifestFiles.map(f => f.path),
+    hasContributing: paths.some(p => /^(\.github\/|docs\/)?contributing(\.|$)/i.test(p)),
+    hasChangelog: paths.some(p => isRootFile(p, /^(changelog|changes|history)(\.|$)/i)),
+    hasDocsDirectory: paths.some(p => /^docs?\//i.test(p)),
+    hasContainer: paths.some(p => /^(Dockerfile|Containerfile|docker-compose\.ya?ml|compose\.ya?ml|\.devcontainer\/.+)$/.test(p)),
+    hasCodeowners: paths.some(p => /^(\.github\/|docs\/)?CODEOWNERS$/.test(p)),
+    hasDependencyBot: paths.some(p => /^(\.github\/dependabot\.ya?ml|renovate\.json5?|\.renovaterc(\.json)?|\.github\/renovate\.json5?)$/.test(p)),
+    hasTypeChecking: rootNames.some(n => /^(tsconfig(\.\w+)?\.json|mypy\.ini|\.mypy\.ini|pyrightconfig\.json)$/.test(n)) || /\[tool\.(mypy|pyright)\]/.test(manifestText),
+    ciRunsTests: /\b(test|pytest|jest|vitest|go test|cargo test|rspec)\b/.test(ciText),
+    linters,
+    testRunners,
+    telemetryLibraries: TELEMETRY_LIBRARIES.filter(lib => manifestText.includes(lib)),
+    loggingLibraries: LOGGING_LIBRARIES.filter(lib => manifestText.includes(lib)),
+  };
+};
+
+// --- MATCHING ---
+const normalizeName = (name: string) => name.toLowerCase().replace(/\.git$/, '');
+
+// Tarball roots are `<owner>-<repo>`, so a suffix match is accepted as well.
+export const findForRepo = <T>(repo: { name: string; url: string }, byName: Record<string, T>): T | undefined => {
+  const candidates = [repo.name, repo.url.split('/').filter(Boolean).pop() || ''].map(normalizeName);
+  const entry = Object.entries(byName).find(([name]) => {
+    const normalized = normalizeName(name);
+    return candidates.some(c => c && (normalized === c || normalized.endsWith(`-${c}`)));
+  });
+  return entry?.[1];
+};
+
+export const findFactsForRepo = (
+  repo: { name: string; url: string },
+  factsByName: Record<string, RepoFacts>
+): RepoFacts | undefined => findForRepo(repo, factsByName);
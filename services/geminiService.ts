@@ -1,14 +1,23 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, RepoAnalysis, PortfolioSummary } from '../types';
-
-const apiKey = process.env.API_KEY;
-
-export class GeminiError extends Error {
-  constructor(message: string, public originalError?: any) {
-    super(message);
-    this.name = 'GeminiError';
-  }
-}
+import { GeneratedFile, RepoAnalysis, RepoFacts, PortfolioSummary, Rubric } from '../types';
+import { AnalysisValidationError, GeminiError, ValidationIssue } from './errors';
+import { computeBaseline, reconcileWithBaseline } from './scoringEngine';
+import { portfolioSchema, repoSchemaFor } from './schemas';
+import { PortfolioSynthesis, RepairOutcome, repairPortfolioSynthesis, repairRepoAnalysis, unrepairable } from './analysisRepair';
+import { getProvider, LLMGrounding, LLMRequest, LLMResponse } from './llmProvider';
+import { CallOptions, toGeminiError, withRetry } from './requestPolicy';
+import { EMPTY_CONTEXT, RepoContextBundle } from './generatorContext';
+import { mergeMarkdownSections } from './markdownMerge';
+import { parseGeneratedFiles, toGeneratedFile } from './generatedFiles';
+import { CI_TARGETS, CiTarget, defaultCiTarget } from './ciTargets';
+import { DEFAULT_ORG_PROFILE, OrganizationProfile } from './orgProfile';
+import { DEFAULT_RUBRIC, dimensionIds } from './rubrics';
+import { citeRepoAnalysis, citeSynthesis } from './citations';
+import {
+  auditorVariables, docStrategyVariables, generatorVariables, portfolioSummaryVariables, renderPrompt, RenderedPrompt, repoAuditVariables
+} from './promptTemplates';
+import './providers';
+
+export { GeminiError };
 
 // --- UTILITIES ---
 const cleanCodeBlock = (text: string): string => {
@@ -18,391 +27,281 @@ const cleanCodeBlock = (text: string): string => {
   return text.replace(/^```[a-z-]*\n([\s\S]*)\n```$/i, '$1').trim();
 };
 
-const validateApiKey = () => {
-  if (!apiKey) {
-    throw new GeminiError("API Key is missing. Please ensure process.env.API_KEY is set.");
-  }
-};
-
-// --- SCHEMAS ---
-const auditSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    documentation: { type: Type.NUMBER, description: "Score 0-5" },
-    buildDevX: { type: Type.NUMBER, description: "Score 0-5" },
-    testing: { type: Type.NUMBER, description: "Score 0-5" },
-    ciCd: { type: Type.NUMBER, description: "Score 0-5" },
-    security: { type: Type.NUMBER, description: "Score 0-5" },
-    observability: { type: Type.NUMBER, description: "Score 0-5" },
-    maintainability: { type: Type.NUMBER, description: "Score 0-5" },
-    productionReadiness: { type: Type.NUMBER, description: "Score 0-5" },
-    rationale: { type: Type.STRING },
-    topFixes: { type: Type.ARRAY, items: { type: Type.STRING } }
-  },
-  required: ["documentation", "buildDevX", "testing", "ciCd", "security", "maintainability", "productionReadiness", "rationale", "topFixes"]
-};
-
-const repoSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    name: { type: Type.STRING },
-    url: { type: Type.STRING },
-    status: { type: Type.STRING, enum: ['Active', 'Dormant', 'Archived', 'Template', 'Fork', 'Unknown'] },
-    primaryLanguage: { type: Type.STRING },
-    frameworks: { type: Type.ARRAY, items: { type: Type.STRING } },
-    audit: auditSchema,
-    description: { type: Type.STRING }
-  },
-  required: ["name", "url", "status", "primaryLanguage", "audit", "description"]
-};
+// Per-repo audits use the reasoning model with search grounding; the summary
+// phase only reads the per-repo results.
+const REPO_TIMEOUT_MS = 90000;
+const SUMMARY_TIMEOUT_MS = 120000;
 
-const actionSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING },
-    repo: { type: Type.STRING },
-    priority: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
-    impact: { type: Type.STRING },
-    effort: { type: Type.STRING, enum: ['Small', 'Medium', 'Large'] },
-    rationale: { type: Type.STRING }
-  },
-  required: ["title", "repo", "priority", "impact", "effort", "rationale"]
-};
+const callModel = (request: LLMRequest, options: CallOptions = {}): Promise<LLMResponse> =>
+  withRetry(signal => getProvider().generate({ ...request, signal }), options);
 
-const summarySchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    executiveSummary: { type: Type.STRING },
-    stats: {
-      type: Type.OBJECT,
-      properties: {
-        totalRepos: { type: Type.NUMBER },
-        activeCount: { type: Type.NUMBER },
-        archivedCount: { type: Type.NUMBER },
-        languages: { type: Type.OBJECT, description: "Key is language name, value is count" }
-      },
-      required: ["totalRepos", "activeCount", "archivedCount"]
-    },
-    capabilities: { type: Type.ARRAY, items: { type: Type.STRING } },
-    spotlightProjects: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          description: { type: Type.STRING },
-          impressiveFactor: { type: Type.STRING }
-        },
-        required: ["name", "description", "impressiveFactor"]
-      }
-    }
-  },
-  required: ["executiveSummary", "stats", "capabilities", "spotlightProjects"]
-};
+// Number of targeted re-prompts sent when the model output cannot be repaired locally.
+const MAX_REPAIR_PROMPTS = 1;
 
-const rootSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    summary: summarySchema,
-    repos: { type: Type.ARRAY, items: repoSchema },
-    actions: { type: Type.ARRAY, items: actionSchema },
-    claimsCheck: { type: Type.ARRAY, items: { type: Type.STRING } }
-  },
-  required: ["summary", "repos", "actions", "claimsCheck"]
+const parseAndRepair = <T>(text: string, repair: (raw: unknown) => RepairOutcome<T>): RepairOutcome<T> => {
+  if (!text) return unrepairable('Empty response from AI.');
+  try {
+    return repair(JSON.parse(cleanCodeBlock(text)));
+  } catch (parseError: any) {
+    return unrepairable(`Response is not valid JSON: ${parseError.message}`);
+  }
 };
 
-// --- SERVICES ---
+const buildRepairPrompt = (originalPrompt: string, previousOutput: string, issues: ValidationIssue[]): string => `
+    ${originalPrompt}
 
-export const analyzePortfolio = async (urls: string, context: string): Promise<AnalysisResult> => {
-  validateApiKey();
-  if (!urls || urls.trim().length === 0) {
-    throw new GeminiError("URLs cannot be empty.");
-  }
+    Your previous response could not be used. Fix ONLY these problems and return the complete corrected JSON:
+    ${issues.slice(0, 50).map(issue => `- ${issue.path}: ${issue.message}`).join('\n    ')}
 
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const systemInstruction = `
-    You are a Portfolio Intelligence Auditor and Engineering Signal Analyst. 
-    Your job is to analyze GitHub repositories provided by the user.
-    
-    HARD RULES:
-    1. Do NOT invent stars, forks, or traffic metrics.
-    2. Prefer conservative language.
-    3. Output STRICT JSON matching the provided schema.
-    4. If you cannot access a URL, infer what you can from the URL structure or user context, but mark status as Unknown if completely blocked.
-    5. Score repos 0-5 on audit dimensions based on typical best practices (e.g., presence of README, CI/CD configs, Tests).
+    Previous response:
+    ${previousOutput.slice(0, 20000)}
   `;
 
-  const prompt = `
-    Analyze the following GitHub URLs and Context:
-    
-    URLs:
-    ${urls}
-    
-    Context/Notes:
-    ${context}
-    
-    If specific repo details aren't accessible via the tool, use the names and context to perform a "best-effort" inferred analysis based on standard engineering patterns for such projects.
-  `;
+export interface StructuredResult<T> {
+  result: T;
+  repairs: string[];
+  // Versions of the prompt templates behind the request, e.g. "repoAudit@v1".
+  templates: string[];
+}
 
+// Requests JSON output, repairs it locally and re-prompts with the remaining
+// issues when it is malformed beyond repair. The grounding belongs to the response
+// that was used.
+const generateStructured = async <T>(
+  request: LLMRequest,
+  repair: (raw: unknown) => RepairOutcome<T>,
+  options: CallOptions
+): Promise<Omit<StructuredResult<T>, 'templates'> & { grounding?: LLMGrounding }> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: rootSchema,
-        tools: [{ googleSearch: {} }] 
+    let response = await callModel(request, options);
+
+    for (let attempt = 0; ; attempt++) {
+      const outcome = parseAndRepair(response.text, repair);
+      if (outcome.status === 'valid') {
+        if (outcome.repairs.length > 0) console.warn("Repaired AI response:", outcome.repairs);
+        return { result: outcome.result, repairs: outcome.repairs, grounding: response.grounding };
       }
-    });
 
-    if (response.text) {
-      try {
-          return JSON.parse(response.text) as AnalysisResult;
-      } catch (parseError) {
-          throw new GeminiError("Failed to parse AI response. Please try again.", parseError);
+      if (attempt >= MAX_REPAIR_PROMPTS) {
+        throw new AnalysisValidationError("AI response did not match the expected structure.", outcome.issues);
       }
-    } else {
-      throw new GeminiError("Empty response from AI. The model may be overloaded.");
+
+      response = await callModel({
+        ...request,
+        prompt: buildRepairPrompt(request.prompt, response.text, outcome.issues)
+      }, options);
     }
   } catch (error: any) {
-    console.error("Gemini Analysis Failed:", error);
-    if (error instanceof GeminiError) throw error;
-    throw new GeminiError(error.message || "Unknown error during analysis.", error);
+    const geminiError = toGeminiError(error);
+    if (geminiError.code !== 'aborted') console.error("Gemini Analysis Failed:", error);
+    throw geminiError;
   }
 };
 
-export const generateReadme = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a comprehensive README.md for:
-    Name: ${repo.name}
-    Language: ${repo.primaryLanguage}
-    Description: ${repo.description}
-    
-    Structure:
-    1. **Title & Badge Placeholder**: (CI/CD, License)
-    2. **Description**: Clear value prop.
-    3. **Project Structure**: A file tree representation showing where source code, tests, and documentation reside.
-    4. **Documentation**: EXPLICITLY state where docs are. E.g., "See \`/docs\` for detailed guides" or "Docs are inline".
-    5. **Getting Started**: Installation & Run steps.
-    6. **Contribution Guidelines**: A dedicated section explaining how to contribute (e.g., "Fork, Branch, PR, Test").
-    7. **Troubleshooting**: 2-3 common issues & solutions for ${repo.primaryLanguage}.
-    8. **Roadmap**: A checklist of 3-4 future items.
-    9. **License**: Reference the LICENSE file.
-    
-    Output raw Markdown. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate README.");
+const generateText = async (
+  request: Omit<LLMRequest, 'responseSchema'>,
+  fallback: string,
+  options: CallOptions = {}
+): Promise<string> => {
+  const response = await callModel(request, options);
+  return cleanCodeBlock(response.text || fallback);
 };
 
-export const generateCiCd = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a production-grade Github Actions Workflow (.github/workflows/ci.yml) for:
-    Repo: ${repo.name} (${repo.primaryLanguage})
-    
-    Requirements:
-    1. **Triggers**: Push to main, PRs.
-    2. **Jobs**:
-       - 'lint-and-test': Checkout, setup env, install deps, run lint (eslint/flake8), run tests, run build.
-       - 'commit-lint': Check conventional commits.
-       - 'deploy-docs': 
-         - Runs only on push to main && success.
-         - Permissions: contents:read, pages:write, id-token:write.
-         - Tooling: Use 'typedoc' (if TS/JS) or 'mkdocs' (if Python) to build static site.
-         - Deploy: Use 'actions/upload-pages-artifact' & 'actions/deploy-pages'.
-    
-    Output raw YAML. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate CI/CD configuration.");
+// In update mode the hand-written Markdown sections of the existing file survive
+// whatever the model returned.
+const preserveHandWritten = (file: GeneratedFile, context: RepoContextBundle): GeneratedFile => {
+  const existing = context.existing.find(f => f.path === file.path);
+  if (context.mode !== 'update' || !existing || file.language !== 'markdown') return file;
+  return { ...file, content: mergeMarkdownSections(existing.content, file.content) };
 };
 
-export const generateDocStrategy = async (summary: PortfolioSummary): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Design a "Documentation-as-Code" Strategy for this portfolio:
-    Repos: ${summary.stats.totalRepos}
-    Langs: ${Object.keys(summary.stats.languages).join(', ')}
-    
-    Cover:
-    1. **Taxonomy**: Standard folder structure (e.g., /docs/architecture, /docs/api).
-    2. **Tooling**: 
-       - JS/TS: Recommend Docusaurus or TypeDoc.
-       - Python: Recommend MkDocs with Material theme.
-    3. **CI/CD Integration**: How to auto-build/deploy docs on merge.
-    4. **Maintenance**: Strategy for keeping docs in sync (e.g., "Doc Tests", PR checklists).
-    
-    Output raw Markdown. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate Strategy.");
-};
-
-export const generateLicense = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a standard LICENSE (MIT or Apache 2.0) for "${repo.name}".
-    Copyright Year: ${new Date().getFullYear()}.
-    Holder: The ${repo.name} Contributors.
-    Output raw text.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate License.");
-};
-
-export const generateCommitConfig = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a config file for Conventional Commits.
-    Language: ${repo.primaryLanguage}.
-    
-    Rules:
-    - If JS/TS: Generate 'commitlint.config.js'.
-    - If Python/Go/Other: Generate '.pre-commit-config.yaml' with 'commitizen' hook.
-    
-    Output raw code. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate Commit Config.");
+// Generates the file(s) for one artifact. With `multiFile`, output listing files under
+// `### path` headings is split; anything else is a single file at `defaultPath`.
+// Every file records the template version that produced it.
+const generateFiles = async (
+  request: Omit<LLMRequest, 'responseSchema' | 'prompt'>,
+  { prompt, version }: RenderedPrompt,
+  fallback: string,
+  defaultPath: string,
+  context: RepoContextBundle,
+  options: CallOptions,
+  multiFile = false
+): Promise<GeneratedFile[]> => {
+  const text = await generateText({ ...request, prompt }, fallback, options);
+  const files = multiFile ? parseGeneratedFiles(text, defaultPath) : [toGeneratedFile(defaultPath, text)];
+  return files.map(file => ({ ...preserveHandWritten(file, context), template: version }));
 };
 
-export const generateIssueTemplates = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate GitHub Issue Templates for: ${repo.name}.
-    
-    Produce two separate markdown files content in one output:
-    1. **.github/ISSUE_TEMPLATE/bug_report.md**
-    2. **.github/ISSUE_TEMPLATE/feature_request.md**
-    
-    Standardize fields (Description, Steps to Reproduce, Expected Behavior, Environment).
-    
-    Output format:
-    ### .github/ISSUE_TEMPLATE/bug_report.md
-    [Content...]
-    
-    ### .github/ISSUE_TEMPLATE/feature_request.md
-    [Content...]
-    
-    No code fences.
-  `;
+// --- SERVICES ---
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
+// Phase 1 of a portfolio analysis: audits a single repository against the rubric.
+export const analyzeRepository = async (
+  url: string,
+  context: string,
+  facts?: RepoFacts,
+  options: CallOptions = {},
+  rubric: Rubric = DEFAULT_RUBRIC
+): Promise<StructuredResult<RepoAnalysis>> => {
+  if (!url || url.trim().length === 0) {
+    throw new GeminiError("URL cannot be empty.");
+  }
 
-  return cleanCodeBlock(response.text || "Failed to generate Issue Templates.");
+  const instruction = renderPrompt('auditorInstruction', auditorVariables());
+  const { prompt, version } = renderPrompt('repoAudit', repoAuditVariables(url, context, facts, rubric));
+
+  const { result, repairs, grounding } = await generateStructured(
+    { task: 'repoAudit', tier: 'pro', prompt, systemInstruction: instruction.prompt, responseSchema: repoSchemaFor(rubric), useSearch: true },
+    raw => repairRepoAnalysis(raw, rubric),
+    { timeoutMs: REPO_TIMEOUT_MS, ...options }
+  );
+
+  const cited = citeRepoAnalysis(result, grounding);
+  const repo = facts ? { ...cited, facts } : cited;
+  return {
+    result: facts ? { ...repo, audit: reconcileWithBaseline(repo.audit, computeBaseline(facts, dimensionIds(rubric))) } : repo,
+    repairs,
+    templates: [instruction.version, version],
+  };
 };
 
-export const generateSecurityPolicy = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a SECURITY.md file for ${repo.name}.
-    
-    Include:
-    - Supported versions (e.g., "Latest release").
-    - Reporting a vulnerability (e.g., "Email security@example.com").
-    - Expected response time.
-    
-    Output raw Markdown. No fences.
-  `;
+// Phase 2 of a portfolio analysis: executive summary, action plan and claims check
+// over the repositories audited in phase 1. Claims and spotlight projects carry the
+// sources the search grounding tied to them.
+export const summarizePortfolio = async (
+  repos: RepoAnalysis[],
+  context: string,
+  options: CallOptions = {},
+  rubric: Rubric = DEFAULT_RUBRIC
+): Promise<StructuredResult<PortfolioSynthesis>> => {
+  if (repos.length === 0) {
+    throw new GeminiError("No analyzed repositories to summarize.");
+  }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
+  const instruction = renderPrompt('auditorInstruction', auditorVariables());
+  const { prompt, version } = renderPrompt('portfolioSummary', portfolioSummaryVariables(repos, context, rubric));
 
-  return cleanCodeBlock(response.text || "Failed to generate Security Policy.");
+  const { result, repairs, grounding } = await generateStructured(
+    { task: 'portfolioSummary', tier: 'pro', prompt, systemInstruction: instruction.prompt, responseSchema: portfolioSchema, useSearch: true },
+    raw => repairPortfolioSynthesis(raw, repos, context),
+    { timeoutMs: SUMMARY_TIMEOUT_MS, ...options }
+  );
+  return { result: citeSynthesis(result, grounding, repos), repairs, templates: [instruction.version, version] };
 };
 
-export const generateCodeOfConduct = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Generate a CODE_OF_CONDUCT.md (Contributor Covenant v2.1) for ${repo.name}.
-    Include standard sections: Our Pledge, Our Standards, Enforcement, Attribution.
-    
-    Output raw Markdown. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate Code of Conduct.");
+export const generateReadme = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'readme', tier: 'flash' },
+    renderPrompt('readme', generatorVariables(repo, context, 'readme')),
+    "Failed to generate README.",
+    'README.md',
+    context,
+    options
+  );
+
+export const generateCiCd = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {},
+  target: CiTarget = defaultCiTarget(repo.url)
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'cicd', tier: 'pro' },
+    renderPrompt('cicd', generatorVariables(repo, context, 'cicd', target)),
+    "Failed to generate CI/CD configuration.",
+    CI_TARGETS[target].path,
+    context,
+    options,
+    true
+  );
+
+export const generateDocStrategy = async (
+  summary: PortfolioSummary,
+  options: CallOptions = {},
+  profile: OrganizationProfile = DEFAULT_ORG_PROFILE
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'docStrategy', tier: 'pro' },
+    renderPrompt('docStrategy', docStrategyVariables(summary, profile)),
+    "Failed to generate Strategy.",
+    'docs/DOCUMENTATION_STRATEGY.md',
+    EMPTY_CONTEXT,
+    options
+  );
+
+export const generateCommitConfig = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> => {
+  const defaultPath = /javascript|typescript/i.test(repo.primaryLanguage) ? 'commitlint.config.js' : '.pre-commit-config.yaml';
+  return generateFiles(
+    { task: 'commitConfig', tier: 'flash' },
+    renderPrompt('commitConfig', generatorVariables(repo, context, 'commitConfig')),
+    "Failed to generate Commit Config.",
+    defaultPath,
+    context,
+    options,
+    true
+  );
 };
 
-export const generateDirectoryStructure = async (repo: RepoAnalysis): Promise<string> => {
-  validateApiKey();
-  const ai = new GoogleGenAI({ apiKey: apiKey! });
-
-  const prompt = `
-    Analyze ${repo.name} (Language: ${repo.primaryLanguage}, Frameworks: ${repo.frameworks.join(', ')}) and recommend an Optimal Standardized Directory Structure.
-    
-    Output a file tree diagram and a brief explanation of the key directories (e.g., src, tests, docs, .github).
-    
-    Example output format:
-    root/
-    ├── src/        # Source code
-    ├── tests/      # Unit and integration tests
-    ...
-    
-    Explanation:
-    ...
-    
-    Output raw text/markdown. No fences.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-  });
-
-  return cleanCodeBlock(response.text || "Failed to generate Directory Structure.");
-};
+export const generateIssueTemplates = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'issueTemplates', tier: 'flash' },
+    renderPrompt('issueTemplates', generatorVariables(repo, context, 'issueTemplates')),
+    "Failed to generate Issue Templates.",
+    '.github/ISSUE_TEMPLATE/bug_report.md',
+    context,
+    options,
+    true
+  );
+
+export const generateSecurityPolicy = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'securityPolicy', tier: 'flash' },
+    renderPrompt('securityPolicy', generatorVariables(repo, context, 'securityPolicy')),
+    "Failed to generate Security Policy.",
+    'SECURITY.md',
+    context,
+    options
+  );
+
+export const generateCodeOfConduct = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'codeOfConduct', tier: 'flash' },
+    renderPrompt('codeOfConduct', generatorVariables(repo, context, 'codeOfConduct')),
+    "Failed to generate Code of Conduct.",
+    'CODE_OF_CONDUCT.md',
+    context,
+    options
+  );
+
+export const generateDirectoryStructure = async (
+  repo: RepoAnalysis,
+  context: RepoContextBundle = EMPTY_CONTEXT,
+  options: CallOptions = {}
+): Promise<GeneratedFile[]> =>
+  generateFiles(
+    { task: 'directoryStructure', tier: 'flash' },
+    renderPrompt('directoryStructure', generatorVariables(repo, context, 'directoryStructure')),
+    "Failed to generate Directory Structure.",
+    'docs/DIRECTORY_STRUCTURE.md',
+    context,
+    options
+  );
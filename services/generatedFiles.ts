@@ -0,0 +1,81 @@
+import { GeneratedFile } from '../types';
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  md: 'markdown',
+  yml: 'yaml',
+  yaml: 'yaml',
+  json: 'json',
+  js: 'javascript',
+  cjs: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  toml: 'toml',
+  py: 'python',
+  sh: 'shell',
+  groovy: 'groovy',
+};
+
+const LANGUAGE_BY_NAME: Record<string, string> = {
+  Jenkinsfile: 'groovy',
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+  LICENSE: 'text',
+};
+
+export const languageForPath = (path: string): string => {
+  const name = path.split('/').pop() || path;
+  if (LANGUAGE_BY_NAME[name]) return LANGUAGE_BY_NAME[name];
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return LANGUAGE_BY_EXTENSION[extension] || 'text';
+};
+
+// Files always end with a newline so patches and `git diff` stay clean.
+const withTrailingNewline = (content: string) => (content.endsWith('\n') ? content : `${content}\n`);
+
+// Models sometimes wrap each file in its own fence despite being told not to.
+const stripFence = (content: string) => content.replace(/^```[\w-]*\n([\s\S]*?)\n```$/, '$1');
+
+// A path relative to the repository root with no way out of it: no `..` segment, no
+// leading `/`, no drive letter and no backslashes. Returns the path without `.` and empty
+// segments, or null when it is unsafe.
+export const safeRelativePath = (path: string): string | null => {
+  if (path.includes('\\') || path.startsWith('/') || /^[A-Za-z]:/.test(path)) return null;
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+};
+
+export const toGeneratedFile = (path: string, content: string): GeneratedFile => ({
+  path: path.replace(/^\/+/, ''),
+  content: withTrailingNewline(stripFence(content.trim())),
+  language: languageForPath(path),
+});
+
+// A heading that names a file on its own line, e.g. `### .github/workflows/ci.yml`.
+const FILE_HEADING = /^#{2,3}\s+\**`?((?:[\w.-]+\/)*[\w.-]*(?:\.\w+|Jenkinsfile|LICENSE|Dockerfile|Makefile))`?\**\s*$/gm;
+
+// Splits output that lists several files under `### path` headings. Output without
+// such headings is a single file at `defaultPath`, and so is text before the first
+// heading unless a heading names `defaultPath` itself. Files whose heading path would
+// leave the repository are dropped.
+export const parseGeneratedFiles = (text: string, defaultPath: string): GeneratedFile[] => {
+  const matches = Array.from(text.matchAll(FILE_HEADING));
+  if (matches.length === 0) return text.trim() ? [toGeneratedFile(defaultPath, text)] : [];
+
+  const headed = matches
+    .map((match, i) => {
+      const path = safeRelativePath(match[1]);
+      if (!path) {
+        console.warn(`Dropped generated file with unsafe path "${match[1]}".`);
+        return null;
+      }
+      const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+      return toGeneratedFile(path, text.slice(match.index! + match[0].length, end));
+    })
+    .filter((file): file is GeneratedFile => !!file && file.content.trim() !== '');
+
+  const preamble = text.slice(0, matches[0].index!);
+  const keepPreamble = preamble.trim() !== '' && !headed.some(file => file.path === defaultPath);
+  return keepPreamble ? [toGeneratedFile(defaultPath, preamble), ...headed] : headed;
+};
+
@@ -0,0 +1,141 @@
+import { RepoAnalysis } from '../types';
+import { ArtifactFile, contextPathsFor } from './artifactApply';
+import { MANIFESTS } from './factCollector';
+import { LocalCheckout, readCheckoutFile } from './localCheckout';
+import { parseGitHubReference } from './githubUrls';
+import { RepoSource } from './repoSource';
+import { isAbortError } from './requestPolicy';
+import { LLMTask } from './llmProvider';
+import { OrganizationProfile } from './orgProfile';
+
+// 'create' writes a fresh file informed by the context; 'update' improves the
+// existing file and keeps its hand-written sections.
+export type GenerationMode = 'create' | 'update';
+
+export interface RepoContextBundle {
+  mode: GenerationMode;
+  // Current versions of the files the generator is about to produce.
+  existing: ArtifactFile[];
+  manifests: ArtifactFile[];
+  // Where the files were read from, for display.
+  sourceLabel?: string;
+  // Organization facts the output must state; generators fall back to DEFAULT_ORG_PROFILE.
+  profile?: OrganizationProfile;
+}
+
+export const EMPTY_CONTEXT: RepoContextBundle = { mode: 'create', existing: [], manifests: [] };
+
+export interface ContextReader {
+  label: string;
+  // Remote readers pay a request per file, so only common manifests are probed.
+  remote?: boolean;
+  readFile: (path: string, signal?: AbortSignal) => Promise<string | null>;
+}
+
+// Large files are cut so the prompt stays within the flash model's budget.
+const MAX_FILE_CHARS = 6000;
+const COMMON_MANIFESTS = ['package.json', 'pyproject.toml', 'requirements.txt', 'go.mod', 'Cargo.toml'];
+
+// --- READERS ---
+export const readerFromSource = (source: RepoSource): ContextReader => {
+  const files = new Map(source.files.map(file => [file.path, file]));
+  return {
+    label: `${source.kind === 'archive' ? 'archive' : 'folder'} ${source.name}`,
+    readFile: async path => (files.has(path) ? files.get(path)!.text() : null),
+  };
+};
+
+export const readerFromCheckout = (checkout: LocalCheckout): ContextReader => ({
+  label: `checkout ${checkout.name}`,
+  readFile: path => readCheckoutFile(checkout, path),
+});
+
+// Reads the default branch of a public GitHub repository; returns null for other hosts.
+export const createGitHubRawReader = (repoUrl: string, baseUrl = 'https://raw.githubusercontent.com'): ContextReader | null => {
+  const target = parseGitHubReference(repoUrl);
+  if (target?.kind !== 'repo') return null;
+  return {
+    label: `github.com/${target.owner}/${target.repo}`,
+    remote: true,
+    async readFile(path, signal) {
+      const response = await fetch(`${baseUrl}/${target.owner}/${target.repo}/HEAD/${path}`, { signal });
+      return response.ok ? response.text() : null;
+    },
+  };
+};
+
+// --- COLLECTION ---
+const truncate = (content: string) =>
+  content.length > MAX_FILE_CHARS ? `${content.slice(0, MAX_FILE_CHARS)}\n... [truncated]` : content;
+
+const readAll = async (reader: ContextReader, paths: string[], signal?: AbortSignal): Promise<ArtifactFile[]> => {
+  const files = await Promise.all(paths.map(async path => {
+    try {
+      const content = await reader.readFile(path, signal);
+      return content === null ? null : { path, content };
+    } catch (error) {
+      // A missing or unreadable file is simply absent from the context.
+      if (isAbortError(error)) throw error;
+      return null;
+    }
+  }));
+  return files.filter((f): f is ArtifactFile => !!f);
+};
+
+export const collectRepoContext = async (
+  repo: RepoAnalysis,
+  task: LLMTask,
+  reader: ContextReader | null,
+  mode: GenerationMode,
+  signal?: AbortSignal,
+  profile?: OrganizationProfile
+): Promise<RepoContextBundle> => {
+  if (!reader) return { ...EMPTY_CONTEXT, mode, profile };
+
+  const manifestPaths = repo.facts?.manifests.length
+    ? repo.facts.manifests
+    : reader.remote ? COMMON_MANIFESTS : Array.from(MANIFESTS);
+
+  const [existing, manifests] = await Promise.all([
+    readAll(reader, contextPathsFor(task), signal),
+    readAll(reader, manifestPaths, signal),
+  ]);
+  return { mode, existing, manifests, sourceLabel: reader.label, profile };
+};
+
+// --- PROMPT ---
+const fenced = (file: ArtifactFile) => `--- ${file.path} ---\n${truncate(file.content)}\n--- end of ${file.path} ---`;
+
+// Renders the audit findings and repository files shared by every generator prompt.
+export const renderContextPrompt = (repo: RepoAnalysis, context: RepoContextBundle): string => {
+  const sections = [
+    `Audit Findings for ${repo.name}:`,
+    `- Status: ${repo.status}. Frameworks: ${repo.frameworks.join(', ') || 'none detected'}.`,
+    `- Rationale: ${repo.audit.rationale}`,
+    ...(repo.audit.topFixes.length > 0 ? [`- Top fixes: ${repo.audit.topFixes.join('; ')}`] : []),
+  ];
+
+  if (repo.facts) {
+    const f = repo.facts;
+    sections.push(
+      `- Collected facts: CI workflows [${f.ciWorkflows.join(', ')}], test runners [${f.testRunners.join(', ')}], ` +
+      `linters [${f.linters.join(', ')}], lockfiles [${f.lockfiles.join(', ')}], type checking: ${f.hasTypeChecking ? 'yes' : 'no'}.`
+    );
+  }
+
+  if (context.manifests.length > 0) {
+    sections.push('', 'Manifest files (use the real scripts, commands and dependencies from these; do not invent others):');
+    sections.push(...context.manifests.map(fenced));
+  }
+
+  if (context.existing.length > 0) {
+    sections.push('', 'Existing files in the repository:');
+    sections.push(...context.existing.map(fenced));
+    sections.push(context.mode === 'update'
+      ? 'UPDATE MODE: Improve the existing file(s) in place. Keep every hand-written section, its wording and its order. ' +
+        'Only fix outdated or incorrect content, and add sections that are missing. Keep existing headings unchanged.'
+      : 'Use the existing file(s) as the starting point: keep accurate project-specific details and replace generic or outdated content.');
+  }
+
+  return sections.join('\n');
+};
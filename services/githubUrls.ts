@@ -0,0 +1,87 @@
+export type GitHubTarget =
+  | { kind: 'repo'; owner: string; repo: string; url: string }
+  | { kind: 'owner'; owner: string; url: string };
+
+export interface ParsedInput {
+  // Unique targets in input order; repos and owners are deduplicated case-insensitively.
+  targets: GitHubTarget[];
+  invalid: string[];
+}
+
+const GITHUB_HOST = /^(?:www\.)?github\.com$/i;
+const NAME = /^[A-Za-z0-9._-]+$/;
+
+// Top-level github.com paths that are not user or organization profiles.
+const RESERVED_OWNERS = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'explore', 'features', 'issues', 'login', 'marketplace',
+  'new', 'notifications', 'orgs', 'pricing', 'pulls', 'search', 'settings', 'sponsors', 'topics', 'trending',
+]);
+
+export const repoUrl = (owner: string, repo: string) => `https://github.com/${owner}/${repo}`;
+export const ownerUrl = (owner: string) => `https://github.com/${owner}`;
+
+export const targetKey = (target: GitHubTarget) =>
+  (target.kind === 'repo' ? `${target.owner}/${target.repo}` : target.owner).toLowerCase();
+
+const toTarget = (owner: string, repo?: string): GitHubTarget | null => {
+  if (!NAME.test(owner) || RESERVED_OWNERS.has(owner.toLowerCase())) return null;
+  if (repo === undefined) return { kind: 'owner', owner, url: ownerUrl(owner) };
+  const name = repo.replace(/\.git$/i, '');
+  if (!NAME.test(name) || name === '.' || name === '..') return null;
+  return { kind: 'repo', owner, repo: name, url: repoUrl(owner, name) };
+};
+
+// Accepts full URLs (any sub-path such as /tree/main is dropped), scheme-less
+// `github.com/...`, SSH remotes (`git@github.com:owner/repo.git`), `owner/repo`
+// shorthand and `@owner` for a profile or organization.
+export const parseGitHubReference = (raw: string): GitHubTarget | null => {
+  const input = raw.trim();
+  if (!input) return null;
+
+  const ssh = input.match(/^git@github\.com:([^/]+)\/([^/]+?)\/?$/i);
+  if (ssh) return toTarget(ssh[1], ssh[2]);
+
+  if (input.startsWith('@')) return toTarget(input.slice(1));
+
+  const hasHost = /^(?:[a-z+]+:\/\/)?(?:www\.)?github\.com(?:[/:?#]|$)/i.test(input);
+  if (hasHost) {
+    let url: URL;
+    try {
+      url = new URL(/^[a-z+]+:\/\//i.test(input) ? input : `https://${input}`);
+    } catch {
+      return null;
+    }
+    if (!GITHUB_HOST.test(url.hostname)) return null;
+    const segments = url.pathname.split('/').filter(Boolean);
+    // Organization pages also live under /orgs/{org}.
+    const [owner, repo] = segments[0]?.toLowerCase() === 'orgs' ? segments.slice(1, 2) : segments;
+    if (!owner) return null;
+    return toTarget(owner, repo);
+  }
+
+  // Bare `owner/repo`; anything with a scheme or a dot-qualified host is another forge.
+  const shorthand = input.match(/^([^/\s:]+)\/([^/\s:]+?)\/?$/);
+  if (shorthand && !shorthand[1].includes('.')) return toTarget(shorthand[1], shorthand[2]);
+
+  return null;
+};
+
+export const parseGitHubInput = (text: string): ParsedInput => {
+  const seen = new Set<string>();
+  const targets: GitHubTarget[] = [];
+  const invalid: string[] = [];
+
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    const target = parseGitHubReference(token);
+    if (!target) {
+      invalid.push(token);
+      continue;
+    }
+    const key = targetKey(target);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    targets.push(target);
+  }
+
+  return { targets, invalid };
+};
@@ -0,0 +1,83 @@
+import { AnalysisRecord, AnalysisResult, InputState } from '../types';
+import { GeminiError } from './errors';
+import { upgradeLegacyResult } from './rubrics';
+import { upgradeLegacyClaims } from './claims';
+
+const DB_NAME = 'portfolio-signal';
+const DB_VERSION = 1;
+const ANALYSES_STORE = 'analyses';
+
+// --- UTILITIES ---
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new GeminiError("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new GeminiError("Failed to open analysis history.", request.error));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(ANALYSES_STORE, mode).objectStore(ANALYSES_STORE)));
+};
+
+// --- SERVICES ---
+// Pass `id` to overwrite an existing record (e.g. after retrying part of a run). The
+// record keeps its place in History: `createdAt` is preserved and `updatedAt` is set.
+export const saveAnalysis = async (input: InputState, result: AnalysisResult, id?: string): Promise<AnalysisRecord> => {
+  const now = new Date().toISOString();
+  const existing = id ? await withStore<AnalysisRecord | undefined>('readonly', store => store.get(id)) : undefined;
+  const record: AnalysisRecord = {
+    id: id || crypto.randomUUID(),
+    createdAt: existing?.createdAt ?? now,
+    ...(existing && { updatedAt: now }),
+    input,
+    result,
+  };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+// Records saved before rubrics keep their scores as top-level audit fields, and
+// records saved before claims were objects keep them as plain sentences.
+const upgradeRecord = (record: AnalysisRecord): AnalysisRecord => ({ ...record, result: upgradeLegacyClaims(upgradeLegacyResult(record.result)) });
+
+// Newest first.
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await withStore<AnalysisRecord[]>('readonly', store => store.index('createdAt').getAll());
+  return records.reverse().map(upgradeRecord);
+};
+
+export const getAnalysis = async (id: string): Promise<AnalysisRecord | undefined> => {
+  const record = await withStore<AnalysisRecord | undefined>('readonly', store => store.get(id));
+  return record && upgradeRecord(record);
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,236 @@
+import { ActionItem, ActionStatus, RepoAnalysis } from '../types';
+import { codeForStatus, GeminiError } from './errors';
+import { parseGitHubReference } from './githubUrls';
+import { ZipInput } from './zipWriter';
+import { downloadBlob } from './download';
+
+// What an exporter needs from an action; tracked actions also carry their owner and dates.
+export interface IssueSource {
+  item: ActionItem;
+  status?: ActionStatus;
+  assignee?: string;
+  dueDate?: string;
+}
+
+export interface IssueDraft {
+  source: IssueSource;
+  // `owner/name` when the action's repo is on GitHub.
+  repoSlug?: string;
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+// --- LABELS ---
+export const priorityLabel = (priority: ActionItem['priority']) => `priority: ${priority.toLowerCase()}`;
+export const effortLabel = (effort: ActionItem['effort']) => `effort: ${effort.toLowerCase()}`;
+
+const issueBody = ({ item }: IssueSource): string =>
+  [
+    item.rationale,
+    '',
+    `**Impact:** ${item.impact}`,
+    `**Priority:** ${item.priority}`,
+    `**Effort:** ${item.effort}`,
+    '',
+    '_Exported from the PortfolioSignal action plan._',
+  ].join('\n');
+
+export const buildIssueDrafts = (sources: IssueSource[], repos: RepoAnalysis[]): IssueDraft[] =>
+  sources.map(source => {
+    const repo = repos.find(r => r.name.toLowerCase() === source.item.repo.toLowerCase());
+    const target = repo ? parseGitHubReference(repo.url) : null;
+    return {
+      source,
+      repoSlug: target?.kind === 'repo' ? `${target.owner}/${target.repo}` : undefined,
+      title: source.item.title,
+      body: issueBody(source),
+      labels: [priorityLabel(source.item.priority), effortLabel(source.item.effort)],
+    };
+  });
+
+// --- GITHUB ---
+export interface GitHubIssueConfig {
+  // REST API root; GitHub Enterprise uses https://<host>/api/v3, a mock server its own URL.
+  baseUrl?: string;
+  token: string;
+}
+
+export interface IssueResult {
+  draft: IssueDraft;
+  status: 'created' | 'exists' | 'failed';
+  url?: string;
+  error?: string;
+}
+
+interface GitHubIssue {
+  title: string;
+  html_url: string;
+  pull_request?: unknown;
+}
+
+// `path` is relative to the API root; pagination links arrive as absolute URLs.
+const githubRequest = async (config: GitHubIssueConfig, path: string, init: RequestInit = {}): Promise<Response> => {
+  const baseUrl = (config.baseUrl || 'https://api.github.com').replace(/\/$/, '');
+  let response: Response;
+  try {
+    response = await fetch(/^https?:\/\//.test(path) ? path : `${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${config.token}`,
+        ...(init.body && { 'Content-Type': 'application/json' }),
+      },
+    });
+  } catch (error) {
+    throw new GeminiError(`Could not reach ${baseUrl}.`, error, 'network');
+  }
+  if (response.status === 401) throw new GeminiError("GitHub rejected the token.");
+  if (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0') {
+    throw new GeminiError("GitHub API rate limit reached.", undefined, 'rate_limited');
+  }
+  if (response.status === 404) throw new GeminiError("Repository not found, or the token cannot see it.");
+  if (response.status === 410) throw new GeminiError("Issues are disabled for this repository.");
+  if (!response.ok) {
+    throw new GeminiError(`GitHub API returned ${response.status} ${response.statusText}.`, undefined, codeForStatus(response.status));
+  }
+  return response;
+};
+
+const nextPageUrl = (response: Response): string | null =>
+  response.headers.get('link')?.match(/<([^>]+)>\s*;\s*rel="next"/)?.[1] ?? null;
+
+// Titles of all the repo's issues (open and closed), so a second export does not duplicate them.
+// The issues endpoint also lists pull requests; those are skipped.
+const existingIssueTitles = async (config: GitHubIssueConfig, slug: string, signal?: AbortSignal): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  let next: string | null = `/repos/${slug}/issues?state=all&per_page=100`;
+  while (next) {
+    const response = await githubRequest(config, next, { signal });
+    const issues: GitHubIssue[] = await response.json();
+    issues.forEach(issue => {
+      if (!issue.pull_request) titles.set(issue.title.trim().toLowerCase(), issue.html_url);
+    });
+    next = nextPageUrl(response);
+  }
+  return titles;
+};
+
+// Creates one issue per draft, one request at a time. Drafts whose title already exists
+// in the repo are skipped; a failing repo does not stop the others.
+export const createGitHubIssues = async (
+  drafts: IssueDraft[],
+  config: GitHubIssueConfig,
+  onResult?: (result: IssueResult) => void,
+  signal?: AbortSignal
+): Promise<IssueResult[]> => {
+  if (!config.token.trim()) throw new GeminiError("A GitHub token with issue write access is needed.");
+  const results: IssueResult[] = [];
+  const existing = new Map<string, Map<string, string>>();
+  const report = (result: IssueResult) => {
+    results.push(result);
+    onResult?.(result);
+  };
+
+  for (const draft of drafts) {
+    if (signal?.aborted) break;
+    if (!draft.repoSlug) {
+      report({ draft, status: 'failed', error: "Not a GitHub repository." });
+      continue;
+    }
+    try {
+      if (!existing.has(draft.repoSlug)) existing.set(draft.repoSlug, await existingIssueTitles(config, draft.repoSlug, signal));
+      const titles = existing.get(draft.repoSlug)!;
+      const url = titles.get(draft.title.trim().toLowerCase());
+      if (url) {
+        report({ draft, status: 'exists', url });
+        continue;
+      }
+      const response = await githubRequest(config, `/repos/${draft.repoSlug}/issues`, {
+        method: 'POST',
+        signal,
+        body: JSON.stringify({ title: draft.title, body: draft.body, labels: draft.labels }),
+      });
+      const issue: GitHubIssue = await response.json();
+      titles.set(draft.title.trim().toLowerCase(), issue.html_url);
+      report({ draft, status: 'created', url: issue.html_url });
+    } catch (error: any) {
+      if (signal?.aborted) break;
+      report({ draft, status: 'failed', error: error.message });
+    }
+  }
+  return results;
+};
+
+// --- FILES ---
+const csvCell = (value: string | undefined) => {
+  const text = value ?? '';
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Offline bundle for `gh`: the issues as JSON and CSV plus a script that creates them.
+export const ghBundle = (drafts: IssueDraft[]): ZipInput[] => {
+  const issues = drafts
+    .filter(d => d.repoSlug)
+    .map(d => ({ repo: d.repoSlug!, title: d.title, body: d.body, labels: d.labels }));
+  const script = [
+    '#!/bin/sh',
+    '# Creates the exported issues with the GitHub CLI. Labels that do not exist yet are created first.',
+    'set -e',
+    ...Array.from(new Set(issues.flatMap(i => i.labels.map(label => `gh label create ${shellQuote(label)} --repo ${shellQuote(i.repo)} --force`)))),
+    ...issues.map(i =>
+      ['gh issue create', `--repo ${shellQuote(i.repo)}`, `--title ${shellQuote(i.title)}`, `--body ${shellQuote(i.body)}`, ...i.labels.map(l => `--label ${shellQuote(l)}`)].join(' ')
+    ),
+    '',
+  ].join('\n');
+  return [
+    { path: 'issues.json', content: JSON.stringify(issues, null, 2) + '\n' },
+    { path: 'issues.csv', content: toCsv(['repo', 'title', 'body', 'labels'], issues.map(i => [i.repo, i.title, i.body, i.labels.join(',')])) },
+    { path: 'create-issues.sh', content: script },
+  ];
+};
+
+const JIRA_STATUS: Record<ActionStatus, string> = { todo: 'To Do', inProgress: 'In Progress', done: 'Done', wontDo: "Won't Do" };
+
+// Jira's importer reads repeated "Labels" columns as separate labels, and labels cannot contain spaces.
+export const jiraCsv = (drafts: IssueDraft[]): string => {
+  const jiraLabel = (label: string) => label.replace(/:\s*/g, '-').replace(/\s+/g, '-');
+  return toCsv(
+    ['Summary', 'Issue Type', 'Priority', 'Status', 'Labels', 'Labels', 'Labels', 'Assignee', 'Due Date', 'Description'],
+    drafts.map(d => [
+      d.title,
+      'Task',
+      d.source.item.priority,
+      d.source.status && JIRA_STATUS[d.source.status],
+      ...d.labels.map(jiraLabel),
+      `repo-${d.source.item.repo.replace(/[^\w.-]+/g, '-')}`,
+      d.source.assignee,
+      d.source.dueDate,
+      d.body,
+    ])
+  );
+};
+
+const LINEAR_STATUS: Record<ActionStatus, string> = { todo: 'Todo', inProgress: 'In Progress', done: 'Done', wontDo: 'Canceled' };
+
+export const linearCsv = (drafts: IssueDraft[]): string =>
+  toCsv(
+    ['Title', 'Description', 'Priority', 'Status', 'Labels', 'Assignee', 'Due Date'],
+    drafts.map(d => [
+      d.title,
+      d.body,
+      d.source.item.priority,
+      d.source.status && LINEAR_STATUS[d.source.status],
+      [...d.labels, `repo: ${d.source.item.repo}`].join(', '),
+      d.source.assignee,
+      d.source.dueDate,
+    ])
+  );
+
+export const downloadText = (text: string, fileName: string, type = 'text/csv') =>
+  downloadBlob(new Blob([text], { type }), fileName);
@@ -0,0 +1,226 @@
+import { RepoAnalysis } from '../types';
+import { ContextReader } from './generatorContext';
+import { identifyLicenseText } from './licenseTemplates';
+
+export type LicenseFindingKind = 'missing' | 'unrecognized' | 'conflict' | 'dependency' | 'unreadable';
+
+export interface LicenseFinding {
+  kind: LicenseFindingKind;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface RepoLicenseReport {
+  repo: string;
+  // SPDX ids identified from license files, keyed by path.
+  files: Record<string, string | null>;
+  // SPDX ids declared in manifests, keyed by manifest path.
+  declared: Record<string, string[]>;
+  // The license the repository is taken to be under, if one could be determined.
+  effective: string | null;
+  findings: LicenseFinding[];
+}
+
+// --- SOURCES ---
+const LICENSE_FILES = ['LICENSE', 'LICENSE.md', 'LICENSE.txt', 'LICENCE', 'COPYING', 'LICENSE-MIT', 'LICENSE-APACHE'];
+// Manifests that declare a license or list dependencies.
+const MANIFEST_PATHS = ['package.json', 'composer.json', 'pyproject.toml', 'Cargo.toml', 'setup.py', 'requirements.txt', 'go.mod', 'pom.xml'];
+
+// Drops "-only" / "-or-later" / "+" so texts (which cannot carry that distinction) compare with declarations.
+export const licenseFamily = (id: string) => id.replace(/(-only|-or-later|\+)$/i, '');
+
+// Trove's "BSD License" classifier does not say which BSD variant applies.
+const ANY_BSD = 'BSD';
+
+const sameFamily = (a: string, b: string) => {
+  const [x, y] = [licenseFamily(a), licenseFamily(b)];
+  return x === y || (x === ANY_BSD && y.startsWith('BSD-')) || (y === ANY_BSD && x.startsWith('BSD-'));
+};
+
+// Splits an SPDX expression such as "(MIT OR Apache-2.0)" into its ids.
+const spdxIds = (expression: string): string[] =>
+  expression
+    .replace(/[()]/g, ' ')
+    .split(/\s+(?:OR|AND)\s+|\s+WITH\s+\S+/i)
+    .map(id => id.trim())
+    .filter(Boolean);
+
+const CLASSIFIER_IDS: Record<string, string> = {
+  'MIT License': 'MIT',
+  'Apache Software License': 'Apache-2.0',
+  'BSD License': ANY_BSD,
+  'ISC License (ISCL)': 'ISC',
+  'Mozilla Public License 2.0 (MPL 2.0)': 'MPL-2.0',
+  'GNU General Public License v3 (GPLv3)': 'GPL-3.0',
+  'GNU General Public License v2 (GPLv2)': 'GPL-2.0',
+  'GNU Lesser General Public License v3 (LGPLv3)': 'LGPL-3.0',
+  'GNU Affero General Public License v3': 'AGPL-3.0',
+};
+
+const declaredLicenses = (path: string, content: string): string[] => {
+  if (path.endsWith('.json')) {
+    try {
+      const manifest: { license?: unknown; licenses?: unknown } = JSON.parse(content) ?? {};
+      const license = manifest.license ?? manifest.licenses;
+      // Older npm manifests list licenses as { type, url } objects.
+      const values = Array.isArray(license)
+        ? license.map((l: unknown) => (typeof l === 'object' && l !== null && 'type' in l ? l.type : l))
+        : [license];
+      return values.filter((v): v is string => typeof v === 'string').flatMap(spdxIds);
+    } catch {
+      return [];
+    }
+  }
+  const ids: string[] = [];
+  const field = content.match(/^\s*license\s*=\s*(?:\{\s*text\s*=\s*)?["']([^"']+)["']/m) || content.match(/\blicense\s*=\s*["']([^"']+)["']/);
+  if (field) ids.push(...spdxIds(field[1]));
+  for (const match of content.matchAll(/License :: OSI Approved :: ([^"'\n]+)/g)) {
+    const id = CLASSIFIER_IDS[match[1].trim()];
+    if (id && !ids.includes(id)) ids.push(id);
+  }
+  return ids;
+};
+
+// --- COMPATIBILITY ---
+// Well-known packages under strong copyleft, matched by name in manifest contents.
+// Not a substitute for a full dependency license scan.
+const COPYLEFT_PACKAGES: Record<string, string> = {
+  'PyQt5': 'GPL-3.0',
+  'PyQt6': 'GPL-3.0',
+  'PyMuPDF': 'AGPL-3.0',
+  'mysql-connector-python': 'GPL-2.0',
+  'gnureadline': 'GPL-3.0',
+  'Unidecode': 'GPL-2.0',
+  'mupdf': 'AGPL-3.0',
+  'ffmpeg-static': 'GPL-3.0',
+  'ckeditor5': 'GPL-2.0',
+  'tinymce': 'GPL-2.0',
+  'itextpdf': 'AGPL-3.0',
+  'itext7-core': 'AGPL-3.0',
+  'ghostscript': 'AGPL-3.0',
+};
+
+// Project licenses that may take a dependency under each copyleft family.
+const COMPATIBLE_PROJECTS: Record<string, string[]> = {
+  'GPL-2.0': ['GPL-2.0', 'GPL-3.0', 'AGPL-3.0'],
+  'GPL-3.0': ['GPL-3.0', 'AGPL-3.0'],
+  'AGPL-3.0': ['AGPL-3.0'],
+};
+
+const mentionsPackage = (text: string, name: string) =>
+  new RegExp(`(^|["'\\s/:])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(["'\\s=<>~^@\\[:;,]|$)`, 'im').test(text);
+
+export const findCopyleftDependencies = (manifestText: string): { name: string; license: string }[] =>
+  Object.entries(COPYLEFT_PACKAGES)
+    .filter(([name]) => mentionsPackage(manifestText, name))
+    .map(([name, license]) => ({ name, license }));
+
+// --- CHECK ---
+export const checkRepoLicense = async (repo: RepoAnalysis, reader: ContextReader | null, signal?: AbortSignal): Promise<RepoLicenseReport> => {
+  const report: RepoLicenseReport = { repo: repo.name, files: {}, declared: {}, effective: null, findings: [] };
+  if (!reader) {
+    report.findings.push({ kind: 'unreadable', severity: 'warning', message: 'No local source or GitHub URL to read license files from.' });
+    return report;
+  }
+
+  const read = async (path: string) => {
+    try {
+      return await reader.readFile(path, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return null;
+    }
+  };
+  const [licenseTexts, manifestTexts] = await Promise.all([
+    Promise.all(LICENSE_FILES.map(read)),
+    Promise.all(MANIFEST_PATHS.map(read)),
+  ]);
+
+  LICENSE_FILES.forEach((path, i) => {
+    const text = licenseTexts[i];
+    if (text !== null) report.files[path] = identifyLicenseText(text);
+  });
+  MANIFEST_PATHS.forEach((path, i) => {
+    const text = manifestTexts[i];
+    const ids = text === null ? [] : declaredLicenses(path, text);
+    if (ids.length > 0) report.declared[path] = ids;
+  });
+
+  const declared = Array.from(new Set(Object.values(report.declared).flat()));
+  // LGPL-3.0 supplements the GPL, so an LGPL project ships the GPL-3.0 text in COPYING alongside it.
+  const lgpl = [...Object.values(report.files), ...declared].some(id => !!id && licenseFamily(id) === 'LGPL-3.0');
+  const fromFiles = Array.from(new Set(
+    Object.entries(report.files)
+      .filter(([path, id]) => !(lgpl && path === 'COPYING' && id === 'GPL-3.0'))
+      .map(([, id]) => id)
+      .filter((id): id is string => !!id)
+  ));
+
+  if (Object.keys(report.files).length === 0 && declared.length === 0) {
+    report.findings.push({ kind: 'missing', severity: 'error', message: 'No LICENSE file and no license declared in a manifest.' });
+  } else if (Object.keys(report.files).length === 0) {
+    report.findings.push({ kind: 'missing', severity: 'warning', message: `Declares ${declared.join(', ')} but ships no LICENSE file.` });
+  }
+  Object.entries(report.files)
+    .filter(([, id]) => id === null)
+    .forEach(([path]) => report.findings.push({ kind: 'unrecognized', severity: 'warning', message: `${path} does not match a known license text.` }));
+
+  fromFiles
+    .filter(id => declared.length > 0 && !declared.some(other => sameFamily(id, other)))
+    .forEach(id => report.findings.push({
+      kind: 'conflict',
+      severity: 'error',
+      message: `License file is ${id} but manifests declare ${declared.join(', ')}.`,
+    }));
+  const manifests = Object.entries(report.declared);
+  const disjoint = manifests.find(([, ids], i) =>
+    manifests.slice(i + 1).some(([, other]) => !ids.some(id => other.some(o => sameFamily(id, o))))
+  );
+  if (disjoint) {
+    report.findings.push({
+      kind: 'conflict',
+      severity: 'error',
+      message: `Manifests disagree: ${manifests.map(([path, ids]) => `${path} declares ${ids.join(' OR ')}`).join('; ')}.`,
+    });
+  }
+
+  report.effective = fromFiles[0] ?? (declared[0] ? licenseFamily(declared[0]) : null);
+
+  const manifestText = manifestTexts.filter((t): t is string => t !== null).join('\n');
+  if (report.effective) {
+    const projectFamilies = new Set([...fromFiles, ...declared.map(licenseFamily)]);
+    findCopyleftDependencies(manifestText).forEach(({ name, license }) => {
+      const allowed = COMPATIBLE_PROJECTS[license] || [];
+      if (!Array.from(projectFamilies).some(id => allowed.includes(id))) {
+        report.findings.push({
+          kind: 'dependency',
+          severity: 'error',
+          message: `Depends on ${name} (${license}), which is not compatible with distributing under ${Array.from(projectFamilies).join(' / ')}.`,
+        });
+      }
+    });
+  }
+
+  return report;
+};
+
+export const checkPortfolioLicenses = async (
+  repos: RepoAnalysis[],
+  readerFor: (repo: RepoAnalysis) => ContextReader | null,
+  signal?: AbortSignal
+): Promise<RepoLicenseReport[]> => {
+  const reports: RepoLicenseReport[] = [];
+  // Sequential: every repo issues a dozen reads, and raw.githubusercontent.com throttles bursts.
+  for (const repo of repos) reports.push(await checkRepoLicense(repo, readerFor(repo), signal));
+  return reports;
+};
+
+// Licenses used across the portfolio, most common first; more than one is worth a look.
+export const portfolioLicenseMix = (reports: RepoLicenseReport[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  reports.forEach(report => {
+    const key = report.effective ?? 'none';
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts).sort((a, b) => b[1] - a[1]);
+};
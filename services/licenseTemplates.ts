@@ -0,0 +1,211 @@
+import { GeneratedFile } from '../types';
+import { languageForPath } from './generatedFiles';
+import { APACHE_2_0 } from './licenses/apache-2.0';
+import { GPL_3_0 } from './licenses/gpl-3.0';
+import { LGPL_3_0 } from './licenses/lgpl-3.0';
+import { MPL_2_0 } from './licenses/mpl-2.0';
+
+export type LicenseId =
+  | 'MIT'
+  | 'Apache-2.0'
+  | 'BSD-2-Clause'
+  | 'BSD-3-Clause'
+  | 'ISC'
+  | 'MPL-2.0'
+  | 'LGPL-3.0-or-later'
+  | 'GPL-3.0-or-later'
+  | 'Unlicense';
+
+export interface LicenseSelection {
+  id: LicenseId;
+  holder: string;
+  year: string;
+}
+
+export interface LicenseSpec {
+  name: string;
+  // Whether the text itself carries a copyright line, i.e. whether holder and year are used.
+  hasCopyrightLine: boolean;
+}
+
+export const LICENSES: Record<LicenseId, LicenseSpec> = {
+  'MIT': { name: 'MIT License', hasCopyrightLine: true },
+  'Apache-2.0': { name: 'Apache License 2.0', hasCopyrightLine: true },
+  'BSD-2-Clause': { name: 'BSD 2-Clause "Simplified" License', hasCopyrightLine: true },
+  'BSD-3-Clause': { name: 'BSD 3-Clause "New" or "Revised" License', hasCopyrightLine: true },
+  'ISC': { name: 'ISC License', hasCopyrightLine: true },
+  'MPL-2.0': { name: 'Mozilla Public License 2.0', hasCopyrightLine: false },
+  'LGPL-3.0-or-later': { name: 'GNU Lesser General Public License v3.0 or later', hasCopyrightLine: false },
+  'GPL-3.0-or-later': { name: 'GNU General Public License v3.0 or later', hasCopyrightLine: false },
+  'Unlicense': { name: 'The Unlicense', hasCopyrightLine: false },
+};
+
+export const LICENSE_IDS = Object.keys(LICENSES) as LicenseId[];
+
+export const isLicenseId = (id: string): id is LicenseId => id in LICENSES;
+
+// --- TEMPLATES ---
+// SPDX canonical texts with the copyright line filled from `<year>` and `<holder>`.
+const MIT = `MIT License
+
+Copyright (c) <year> <holder>
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.
+`;
+
+const ISC = `ISC License
+
+Copyright (c) <year> <holder>
+
+Permission to use, copy, modify, and/or distribute this software for any
+purpose with or without fee is hereby granted, provided that the above
+copyright notice and this permission notice appear in all copies.
+
+THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+`;
+
+const BSD_CONDITIONS = `Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.
+`;
+
+const BSD_THIRD_CLAUSE = `
+3. Neither the name of the copyright holder nor the names of its
+   contributors may be used to endorse or promote products derived from
+   this software without specific prior written permission.
+`;
+
+const BSD_DISCLAIMER = `
+THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+`;
+
+const BSD_2 = `BSD 2-Clause License
+
+Copyright (c) <year>, <holder>
+
+${BSD_CONDITIONS}${BSD_DISCLAIMER}`;
+
+const BSD_3 = `BSD 3-Clause License
+
+Copyright (c) <year>, <holder>
+
+${BSD_CONDITIONS}${BSD_THIRD_CLAUSE}${BSD_DISCLAIMER}`;
+
+const UNLICENSE = `This is free and unencumbered software released into the public domain.
+
+Anyone is free to copy, modify, publish, use, compile, sell, or
+distribute this software, either in source code form or as a compiled
+binary, for any purpose, commercial or non-commercial, and by any
+means.
+
+In jurisdictions that recognize copyright laws, the author or authors
+of this software dedicate any and all copyright interest in the
+software to the public domain. We make this dedication for the benefit
+of the public at large and to the detriment of our heirs and
+successors. We intend this dedication to be an overt act of
+relinquishment in perpetuity of all present and future rights to this
+software under copyright law.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+IN NO EVENT SHALL THE AUTHORS BE LIABLE FOR ANY CLAIM, DAMAGES OR
+OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE,
+ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
+OTHER DEALINGS IN THE SOFTWARE.
+
+For more information, please refer to <https://unlicense.org>
+`;
+
+const fill = (template: string, selection: LicenseSelection) =>
+  template.replace('<year>', selection.year.trim()).replace('<holder>', selection.holder.trim());
+
+// The bundled texts are exact; they are not passed through `toGeneratedFile`, which trims.
+const verbatim = (path: string, content: string): GeneratedFile => ({ path, content, language: languageForPath(path) });
+
+// Renders the license files for a repository. Apache-2.0 keeps the copyright in NOTICE, as the
+// license text itself is not edited; LGPL-3.0 supplements the GPL, so both texts are shipped.
+export const renderLicense = (selection: LicenseSelection, projectName: string): GeneratedFile[] => {
+  switch (selection.id) {
+    case 'MIT':
+      return [verbatim('LICENSE', fill(MIT, selection))];
+    case 'ISC':
+      return [verbatim('LICENSE', fill(ISC, selection))];
+    case 'BSD-2-Clause':
+      return [verbatim('LICENSE', fill(BSD_2, selection))];
+    case 'BSD-3-Clause':
+      return [verbatim('LICENSE', fill(BSD_3, selection))];
+    case 'Apache-2.0':
+      return [
+        verbatim('LICENSE', APACHE_2_0),
+        verbatim('NOTICE', `${projectName}\nCopyright ${selection.year.trim()} ${selection.holder.trim()}\n`),
+      ];
+    case 'MPL-2.0':
+      return [verbatim('LICENSE', MPL_2_0)];
+    case 'LGPL-3.0-or-later':
+      return [verbatim('LICENSE', LGPL_3_0), verbatim('COPYING', GPL_3_0)];
+    case 'GPL-3.0-or-later':
+      return [verbatim('LICENSE', GPL_3_0)];
+    case 'Unlicense':
+      return [verbatim('LICENSE', UNLICENSE)];
+  }
+};
+
+// --- IDENTIFICATION ---
+// Distinctive phrases of each license text, most specific first. Returns SPDX ids; the GPL family
+// cannot tell "-only" from "-or-later" from the text alone, so the bare version is returned.
+// GNU titles are matched case-sensitively: the texts cross-reference each other in sentence case.
+const TEXT_SIGNATURES: [string, RegExp[]][] = [
+  ['MPL-2.0', [/Mozilla Public License,? Version 2\.0/i]],
+  ['AGPL-3.0', [/GNU AFFERO GENERAL PUBLIC LICENSE/]],
+  ['LGPL-3.0', [/GNU LESSER GENERAL PUBLIC LICENSE/, /Version 3/]],
+  ['LGPL-2.1', [/GNU LESSER GENERAL PUBLIC LICENSE/, /Version 2\.1/]],
+  ['GPL-3.0', [/GNU GENERAL PUBLIC LICENSE/, /Version 3/]],
+  ['GPL-2.0', [/GNU GENERAL PUBLIC LICENSE/, /Version 2/]],
+  ['Apache-2.0', [/Apache License/i, /Version 2\.0/i]],
+  ['Unlicense', [/free and unencumbered software released into the public domain/i]],
+  ['BSD-3-Clause', [/Redistribution and use in source and binary forms/i, /Neither the name/i]],
+  ['BSD-2-Clause', [/Redistribution and use in source and binary forms/i]],
+  ['ISC', [/Permission to use, copy, modify, and(\/or)? distribute this software for any\s+purpose with or without fee/i]],
+  ['MIT', [/Permission is hereby granted, free of charge/i]],
+];
+
+export const identifyLicenseText = (text: string): string | null =>
+  TEXT_SIGNATURES.find(([, patterns]) => patterns.every(pattern => pattern.test(text)))?.[0] ?? null;
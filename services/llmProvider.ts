@@ -0,0 +1,84 @@
+import { Schema } from "@google/genai";
+import { GeminiError } from './errors';
+
+// 'pro' is used for reasoning-heavy work (portfolio audit, CI design),
+// 'flash' for short boilerplate generation.
+export type ModelTier = 'pro' | 'flash';
+
+export type LLMTask =
+  | 'repoAudit'
+  | 'portfolioSummary'
+  | 'readme'
+  | 'cicd'
+  | 'docStrategy'
+  | 'license'
+  | 'commitConfig'
+  | 'issueTemplates'
+  | 'securityPolicy'
+  | 'codeOfConduct'
+  | 'directoryStructure';
+
+export interface LLMRequest {
+  task: LLMTask;
+  tier: ModelTier;
+  prompt: string;
+  systemInstruction?: string;
+  // When set, the provider must return JSON conforming to this schema.
+  responseSchema?: Schema;
+  // Allow the provider to ground its answer with web search if it supports it.
+  useSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+// Web search grounding behind a response. Each support ties a piece of the response
+// text to the sources (indices into `sources`) that back it.
+export interface LLMGrounding {
+  sources: { url: string; title?: string }[];
+  supports: { text: string; sources: number[] }[];
+  queries: string[];
+}
+
+export interface LLMResponse {
+  text: string;
+  // Present when the provider searched the web and reports what it found.
+  grounding?: LLMGrounding;
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+type ProviderFactory = () => LLMProvider;
+
+const factories = new Map<string, ProviderFactory>();
+const instances = new Map<string, LLMProvider>();
+let activeProviderId: string = process.env.LLM_PROVIDER || 'gemini';
+
+export const registerProvider = (id: string, factory: ProviderFactory) => {
+  factories.set(id, factory);
+  instances.delete(id);
+};
+
+export const listProviders = (): string[] => Array.from(factories.keys());
+
+export const setActiveProvider = (id: string) => {
+  if (!factories.has(id)) {
+    throw new GeminiError(`Unknown LLM provider "${id}". Available: ${listProviders().join(', ')}.`);
+  }
+  activeProviderId = id;
+};
+
+export const getProvider = (): LLMProvider => {
+  const cached = instances.get(activeProviderId);
+  if (cached) return cached;
+
+  const factory = factories.get(activeProviderId);
+  if (!factory) {
+    throw new GeminiError(`Unknown LLM provider "${activeProviderId}". Available: ${listProviders().join(', ')}.`);
+  }
+  const provider = factory();
+  instances.set(activeProviderId, provider);
+  return provider;
+};
@@ -0,0 +1,63 @@
+import { GeminiError } from './errors';
+import { safeRelativePath } from './generatedFiles';
+
+// A writable local clone picked through the File System Access API.
+export interface LocalCheckout {
+  name: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+export const supportsCheckoutWrites = (): boolean =>
+  typeof window !== 'undefined' && typeof (window as any).showDirectoryPicker === 'function';
+
+export const pickCheckout = async (): Promise<LocalCheckout> => {
+  if (!supportsCheckoutWrites()) {
+    throw new GeminiError("This browser cannot write to local folders. Download a patch instead.");
+  }
+  const handle: FileSystemDirectoryHandle = await (window as any).showDirectoryPicker({ mode: 'readwrite' });
+  return { name: handle.name, handle };
+};
+
+const resolveDirectory = async (
+  root: FileSystemDirectoryHandle,
+  segments: string[],
+  create: boolean
+): Promise<FileSystemDirectoryHandle | null> => {
+  let dir = root;
+  for (const segment of segments) {
+    try {
+      dir = await dir.getDirectoryHandle(segment, { create });
+    } catch (error: any) {
+      if (error?.name === 'NotFoundError' || error?.name === 'TypeMismatchError') return null;
+      throw error;
+    }
+  }
+  return dir;
+};
+
+// Returns null when the file does not exist.
+export const readCheckoutFile = async (checkout: LocalCheckout, path: string): Promise<string | null> => {
+  const safe = safeRelativePath(path);
+  if (!safe) return null;
+  const segments = safe.split('/');
+  const dir = await resolveDirectory(checkout.handle, segments.slice(0, -1), false);
+  if (!dir) return null;
+  try {
+    const file = await (await dir.getFileHandle(segments[segments.length - 1])).getFile();
+    return await file.text();
+  } catch (error: any) {
+    if (error?.name === 'NotFoundError' || error?.name === 'TypeMismatchError') return null;
+    throw error;
+  }
+};
+
+export const writeCheckoutFile = async (checkout: LocalCheckout, path: string, content: string): Promise<void> => {
+  const safe = safeRelativePath(path);
+  if (!safe) throw new GeminiError(`Refusing to write ${path}: the path leaves the checkout.`);
+  const segments = safe.split('/');
+  const dir = await resolveDirectory(checkout.handle, segments.slice(0, -1), true);
+  if (!dir) throw new GeminiError(`Cannot create the folder for ${path}.`);
+  const writable = await (await dir.getFileHandle(segments[segments.length - 1], { create: true })).createWritable();
+  await writable.write(content);
+  await writable.close();
+};
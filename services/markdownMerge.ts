@@ -0,0 +1,92 @@
+// Marks a section as owned by the generator: it may be replaced on the next update.
+// Sections without the marker are hand-written and are never touched.
+export const GENERATED_MARKER = '<!-- portfoliosignal:generated -->';
+
+interface Section {
+  key: string;
+  heading: string;
+  body: string[];
+  managed: boolean;
+}
+
+const HEADING = /^(#{1,2})\s+(.+?)\s*#*\s*$/;
+
+const normalizeHeading = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Splits on level 1-2 headings outside fenced code blocks. The first level-1
+// heading is the document title and matches any other title.
+const parseSections = (markdown: string): { preamble: string[]; sections: Section[] } => {
+  const preamble: string[] = [];
+  const sections: Section[] = [];
+  let inFence = false;
+  let seenTitle = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(HEADING);
+    if (match) {
+      const isTitle = match[1] === '#' && !seenTitle && sections.length === 0;
+      if (isTitle) seenTitle = true;
+      sections.push({ key: isTitle ? '#title' : normalizeHeading(match[2]), heading: line, body: [], managed: false });
+      continue;
+    }
+    const current = sections[sections.length - 1];
+    if (current) {
+      current.body.push(line);
+      if (line.trim() === GENERATED_MARKER) current.managed = true;
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  return { preamble, sections };
+};
+
+const trimBlankEdges = (lines: string[]) => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+};
+
+// Hand-written bodies keep their leading blank lines; only trailing ones are normalized.
+const renderSection = (section: Section) => {
+  const body = [...section.body];
+  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+  return [section.heading, ...body, ''];
+};
+
+const asGenerated = (section: Section): Section => ({
+  ...section,
+  body: [GENERATED_MARKER, ...trimBlankEdges(section.body.filter(line => line.trim() !== GENERATED_MARKER))],
+  managed: true,
+});
+
+// Merges an updated document into the existing one. Hand-written sections are kept
+// verbatim and in place; generated sections are refreshed; sections that only exist
+// in the update are inserted after the nearest preceding section they followed there.
+export const mergeMarkdownSections = (existing: string, updated: string): string => {
+  const before = parseSections(existing);
+  const after = parseSections(updated);
+  const updates = new Map(after.sections.map(section => [section.key, section]));
+
+  const merged: Section[] = before.sections.map(section => {
+    const replacement = updates.get(section.key);
+    return section.managed && replacement ? asGenerated(replacement) : section;
+  });
+
+  const present = new Set(merged.map(section => section.key));
+  after.sections.forEach((section, index) => {
+    if (present.has(section.key)) return;
+    const anchor = after.sections.slice(0, index).reverse().find(prev => present.has(prev.key));
+    const position = anchor ? merged.findIndex(s => s.key === anchor.key) + 1 : merged.length;
+    merged.splice(position, 0, asGenerated(section));
+    present.add(section.key);
+  });
+
+  const preamble = trimBlankEdges(before.preamble).length > 0 ? before.preamble : after.preamble;
+  const lines = [...trimBlankEdges(preamble), ...(trimBlankEdges(preamble).length > 0 ? [''] : []), ...merged.flatMap(renderSection)];
+  return trimBlankEdges(lines).join('\n') + '\n';
+};
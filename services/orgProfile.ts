@@ -0,0 +1,119 @@
+import { LLMTask } from './llmProvider';
+import { isLicenseId, LicenseId } from './licenseTemplates';
+
+export type DocsTooling = 'auto' | 'typedoc' | 'mkdocs' | 'docusaurus' | 'sphinx';
+
+export const DOCS_TOOLING: Record<DocsTooling, string> = {
+  auto: 'Pick by language (TypeDoc for JS/TS, MkDocs for Python)',
+  typedoc: 'TypeDoc',
+  mkdocs: 'MkDocs (Material)',
+  docusaurus: 'Docusaurus',
+  sphinx: 'Sphinx',
+};
+
+// Facts about the organization that governance files must state verbatim.
+export interface OrganizationProfile {
+  legalName: string;
+  securityContact: string;
+  conductContact: string;
+  // Free text, e.g. "The latest minor release of the current major version".
+  supportedVersions: string;
+  preferredLicense: LicenseId;
+  defaultBranch: string;
+  docsTooling: DocsTooling;
+}
+
+export const DEFAULT_ORG_PROFILE: OrganizationProfile = {
+  legalName: '',
+  securityContact: '',
+  conductContact: '',
+  supportedVersions: '',
+  preferredLicense: 'MIT',
+  defaultBranch: 'main',
+  docsTooling: 'auto',
+};
+
+export const PROFILE_LABELS: Record<keyof OrganizationProfile, string> = {
+  legalName: 'Legal name',
+  securityContact: 'Security contact',
+  conductContact: 'Code of conduct contact',
+  supportedVersions: 'Supported versions',
+  preferredLicense: 'Preferred license',
+  defaultBranch: 'Default branch',
+  docsTooling: 'Docs tooling',
+};
+
+// Profile fields each generator states in its output.
+const FIELDS_BY_TASK: Partial<Record<LLMTask, (keyof OrganizationProfile)[]>> = {
+  readme: ['legalName', 'preferredLicense', 'defaultBranch', 'docsTooling'],
+  cicd: ['defaultBranch', 'docsTooling'],
+  license: ['legalName', 'preferredLicense'],
+  securityPolicy: ['legalName', 'securityContact', 'supportedVersions'],
+  codeOfConduct: ['legalName', 'conductContact'],
+  commitConfig: ['defaultBranch'],
+  issueTemplates: ['legalName', 'securityContact'],
+  directoryStructure: ['docsTooling'],
+  docStrategy: ['docsTooling', 'defaultBranch'],
+};
+
+export const profileFieldsFor = (task: LLMTask): (keyof OrganizationProfile)[] => FIELDS_BY_TASK[task] || [];
+
+// Fields a generator needs that are still blank; its output would otherwise need hand edits.
+export const missingProfileFields = (profile: OrganizationProfile, task: LLMTask): (keyof OrganizationProfile)[] =>
+  profileFieldsFor(task).filter(field => String(profile[field]).trim() === '');
+
+const DOCS_CONFIG_FILES: Record<Exclude<DocsTooling, 'auto'>, string> = {
+  typedoc: 'typedoc.json',
+  mkdocs: 'mkdocs.yml',
+  docusaurus: 'docusaurus.config.js',
+  sphinx: 'docs/conf.py',
+};
+
+export const docsConfigPaths = (): string[] => Object.values(DOCS_CONFIG_FILES);
+
+// Wording for prompts; "auto" leaves the choice to the model, by language.
+export const docsToolPrompt = (profile: OrganizationProfile): string =>
+  profile.docsTooling === 'auto' ? "'typedoc' (if TS/JS) or 'mkdocs' (if Python)" : `'${DOCS_TOOLING[profile.docsTooling]}'`;
+
+export const docsConfigPrompt = (profile: OrganizationProfile): string =>
+  profile.docsTooling === 'auto' ? 'typedoc.json (or mkdocs.yml)' : DOCS_CONFIG_FILES[profile.docsTooling];
+
+// Lines for a generator prompt. Blank fields are left out rather than turned into placeholders.
+export const renderProfilePrompt = (profile: OrganizationProfile, task: LLMTask): string => {
+  const fields = profileFieldsFor(task).filter(field => String(profile[field]).trim() !== '');
+  if (fields.length === 0) return '';
+  return [
+    'Organization profile (use these values exactly; never substitute placeholders such as example.com):',
+    ...fields.map(field => `- ${PROFILE_LABELS[field]}: ${field === 'docsTooling' ? DOCS_TOOLING[profile.docsTooling] : profile[field]}`),
+  ].join('\n');
+};
+
+// --- PERSISTENCE ---
+const STORAGE_KEY = 'portfolio-signal:org-profile';
+
+export const normalizeOrgProfile = (raw: unknown): OrganizationProfile => {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const text = (key: keyof OrganizationProfile) => (typeof value[key] === 'string' ? (value[key] as string) : DEFAULT_ORG_PROFILE[key] as string);
+  return {
+    legalName: text('legalName'),
+    securityContact: text('securityContact'),
+    conductContact: text('conductContact'),
+    supportedVersions: text('supportedVersions'),
+    preferredLicense: typeof value.preferredLicense === 'string' && isLicenseId(value.preferredLicense) ? value.preferredLicense : DEFAULT_ORG_PROFILE.preferredLicense,
+    defaultBranch: text('defaultBranch').trim() || DEFAULT_ORG_PROFILE.defaultBranch,
+    docsTooling: typeof value.docsTooling === 'string' && value.docsTooling in DOCS_TOOLING ? (value.docsTooling as DocsTooling) : DEFAULT_ORG_PROFILE.docsTooling,
+  };
+};
+
+export const loadOrgProfile = (): OrganizationProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeOrgProfile(JSON.parse(stored)) : DEFAULT_ORG_PROFILE;
+  } catch {
+    return DEFAULT_ORG_PROFILE;
+  }
+};
+
+export const saveOrgProfile = (profile: OrganizationProfile) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+};
@@ -0,0 +1,46 @@
+import { RepoAnalysis, Rubric } from '../types';
+import { repoScore } from './repoQuery';
+
+// Half-open bins over the 0-5 scale; a 5 falls in the last one.
+export const SCORE_BINS = ['0–1', '1–2', '2–3', '3–4', '4–5'];
+
+// A dimension averaging below this across the portfolio is flagged as a systemic weakness.
+export const WEAK_MEAN = 2.5;
+
+export interface DimensionDistribution {
+  dimension: string;
+  label: string;
+  // Repo count per SCORE_BINS entry.
+  bins: number[];
+  mean: number;
+  // Repos with a score for the dimension.
+  count: number;
+  // Share of those repos scoring below WEAK_MEAN.
+  lowShare: number;
+}
+
+export const dimensionDistribution = (repos: RepoAnalysis[], dimension: string, label: string, rubric: Rubric): DimensionDistribution => {
+  const scores = repos
+    .map(repo => repoScore(repo, dimension, rubric))
+    .filter((s): s is number => s !== undefined);
+  const bins = SCORE_BINS.map(() => 0);
+  scores.forEach(score => bins[Math.min(SCORE_BINS.length - 1, Math.max(0, Math.floor(score)))]++);
+  const mean = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0;
+  return {
+    dimension,
+    label,
+    bins,
+    mean,
+    count: scores.length,
+    lowShare: scores.length > 0 ? scores.filter(s => s < WEAK_MEAN).length / scores.length : 0,
+  };
+};
+
+export const portfolioDistributions = (repos: RepoAnalysis[], rubric: Rubric): DimensionDistribution[] =>
+  rubric.dimensions.map(d => dimensionDistribution(repos, d.id, d.label, rubric));
+
+export const isSystemicWeakness = (distribution: DimensionDistribution) =>
+  distribution.count > 1 && distribution.mean < WEAK_MEAN;
+
+// Most repos that can be overlaid on one radar before it stops being readable.
+export const MAX_COMPARED = 4;
@@ -0,0 +1,546 @@
+import { PortfolioSummary, RepoAnalysis, RepoFacts, Rubric } from '../types';
+import { LLMTask } from './llmProvider';
+import { EMPTY_CONTEXT, RepoContextBundle, renderContextPrompt } from './generatorContext';
+import { CI_TARGETS, CiTarget, defaultCiTarget } from './ciTargets';
+import { DEFAULT_ORG_PROFILE, docsConfigPrompt, docsToolPrompt, OrganizationProfile, renderProfilePrompt } from './orgProfile';
+import { MAX_ADJUSTMENT, computeBaseline } from './scoringEngine';
+import { dimensionIds, renderRubricPrompt, weightedScore } from './rubrics';
+import { numberedContext } from './claims';
+import { REPO_STATUSES } from './repoQuery';
+
+export type PromptTemplateId =
+  | 'auditorInstruction'
+  | 'repoAudit'
+  | 'portfolioSummary'
+  | 'readme'
+  | 'cicd'
+  | 'docStrategy'
+  | 'directoryStructure'
+  | 'securityPolicy'
+  | 'codeOfConduct'
+  | 'commitConfig'
+  | 'issueTemplates';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  // Bumped whenever the shipped body changes, so recorded versions stay meaningful.
+  version: number;
+  body: string;
+  variables: string[];
+}
+
+// Values a template can reference as {{name}}. Lists are already joined.
+export type PromptVariables = Record<string, string>;
+
+export const VARIABLE_DESCRIPTIONS: Record<string, string> = {
+  'repo.name': 'Repository name',
+  'repo.url': 'Repository URL',
+  'repo.language': 'Primary language',
+  'repo.description': 'One-line description from the audit',
+  'repo.frameworks': 'Frameworks, comma-separated',
+  'repo.status': `${REPO_STATUSES.slice(0, -1).join(', ')} or ${REPO_STATUSES[REPO_STATUSES.length - 1]}`,
+  'audit.topFixes': 'Top fixes from the audit, one "- " bullet per line',
+  'audit.rationale': 'Rationale behind the audit scores',
+  'context': 'Audit findings, collected facts, manifests and existing files for the repository',
+  'profile.legalName': 'Organization legal name',
+  'profile.securityContact': 'Security contact',
+  'profile.conductContact': 'Code of conduct contact',
+  'profile.supportedVersions': 'Supported versions (free text)',
+  'profile.preferredLicense': 'Preferred license (SPDX id)',
+  'profile.defaultBranch': 'Default branch',
+  'profile.prompt': 'The organization profile fields this generator uses, as prompt lines (empty when all are blank)',
+  'docs.tool': 'Docs tooling, e.g. \'TypeDoc\'',
+  'docs.config': 'Config file the docs tooling needs',
+  'docs.tooling': 'Tooling recommendation lines for the documentation strategy',
+  'ci.label': 'CI platform name, e.g. GitHub Actions',
+  'ci.path': 'Pipeline file path',
+  'ci.requirements': 'Platform-specific job requirements',
+  'security.maintainer': '", maintained by <legal name>" or empty',
+  'security.versions': 'Supported versions, or "the latest release"',
+  'security.reporting': 'How to report a vulnerability',
+  'security.issueRedirect': '" but to contact <security contact>" or empty',
+  'conduct.contact': 'Enforcement contact, or the maintainers when none is set',
+  'scoring.maxAdjustment': 'Largest change allowed from a rule-based baseline score',
+  'portfolio.context': 'Context/notes entered for the analysis',
+  'portfolio.contextSentences': 'The context/notes split into sentences, one "[n] sentence" line each',
+  'portfolio.repoCount': 'Number of repositories',
+  'portfolio.languages': 'Languages across the portfolio, comma-separated',
+  'portfolio.repoNames': 'Names of the audited repositories, comma-separated',
+  'audit.evidence': 'Collected facts and rule-based baseline, or a best-effort note when none were collected',
+  'audits': 'Per-repository audits as JSON, with the weighted score of each',
+  'rubric.dimensions': 'The rubric dimensions to score, one "- id (Label): description" line each',
+};
+
+const REPO_VARIABLES = [
+  'repo.name', 'repo.url', 'repo.language', 'repo.description', 'repo.frameworks', 'repo.status',
+  'audit.topFixes', 'audit.rationale', 'context',
+];
+
+const PROFILE_VARIABLES = [
+  'profile.legalName', 'profile.securityContact', 'profile.conductContact', 'profile.supportedVersions',
+  'profile.preferredLicense', 'profile.defaultBranch', 'profile.prompt', 'docs.tool', 'docs.config',
+];
+
+const GENERATOR_VARIABLES = [
+  ...REPO_VARIABLES, ...PROFILE_VARIABLES,
+  'ci.label', 'ci.path', 'ci.requirements',
+  'security.maintainer', 'security.versions', 'security.reporting', 'security.issueRedirect', 'conduct.contact',
+];
+
+// --- DEFAULT TEMPLATES ---
+export const DEFAULT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  auditorInstruction: {
+    id: 'auditorInstruction',
+    label: 'Auditor system instruction',
+    version: 1,
+    variables: ['scoring.maxAdjustment'],
+    body: `You are a Portfolio Intelligence Auditor and Engineering Signal Analyst.
+Your job is to analyze GitHub repositories provided by the user.
+
+HARD RULES:
+1. Do NOT invent stars, forks, or traffic metrics.
+2. Prefer conservative language.
+3. Output STRICT JSON matching the provided schema.
+4. If you cannot access a URL, infer what you can from the URL structure or user context, but mark status as Unknown if completely blocked.
+5. Score repos 0-5 on audit dimensions based on typical best practices (e.g., presence of README, CI/CD configs, Tests).
+6. When "Collected Repository Facts" are provided for a repo, they were read directly from its source tree and are authoritative.
+   Base that repo's scores on these facts, never contradict them, and cite them in the rationale.
+7. When a "Rule-Based Baseline" is provided for a repo, start every score from it. You may move a score by at most {{scoring.maxAdjustment}},
+   and every score that differs from its baseline MUST have an entry in "adjustments" explaining why. Unjustified changes are discarded.`,
+  },
+  repoAudit: {
+    id: 'repoAudit',
+    label: 'Repository audit',
+    version: 2,
+    variables: ['repo.url', 'portfolio.context', 'audit.evidence', 'rubric.dimensions'],
+    body: `Audit this single GitHub repository:
+{{repo.url}}
+
+Portfolio Context/Notes (may mention other repos too):
+{{portfolio.context}}
+
+Score each of these dimensions 0-5 under "audit.scores", keyed by id:
+{{rubric.dimensions}}
+
+Classify "repoType" as library, service, cli or template.
+
+{{audit.evidence}}`,
+  },
+  portfolioSummary: {
+    id: 'portfolioSummary',
+    label: 'Portfolio summary',
+    version: 2,
+    variables: ['audits', 'portfolio.context', 'portfolio.contextSentences', 'portfolio.repoNames', 'portfolio.repoCount'],
+    body: `Synthesize a portfolio-level report from these per-repository audits:
+{{audits}}
+
+Context/Notes from the portfolio owner, one numbered sentence per line:
+{{portfolio.contextSentences}}
+
+Produce:
+- summary: executive summary, stats, capabilities demonstrated across repos, and spotlight projects.
+- actions: a prioritized action plan. Every action's "repo" MUST be one of: {{portfolio.repoNames}}.
+- claimsCheck: contradictions between the Context/Notes and the audit evidence. Empty if none. For each:
+  "statement" says what the evidence shows, "severity" is High when the context misrepresents a
+  portfolio-level capability, Medium for a single repository, Low for minor wording;
+  "contradicts" is the number of the context sentence; "repo" names the repository when there is one.
+  Verify claims with search where the audits are not conclusive.`,
+  },
+  readme: {
+    id: 'readme',
+    label: 'README',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate a comprehensive README.md for:
+Name: {{repo.name}}
+Language: {{repo.language}}
+Description: {{repo.description}}
+
+Structure:
+1. **Title & Badges**: CI/CD status for the '{{profile.defaultBranch}}' branch, License.
+2. **Description**: Clear value prop.
+3. **Project Structure**: A file tree representation showing where source code, tests, and documentation reside.
+4. **Documentation**: EXPLICITLY state where docs are. E.g., "See \`/docs\` for detailed guides" or "Docs are inline". The docs site is built with {{docs.tool}}.
+5. **Getting Started**: Installation & Run steps.
+6. **Contribution Guidelines**: A dedicated section explaining how to contribute (e.g., "Fork, Branch, PR, Test").
+7. **Troubleshooting**: 2-3 common issues & solutions for {{repo.language}}.
+8. **Roadmap**: A checklist of 3-4 future items.
+9. **License**: Reference the LICENSE file. If the repository has none yet, it will be {{profile.preferredLicense}}.
+
+{{profile.prompt}}
+
+{{context}}
+
+Output raw Markdown. No fences.`,
+  },
+  cicd: {
+    id: 'cicd',
+    label: 'CI/CD pipeline',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate a production-grade {{ci.label}} pipeline ({{ci.path}}) for:
+Repo: {{repo.name}} ({{repo.language}})
+
+Requirements:
+{{ci.requirements}}
+**Docs Config**: The config file the docs tooling needs ({{docs.config}}).
+
+{{context}}
+
+Output format (one heading per file, raw file content below it):
+### {{ci.path}}
+[Pipeline definition...]
+
+### {{docs.config}}
+[Content...]
+
+No code fences.`,
+  },
+  docStrategy: {
+    id: 'docStrategy',
+    label: 'Documentation strategy',
+    version: 1,
+    variables: ['portfolio.repoCount', 'portfolio.languages', 'docs.tooling', 'docs.tool', 'profile.defaultBranch'],
+    body: `Design a "Documentation-as-Code" Strategy for this portfolio:
+Repos: {{portfolio.repoCount}}
+Langs: {{portfolio.languages}}
+
+Cover:
+1. **Taxonomy**: Standard folder structure (e.g., /docs/architecture, /docs/api).
+2. **Tooling**:
+{{docs.tooling}}
+3. **CI/CD Integration**: How to auto-build/deploy docs on merge to '{{profile.defaultBranch}}'.
+4. **Maintenance**: Strategy for keeping docs in sync (e.g., "Doc Tests", PR checklists).
+
+Output raw Markdown. No fences.`,
+  },
+  directoryStructure: {
+    id: 'directoryStructure',
+    label: 'Directory structure',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Analyze {{repo.name}} (Language: {{repo.language}}, Frameworks: {{repo.frameworks}}) and recommend an Optimal Standardized Directory Structure.
+The docs directory follows the layout of {{docs.tool}}.
+
+{{context}}
+
+Output a file tree diagram and a brief explanation of the key directories (e.g., src, tests, docs, .github).
+
+Example output format:
+root/
+├── src/        # Source code
+├── tests/      # Unit and integration tests
+...
+
+Explanation:
+...
+
+Output raw text/markdown. No fences.`,
+  },
+  securityPolicy: {
+    id: 'securityPolicy',
+    label: 'Security policy',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate a SECURITY.md file for {{repo.name}}{{security.maintainer}}.
+
+Include:
+- Supported versions: {{security.versions}}.
+- Reporting a vulnerability: {{security.reporting}}
+- Expected response time.
+
+{{profile.prompt}}
+
+{{context}}
+
+Output raw Markdown. No fences.`,
+  },
+  codeOfConduct: {
+    id: 'codeOfConduct',
+    label: 'Code of conduct',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate a CODE_OF_CONDUCT.md (Contributor Covenant v2.1) for {{repo.name}}.
+Include standard sections: Our Pledge, Our Standards, Enforcement, Attribution.
+Enforcement contact: {{conduct.contact}}.
+
+{{profile.prompt}}
+
+{{context}}
+
+Output raw Markdown. No fences.`,
+  },
+  commitConfig: {
+    id: 'commitConfig',
+    label: 'Commit config',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate a config file for Conventional Commits.
+Language: {{repo.language}}.
+
+Rules:
+- If JS/TS: Generate 'commitlint.config.js'.
+- If Python/Go/Other: Generate '.pre-commit-config.yaml' with 'commitizen' hook, plus the 'no-commit-to-branch' hook protecting '{{profile.defaultBranch}}'.
+
+{{profile.prompt}}
+
+{{context}}
+
+Output format: a '### <file name>' heading line, then the raw file content. No fences.`,
+  },
+  issueTemplates: {
+    id: 'issueTemplates',
+    label: 'Issue templates',
+    version: 1,
+    variables: GENERATOR_VARIABLES,
+    body: `Generate GitHub Issue Templates for: {{repo.name}}.
+
+Produce two separate markdown files content in one output:
+1. **.github/ISSUE_TEMPLATE/bug_report.md**
+2. **.github/ISSUE_TEMPLATE/feature_request.md**
+
+Standardize fields (Description, Steps to Reproduce, Expected Behavior, Environment).
+The bug report tells reporters not to file security vulnerabilities as issues{{security.issueRedirect}} (see SECURITY.md).
+
+{{profile.prompt}}
+
+{{context}}
+
+Output format:
+### .github/ISSUE_TEMPLATE/bug_report.md
+[Content...]
+
+### .github/ISSUE_TEMPLATE/feature_request.md
+[Content...]
+
+No code fences.`,
+  },
+};
+
+export const TEMPLATE_ORDER: PromptTemplateId[] = [
+  'auditorInstruction', 'repoAudit', 'portfolioSummary',
+  'readme', 'cicd', 'securityPolicy', 'codeOfConduct', 'commitConfig', 'issueTemplates', 'directoryStructure', 'docStrategy',
+];
+
+// --- RENDERING ---
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+// A placeholder alone on its line, with the blank line after it.
+const PLACEHOLDER_LINE = /^[ \t]*\{\{\s*([\w.]+)\s*\}\}[ \t]*(?:\n|$)(?:[ \t]*\n)?/gm;
+
+export interface RenderedTemplate {
+  text: string;
+  // Placeholders with no value; they are left in the text as written.
+  unknown: string[];
+}
+
+// Substitutes {{name}} placeholders. A placeholder on a line of its own whose value is
+// empty drops the line, so optional sections leave no gap.
+export const renderTemplate = (body: string, variables: PromptVariables): RenderedTemplate => {
+  const unknown = new Set<string>();
+  const text = body
+    .replace(PLACEHOLDER_LINE, (line, name: string) => (variables[name] === '' ? '' : line))
+    .replace(PLACEHOLDER, (placeholder, name: string) => {
+      if (name in variables) return variables[name];
+      unknown.add(name);
+      return placeholder;
+    });
+  return { text: text.trim(), unknown: Array.from(unknown) };
+};
+
+// --- OVERRIDES ---
+export interface TemplateOverride {
+  body: string;
+  // Default version the override was written against; a newer default is worth a look.
+  baseVersion: number;
+  updatedAt: string;
+}
+
+export type TemplateOverrides = Partial<Record<PromptTemplateId, TemplateOverride>>;
+
+const STORAGE_KEY = 'portfolio-signal:prompt-templates';
+
+export const isPromptTemplateId = (value: string): value is PromptTemplateId => value in DEFAULT_TEMPLATES;
+
+export const loadTemplateOverrides = (): TemplateOverrides => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const overrides: TemplateOverrides = {};
+    Object.entries(stored && typeof stored === 'object' ? stored : {}).forEach(([id, entry]: [string, unknown]) => {
+      if (!isPromptTemplateId(id) || typeof entry !== 'object' || entry === null) return;
+      const value: Partial<Record<keyof TemplateOverride, unknown>> = entry;
+      if (typeof value.body === 'string') {
+        overrides[id] = {
+          body: value.body,
+          baseVersion: typeof value.baseVersion === 'number' ? value.baseVersion : DEFAULT_TEMPLATES[id].version,
+          updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : '',
+        };
+      }
+    });
+    return overrides;
+  } catch {
+    return {};
+  }
+};
+
+const saveTemplateOverrides = (overrides: TemplateOverrides) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+};
+
+// Saving the default body unchanged removes the override instead.
+export const saveTemplateOverride = (id: PromptTemplateId, body: string): TemplateOverrides => {
+  const overrides = loadTemplateOverrides();
+  if (body.trim() === DEFAULT_TEMPLATES[id].body.trim()) {
+    delete overrides[id];
+  } else {
+    overrides[id] = { body, baseVersion: DEFAULT_TEMPLATES[id].version, updatedAt: new Date().toISOString() };
+  }
+  saveTemplateOverrides(overrides);
+  return overrides;
+};
+
+export const resetTemplateOverride = (id: PromptTemplateId): TemplateOverrides => {
+  const overrides = loadTemplateOverrides();
+  delete overrides[id];
+  saveTemplateOverrides(overrides);
+  return overrides;
+};
+
+// FNV-1a, enough to tell two local edits apart in a version label.
+const hashBody = (body: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < body.length; i++) {
+    hash ^= body.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+// "readme@v1" for a shipped template, "readme@custom-1a2b3c4d" for a local override.
+export const templateVersion = (id: PromptTemplateId, override?: TemplateOverride): string =>
+  override ? `${id}@custom-${hashBody(override.body)}` : `${id}@v${DEFAULT_TEMPLATES[id].version}`;
+
+export interface RenderedPrompt {
+  prompt: string;
+  version: string;
+}
+
+// Renders the active template (the local override if there is one) for a model call.
+export const renderPrompt = (id: PromptTemplateId, variables: PromptVariables): RenderedPrompt => {
+  const override = loadTemplateOverrides()[id];
+  return {
+    prompt: renderTemplate(override ? override.body : DEFAULT_TEMPLATES[id].body, variables).text,
+    version: templateVersion(id, override),
+  };
+};
+
+// --- VARIABLES ---
+export const generatorVariables = (
+  repo: RepoAnalysis,
+  context: RepoContextBundle,
+  task: LLMTask,
+  target: CiTarget = defaultCiTarget(repo.url)
+): PromptVariables => {
+  const profile = context.profile || DEFAULT_ORG_PROFILE;
+  const ci = CI_TARGETS[target];
+  return {
+    'repo.name': repo.name,
+    'repo.url': repo.url,
+    'repo.language': repo.primaryLanguage,
+    'repo.description': repo.description,
+    'repo.frameworks': repo.frameworks.join(', '),
+    'repo.status': repo.status,
+    'audit.topFixes': repo.audit.topFixes.map(fix => `- ${fix}`).join('\n'),
+    'audit.rationale': repo.audit.rationale,
+    'context': renderContextPrompt(repo, context),
+    'profile.legalName': profile.legalName,
+    'profile.securityContact': profile.securityContact,
+    'profile.conductContact': profile.conductContact,
+    'profile.supportedVersions': profile.supportedVersions,
+    'profile.preferredLicense': profile.preferredLicense,
+    'profile.defaultBranch': profile.defaultBranch,
+    'profile.prompt': renderProfilePrompt(profile, task),
+    'docs.tool': docsToolPrompt(profile),
+    'docs.config': docsConfigPrompt(profile),
+    'ci.label': ci.label,
+    'ci.path': ci.path,
+    'ci.requirements': ci.requirements({ branch: profile.defaultBranch, docsTool: docsToolPrompt(profile) }).trim().replace(/^ {4}/gm, ''),
+    'security.maintainer': profile.legalName ? `, maintained by ${profile.legalName}` : '',
+    'security.versions': profile.supportedVersions || 'the latest release',
+    'security.reporting': profile.securityContact
+      ? `contact ${profile.securityContact} (use it verbatim).`
+      : "use GitHub private vulnerability reporting (the repository's Security tab). Do not invent an email address.",
+    'security.issueRedirect': profile.securityContact ? ` but to contact ${profile.securityContact}` : '',
+    'conduct.contact': profile.conductContact || 'the project maintainers, through the contact listed in the repository. Do not invent an email address',
+  };
+};
+
+export const auditorVariables = (): PromptVariables => ({ 'scoring.maxAdjustment': String(MAX_ADJUSTMENT) });
+
+export const repoAuditVariables = (url: string, context: string, facts: RepoFacts | undefined, rubric: Rubric): PromptVariables => ({
+  'repo.url': url,
+  'portfolio.context': context,
+  'rubric.dimensions': renderRubricPrompt(rubric),
+  'audit.evidence': facts
+    ? [
+      'Collected Repository Facts (read from a local clone/archive):',
+      JSON.stringify(facts, null, 2),
+      '',
+      'Rule-Based Baseline (0-5 per dimension, computed from the facts above):',
+      JSON.stringify(Object.fromEntries(Object.entries(computeBaseline(facts, dimensionIds(rubric))).map(([dimension, b]) => [
+        dimension,
+        { score: b.score, firedRules: b.firedRules.map(r => r.id) }
+      ])), null, 2),
+    ].join('\n')
+    : 'No local facts were collected for this repo. If its details aren\'t accessible via the tool, use the name and context\n' +
+      'to perform a "best-effort" inferred analysis based on standard engineering patterns for such projects.',
+});
+
+export const portfolioSummaryVariables = (repos: RepoAnalysis[], context: string, rubric: Rubric): PromptVariables => ({
+  'audits': JSON.stringify(repos.map(repo => ({
+    name: repo.name,
+    url: repo.url,
+    status: repo.status,
+    repoType: repo.repoType,
+    primaryLanguage: repo.primaryLanguage,
+    frameworks: repo.frameworks,
+    description: repo.description,
+    score: Math.round(weightedScore(repo.audit, rubric, repo.repoType) * 10) / 10,
+    scores: repo.audit.scores,
+    rationale: repo.audit.rationale,
+    topFixes: repo.audit.topFixes,
+  })), null, 2),
+  'portfolio.context': context,
+  'portfolio.contextSentences': numberedContext(context),
+  'portfolio.repoNames': repos.map(r => r.name).join(', '),
+  'portfolio.repoCount': String(repos.length),
+});
+
+export const docStrategyVariables = (summary: PortfolioSummary, profile: OrganizationProfile): PromptVariables => ({
+  'portfolio.repoCount': String(summary.stats.totalRepos),
+  'portfolio.languages': Object.keys(summary.stats.languages).join(', '),
+  'docs.tool': docsToolPrompt(profile),
+  'docs.tooling': profile.docsTooling === 'auto'
+    ? '   - JS/TS: Recommend Docusaurus or TypeDoc.\n   - Python: Recommend MkDocs with Material theme.'
+    : `   - Standardize on ${docsToolPrompt(profile)} for every repository; explain how each language plugs into it.`,
+  'profile.defaultBranch': profile.defaultBranch,
+});
+
+// Variables for previewing a template against a sample repository from the current analysis.
+export const previewVariables = (
+  id: PromptTemplateId,
+  repo: RepoAnalysis,
+  repos: RepoAnalysis[],
+  summary: PortfolioSummary,
+  context: string,
+  profile: OrganizationProfile,
+  rubric: Rubric
+): PromptVariables => {
+  switch (id) {
+    case 'auditorInstruction': return auditorVariables();
+    case 'repoAudit': return repoAuditVariables(repo.url, context, repo.facts, rubric);
+    case 'portfolioSummary': return portfolioSummaryVariables(repos, context, rubric);
+    case 'docStrategy': return docStrategyVariables(summary, profile);
+    default: return generatorVariables(repo, { ...EMPTY_CONTEXT, profile }, id);
+  }
+};
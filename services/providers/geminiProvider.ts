@@ -0,0 +1,65 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { LLMGrounding, LLMProvider, LLMRequest, LLMResponse, ModelTier } from '../llmProvider';
+import { GeminiError } from '../errors';
+
+const MODELS: Record<ModelTier, string> = {
+  pro: 'gemini-3-pro-preview',
+  flash: 'gemini-3-flash-preview',
+};
+
+// Segment offsets are UTF-8 byte positions in the response text.
+const sliceBytes = (text: string, start = 0, end?: number) => {
+  const bytes = new TextEncoder().encode(text);
+  return new TextDecoder().decode(bytes.slice(start, end ?? bytes.length));
+};
+
+const toGrounding = (response: GenerateContentResponse, text: string): LLMGrounding | undefined => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  if (!metadata) return undefined;
+  const chunks = metadata.groundingChunks || [];
+  // Chunk indices are kept aligned with `sources`; non-web chunks become empty entries.
+  const sources = chunks.map(chunk => ({ url: chunk.web?.uri || '', title: chunk.web?.title }));
+  const supports = (metadata.groundingSupports || [])
+    .map(support => ({
+      text: support.segment?.text ?? sliceBytes(text, support.segment?.startIndex, support.segment?.endIndex),
+      sources: (support.groundingChunkIndices || []).filter(i => sources[i]?.url),
+    }))
+    .filter(support => support.text && support.sources.length > 0);
+  return { sources, supports, queries: metadata.webSearchQueries || [] };
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): LLMProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!apiKey) {
+      throw new GeminiError("API Key is missing. Please ensure process.env.API_KEY is set.");
+    }
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini 3.0 Pro',
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const ai = getClient();
+      const response = await ai.models.generateContent({
+        model: MODELS[request.tier],
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+          ...(request.responseSchema && {
+            responseMimeType: "application/json",
+            responseSchema: request.responseSchema,
+          }),
+          ...(request.useSearch && { tools: [{ googleSearch: {} }] }),
+        }
+      });
+      const text = response.text || '';
+      const grounding = request.useSearch ? toGrounding(response, text) : undefined;
+      return { text, ...(grounding && { grounding }) };
+    }
+  };
+};
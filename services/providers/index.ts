@@ -0,0 +1,26 @@
+import { registerProvider } from '../llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAiCompatibleProvider';
+import { createOllamaProvider } from './ollamaProvider';
+import { createMockProvider } from './mockProvider';
+
+registerProvider('gemini', () => createGeminiProvider());
+
+registerProvider('openai', () => createOpenAICompatibleProvider({
+  baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+  apiKey: process.env.LLM_API_KEY,
+  models: {
+    pro: process.env.LLM_MODEL_PRO || 'gpt-4o',
+    flash: process.env.LLM_MODEL_FLASH || 'gpt-4o-mini',
+  },
+}));
+
+registerProvider('ollama', () => createOllamaProvider({
+  baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434',
+  models: {
+    pro: process.env.LLM_MODEL_PRO || 'llama3.1',
+    flash: process.env.LLM_MODEL_FLASH || 'llama3.1',
+  },
+}));
+
+registerProvider('mock', () => createMockProvider());
@@ -0,0 +1,18 @@
+import { Schema } from "@google/genai";
+
+// Converts the Gemini response schema dialect (upper-case OpenAPI types) into
+// plain JSON Schema for providers that accept `response_format` / `format`.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
@@ -0,0 +1,111 @@
+import { AnalysisResult } from '../../types';
+import { LLMTask } from '../llmProvider';
+
+export const mockAnalysis: AnalysisResult = {
+  summary: {
+    executiveSummary:
+      "Two actively maintained JavaScript/TypeScript projects with strong documentation and CI coverage. " +
+      "The portfolio demonstrates library design and full-stack framework engineering; the main gaps are observability and release hygiene.",
+    stats: {
+      totalRepos: 2,
+      activeCount: 2,
+      archivedCount: 0,
+      languages: { TypeScript: 1, JavaScript: 1 },
+    },
+    capabilities: ["Library API design", "Server-side rendering", "Monorepo tooling", "Automated testing"],
+    spotlightProjects: [
+      {
+        name: "react",
+        description: "A declarative, component-based UI library with a custom reconciler.",
+        impressiveFactor: "Concurrent rendering architecture with an extensive test suite.",
+      },
+    ],
+  },
+  repos: [
+    {
+      name: "react",
+      url: "https://github.com/facebook/react",
+      status: "Active",
+      repoType: "library",
+      primaryLanguage: "JavaScript",
+      frameworks: ["Jest", "Rollup", "Flow"],
+      description: "The library for web and native user interfaces.",
+      audit: {
+        scores: {
+          documentation: 5,
+          buildDevX: 4,
+          testing: 5,
+          ciCd: 5,
+          security: 4,
+          observability: 2,
+          maintainability: 4,
+          productionReadiness: 5,
+        },
+        rationale: "Comprehensive docs site, large Jest suite and CI on every PR. Runtime telemetry is out of scope for a UI library.",
+        topFixes: ["Publish a SECURITY.md with a supported-versions table", "Document the release process for contributors"],
+      },
+    },
+    {
+      name: "next.js",
+      url: "https://github.com/vercel/next.js",
+      status: "Active",
+      repoType: "library",
+      primaryLanguage: "TypeScript",
+      frameworks: ["React", "Turbopack", "Playwright"],
+      description: "The React framework for production web applications.",
+      audit: {
+        scores: {
+          documentation: 5,
+          buildDevX: 4,
+          testing: 4,
+          ciCd: 5,
+          security: 4,
+          observability: 3,
+          maintainability: 3,
+          productionReadiness: 5,
+        },
+        rationale: "Extensive examples and docs, integration tests across runtimes. Repository size makes local onboarding slow.",
+        topFixes: ["Add a lightweight contributor bootstrap script", "Split the e2e suite into sharded CI jobs"],
+      },
+    },
+  ],
+  actions: [
+    {
+      title: "Add SECURITY.md with disclosure process",
+      repo: "react",
+      priority: "High",
+      impact: "Gives researchers a private reporting channel.",
+      effort: "Small",
+      rationale: "No security policy was found at the repository root.",
+    },
+    {
+      title: "Document local development shortcuts",
+      repo: "next.js",
+      priority: "Medium",
+      impact: "Reduces onboarding time for new contributors.",
+      effort: "Medium",
+      rationale: "Full builds are slow; a focused dev workflow would help.",
+    },
+    {
+      title: "Add structured logging guidance to examples",
+      repo: "next.js",
+      priority: "Low",
+      impact: "Improves observability of apps built from the examples.",
+      effort: "Small",
+      rationale: "Examples do not demonstrate logging or tracing.",
+    },
+  ],
+  claimsCheck: [],
+};
+
+export const mockArtifacts: Record<Exclude<LLMTask, 'repoAudit' | 'portfolioSummary'>, string> = {
+  readme: "# Example Project\n\n[![CI](https://img.shields.io/badge/ci-passing-green)]()\n\nA mock README produced by the offline provider.\n",
+  cicd: "### .github/workflows/ci.yml\nname: CI\non:\n  push:\n    branches: [main]\n  pull_request:\njobs:\n  lint-and-test:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: actions/checkout@v4\n      - run: npm ci\n      - run: npm test\n\n### typedoc.json\n{\n  \"entryPoints\": [\"src/index.ts\"],\n  \"out\": \"docs\"\n}\n",
+  docStrategy: "# Documentation Strategy\n\n1. Keep docs in `/docs`.\n2. Build with TypeDoc or MkDocs.\n3. Deploy on merge to main.\n",
+  license: "MIT License\n\nCopyright (c) 2024 Example Contributors\n",
+  commitConfig: "module.exports = { extends: ['@commitlint/config-conventional'] };\n",
+  issueTemplates: "### .github/ISSUE_TEMPLATE/bug_report.md\n---\nname: Bug report\n---\n\n### .github/ISSUE_TEMPLATE/feature_request.md\n---\nname: Feature request\n---\n",
+  securityPolicy: "# Security Policy\n\n## Reporting a Vulnerability\n\nEmail security@example.com.\n",
+  codeOfConduct: "# Contributor Covenant Code of Conduct\n\n## Our Pledge\n\nMock content.\n",
+  directoryStructure: "root/\n├── src/        # Source code\n├── tests/      # Unit tests\n└── docs/       # Documentation\n",
+};
@@ -0,0 +1,44 @@
+import { LLMProvider, LLMRequest, LLMResponse, ModelTier } from '../llmProvider';
+import { codeForStatus, GeminiError } from '../errors';
+import { toJsonSchema } from './jsonSchema';
+
+export interface OllamaConfig {
+  baseUrl: string;
+  models: Record<ModelTier, string>;
+}
+
+// Local Ollama-style server (`POST /api/chat`). Structured output is requested
+// through the `format` field, which accepts a JSON schema.
+export const createOllamaProvider = (config: OllamaConfig): LLMProvider => ({
+  id: 'ollama',
+  label: `Ollama (${config.models.pro})`,
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.models[request.tier],
+        messages,
+        stream: false,
+        ...(request.responseSchema && { format: toJsonSchema(request.responseSchema) }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new GeminiError(
+        `Ollama server returned ${response.status} ${response.statusText}.`,
+        undefined,
+        codeForStatus(response.status)
+      );
+    }
+
+    const body = await response.json();
+    return { text: body?.message?.content || '' };
+  }
+});
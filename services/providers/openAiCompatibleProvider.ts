@@ -0,0 +1,52 @@
+import { LLMProvider, LLMRequest, LLMResponse, ModelTier } from '../llmProvider';
+import { codeForStatus, GeminiError } from '../errors';
+import { toJsonSchema } from './jsonSchema';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<ModelTier, string>;
+}
+
+// Talks to any server exposing the OpenAI `/chat/completions` API
+// (OpenAI, Azure OpenAI proxies, vLLM, LM Studio, LiteLLM, ...).
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => ({
+  id: 'openai',
+  label: `OpenAI-compatible (${config.models.pro})`,
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: config.models[request.tier],
+        messages,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.task, schema: toJsonSchema(request.responseSchema), strict: false },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new GeminiError(
+        `OpenAI-compatible endpoint returned ${response.status} ${response.statusText}.`,
+        undefined,
+        codeForStatus(response.status)
+      );
+    }
+
+    const body = await response.json();
+    return { text: body?.choices?.[0]?.message?.content || '' };
+  }
+});
@@ -0,0 +1,217 @@
+import { RepoFilters } from '../types';
+import { codeForStatus, GeminiError } from './errors';
+import { isAbortError, toGeminiError } from './requestPolicy';
+import { GitHubTarget, parseGitHubInput, parseGitHubReference, repoUrl, targetKey } from './githubUrls';
+
+export interface RepoListing {
+  owner: string;
+  name: string;
+  url: string;
+  fork: boolean;
+  archived: boolean;
+  pushedAt?: string;
+}
+
+// Lists the repositories owned by a user or organization.
+export interface RepoListingSource {
+  id: string;
+  label: string;
+  listRepositories: (owner: string, signal?: AbortSignal) => Promise<RepoListing[]>;
+}
+
+export const DEFAULT_REPO_FILTERS: RepoFilters = { includeForks: false, includeArchived: false };
+
+export interface OwnerExpansion {
+  owner: string;
+  total: number;
+  kept: number;
+  error?: string;
+}
+
+export interface ExpandedInput {
+  urls: string[];
+  expansions: OwnerExpansion[];
+  invalid: string[];
+}
+
+// The subset of the GitHub REST repository object the listing needs; local
+// listings may be exported straight from `gh repo list --json` or the API.
+interface RawRepo {
+  name?: string;
+  full_name?: string;
+  nameWithOwner?: string;
+  html_url?: string;
+  url?: string;
+  owner?: { login?: string } | string;
+  fork?: boolean;
+  isFork?: boolean;
+  archived?: boolean;
+  isArchived?: boolean;
+  pushed_at?: string;
+  pushedAt?: string;
+}
+
+const toListing = (raw: RawRepo, fallbackOwner?: string): RepoListing | null => {
+  const fullName = raw.full_name || raw.nameWithOwner;
+  const fromUrl = parseGitHubReference(raw.html_url || raw.url || fullName || '');
+  const owner = fromUrl?.owner
+    || (typeof raw.owner === 'string' ? raw.owner : raw.owner?.login)
+    || fallbackOwner;
+  const name = fromUrl?.kind === 'repo' ? fromUrl.repo : raw.name;
+  if (!owner || !name) return null;
+
+  return {
+    owner,
+    name,
+    url: repoUrl(owner, name),
+    fork: !!(raw.fork ?? raw.isFork),
+    archived: !!(raw.archived ?? raw.isArchived),
+    pushedAt: raw.pushed_at || raw.pushedAt,
+  };
+};
+
+// --- SOURCES ---
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+export interface GitHubApiSourceConfig {
+  baseUrl?: string;
+  token?: string;
+}
+
+// `/users/{owner}/repos` serves both users and organizations. Without a token
+// the API allows 60 requests an hour, enough for a handful of profiles.
+export const createGitHubApiSource = (config: GitHubApiSourceConfig = {}): RepoListingSource => {
+  const baseUrl = (config.baseUrl || 'https://api.github.com').replace(/\/$/, '');
+  return {
+    id: 'github',
+    label: 'GitHub API',
+    async listRepositories(owner, signal) {
+      const listings: RepoListing[] = [];
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const response = await fetch(
+          `${baseUrl}/users/${encodeURIComponent(owner)}/repos?type=owner&sort=pushed&per_page=${PAGE_SIZE}&page=${page}`,
+          {
+            signal,
+            headers: {
+              Accept: 'application/vnd.github+json',
+              ...(config.token && { Authorization: `Bearer ${config.token}` }),
+            },
+          }
+        );
+
+        if (response.status === 404) throw new GeminiError(`GitHub user or organization "${owner}" was not found.`);
+        if (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0') {
+          throw new GeminiError("GitHub API rate limit reached. Try again later or use a local listing.", undefined, 'rate_limited');
+        }
+        if (!response.ok) {
+          throw new GeminiError(
+            `GitHub API returned ${response.status} ${response.statusText}.`,
+            undefined,
+            codeForStatus(response.status)
+          );
+        }
+
+        const body: RawRepo[] = await response.json();
+        listings.push(...body.map(raw => toListing(raw, owner)).filter((l): l is RepoListing => !!l));
+        if (body.length < PAGE_SIZE) break;
+      }
+      return listings;
+    },
+  };
+};
+
+export const createDefaultListingSource = () =>
+  createGitHubApiSource({ baseUrl: process.env.GITHUB_API_URL });
+
+// Offline listing: either an array of repository objects, or an object keyed by owner.
+export const createJsonListingSource = (json: string, label = 'Local listing'): RepoListingSource => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new GeminiError("Repository listing is not valid JSON.");
+  }
+
+  const entries: Array<[string | undefined, unknown]> = Array.isArray(parsed)
+    ? parsed.map(raw => [undefined, raw])
+    : parsed && typeof parsed === 'object'
+      ? Object.entries(parsed).flatMap(([owner, list]) => (Array.isArray(list) ? list.map(raw => [owner, raw] as [string, unknown]) : []))
+      : [];
+
+  const listings = entries
+    .map(([owner, raw]) => (raw && typeof raw === 'object' ? toListing(raw as RawRepo, owner) : null))
+    .filter((l): l is RepoListing => !!l);
+  if (listings.length === 0) throw new GeminiError("Repository listing contains no repositories.");
+
+  return {
+    id: 'json',
+    label,
+    async listRepositories(owner) {
+      return listings.filter(l => l.owner.toLowerCase() === owner.toLowerCase());
+    },
+  };
+};
+
+// --- EXPANSION ---
+export const applyRepoFilters = (listings: RepoListing[], filters: RepoFilters): RepoListing[] => {
+  const since = filters.pushedSince ? Date.parse(filters.pushedSince) : NaN;
+  return listings.filter(l =>
+    (filters.includeForks || !l.fork) &&
+    (filters.includeArchived || !l.archived) &&
+    (Number.isNaN(since) || (!!l.pushedAt && Date.parse(l.pushedAt) >= since))
+  );
+};
+
+// Parses the input, expands every profile or organization through `source` and
+// returns a deduplicated list of repository URLs. Filters only apply to expanded
+// listings: a repository named explicitly is always kept. URLs on other forges
+// are passed through untouched; anything else is reported as invalid.
+export const expandRepositoryInput = async (
+  text: string,
+  source: RepoListingSource,
+  filters: RepoFilters = DEFAULT_REPO_FILTERS,
+  signal?: AbortSignal
+): Promise<ExpandedInput> => {
+  const parsed = parseGitHubInput(text);
+  const targets = parsed.targets;
+  const invalid = parsed.invalid.filter(token => !/^https?:\/\//i.test(token));
+  const seen = new Set<string>();
+  const urls: string[] = [];
+  const expansions: OwnerExpansion[] = [];
+
+  const add = (target: GitHubTarget) => {
+    const key = targetKey(target);
+    if (seen.has(key)) return;
+    seen.add(key);
+    urls.push(target.url);
+  };
+
+  for (const target of targets) {
+    if (target.kind === 'repo') {
+      add(target);
+      continue;
+    }
+
+    try {
+      const listings = await source.listRepositories(target.owner, signal);
+      const kept = applyRepoFilters(listings, filters);
+      kept.forEach(l => add({ kind: 'repo', owner: l.owner, repo: l.name, url: l.url }));
+      expansions.push({ owner: target.owner, total: listings.length, kept: kept.length });
+    } catch (error) {
+      // fetch() rejects with a DOMException named AbortError; normalize it so callers see a cancel.
+      const failure = toGeminiError(error);
+      if (signal?.aborted || isAbortError(failure)) throw failure;
+      expansions.push({ owner: target.owner, total: 0, kept: 0, error: failure.message });
+    }
+  }
+
+  parsed.invalid
+    .filter(token => /^https?:\/\//i.test(token) && !seen.has(token.toLowerCase()))
+    .forEach(token => {
+      seen.add(token.toLowerCase());
+      urls.push(token);
+    });
+
+  return { urls, expansions, invalid };
+};
@@ -0,0 +1,155 @@
+import { RepoAnalysis, Rubric } from '../types';
+import { weightedScore } from './rubrics';
+
+export type RepoStatus = RepoAnalysis['status'];
+
+export const REPO_STATUSES: RepoStatus[] = ['Active', 'Dormant', 'Archived', 'Template', 'Fork', 'Unknown'];
+
+// Sort and range key for the rubric-weighted score; any other key is a dimension id.
+export const AVERAGE_KEY = 'average';
+
+export interface ScoreRange {
+  dimension: string;
+  min: number;
+  max: number;
+}
+
+export interface RepoQuery {
+  search: string;
+  // Values within one facet are alternatives; facets combine with AND.
+  statuses: RepoStatus[];
+  languages: string[];
+  frameworks: string[];
+  ranges: ScoreRange[];
+  // 'default' keeps Active repos first, then sorts by name.
+  sort: 'default' | 'name' | string;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_REPO_QUERY: RepoQuery = {
+  search: '',
+  statuses: [],
+  languages: [],
+  frameworks: [],
+  ranges: [],
+  sort: 'default',
+  direction: 'desc',
+};
+
+export const isDefaultQuery = (query: RepoQuery) =>
+  !query.search.trim() && query.statuses.length === 0 && query.languages.length === 0 &&
+  query.frameworks.length === 0 && query.ranges.length === 0 && query.sort === 'default';
+
+// Score used for ranges and sorting; undefined when the audit has no score for it.
+export const repoScore = (repo: RepoAnalysis, key: string, rubric: Rubric): number | undefined => {
+  if (!repo.audit) return undefined;
+  if (key === AVERAGE_KEY) return weightedScore(repo.audit, rubric, repo.repoType);
+  const score = repo.audit.scores?.[key];
+  return typeof score === 'number' ? score : undefined;
+};
+
+const matchesSearch = (repo: RepoAnalysis, search: string) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [repo.name, repo.description, repo.audit?.rationale].filter(Boolean).join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+export const filterRepos = (repos: RepoAnalysis[], query: RepoQuery, rubric: Rubric): RepoAnalysis[] =>
+  repos.filter(repo =>
+    matchesSearch(repo, query.search) &&
+    (query.statuses.length === 0 || query.statuses.includes(repo.status)) &&
+    (query.languages.length === 0 || query.languages.includes(repo.primaryLanguage)) &&
+    (query.frameworks.length === 0 || (repo.frameworks || []).some(f => query.frameworks.includes(f))) &&
+    query.ranges.every(range => {
+      const score = repoScore(repo, range.dimension, rubric);
+      return score !== undefined && score >= range.min && score <= range.max;
+    })
+  );
+
+const byDefaultOrder = (a: RepoAnalysis, b: RepoAnalysis) => {
+  // Prioritize Active repos, then sort by name
+  if (a.status === 'Active' && b.status !== 'Active') return -1;
+  if (a.status !== 'Active' && b.status === 'Active') return 1;
+  return a.name.localeCompare(b.name);
+};
+
+// Repos without a score for the sort key go last in either direction.
+export const sortRepos = (repos: RepoAnalysis[], query: RepoQuery, rubric: Rubric): RepoAnalysis[] => {
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return [...repos].sort((a, b) => {
+    if (query.sort === 'default') return byDefaultOrder(a, b);
+    if (query.sort === 'name') return sign * a.name.localeCompare(b.name);
+    const sa = repoScore(a, query.sort, rubric);
+    const sb = repoScore(b, query.sort, rubric);
+    if (sa === undefined || sb === undefined) {
+      return sa === sb ? a.name.localeCompare(b.name) : sa === undefined ? 1 : -1;
+    }
+    return sign * (sa - sb) || a.name.localeCompare(b.name);
+  });
+};
+
+export const queryRepos = (repos: RepoAnalysis[], query: RepoQuery, rubric: Rubric): RepoAnalysis[] =>
+  sortRepos(filterRepos(repos, query, rubric), query, rubric);
+
+// Distinct values for the language and framework facets, most common first.
+export const facetValues = (values: string[]): string[] => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([v]) => v);
+};
+
+// --- URL STATE ---
+// ?q=auth&status=Active,Dormant&lang=Go&fw=React&score=testing:0-2&sort=testing&dir=asc
+const PARAMS = ['q', 'status', 'lang', 'fw', 'score', 'sort', 'dir'];
+
+const list = (value: string | null): string[] =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const clampScore = (value: number) => Math.min(5, Math.max(0, value));
+
+const parseRange = (token: string): ScoreRange | null => {
+  const match = token.match(/^([A-Za-z][A-Za-z0-9]*):(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const min = clampScore(Number(match[2]));
+  const max = clampScore(Number(match[3]));
+  return { dimension: match[1], min: Math.min(min, max), max: Math.max(min, max) };
+};
+
+export const queryFromSearch = (search: string): RepoQuery => {
+  const params = new URLSearchParams(search);
+  return {
+    search: params.get('q') || '',
+    statuses: list(params.get('status')).filter((s): s is RepoStatus => REPO_STATUSES.includes(s as RepoStatus)),
+    languages: list(params.get('lang')),
+    frameworks: list(params.get('fw')),
+    ranges: params.getAll('score').map(parseRange).filter((r): r is ScoreRange => !!r),
+    sort: params.get('sort') || DEFAULT_REPO_QUERY.sort,
+    direction: params.get('dir') === 'asc' ? 'asc' : 'desc',
+  };
+};
+
+// Replaces the query's parameters in `search`, keeping any others.
+export const searchWithQuery = (search: string, query: RepoQuery): string => {
+  const params = new URLSearchParams(search);
+  PARAMS.forEach(p => params.delete(p));
+  if (query.search.trim()) params.set('q', query.search.trim());
+  if (query.statuses.length) params.set('status', query.statuses.join(','));
+  if (query.languages.length) params.set('lang', query.languages.join(','));
+  if (query.frameworks.length) params.set('fw', query.frameworks.join(','));
+  query.ranges.forEach(r => params.append('score', `${r.dimension}:${r.min}-${r.max}`));
+  if (query.sort !== DEFAULT_REPO_QUERY.sort) {
+    params.set('sort', query.sort);
+    params.set('dir', query.direction);
+  }
+  const next = params.toString();
+  return next ? `?${next}` : '';
+};
+
+export const readQueryFromUrl = (): RepoQuery => queryFromSearch(window.location.search);
+
+export const writeQueryToUrl = (query: RepoQuery) => {
+  const search = searchWithQuery(window.location.search, query);
+  if (search === window.location.search) return;
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+};
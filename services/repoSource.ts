@@ -0,0 +1,106 @@
+import { readArchive } from './archiveReader';
+import { GeminiError } from './errors';
+
+export interface SourceFile {
+  // Path relative to the repository root, using forward slashes.
+  path: string;
+  size: number;
+  lastModified: number;
+  text: () => Promise<string>;
+}
+
+export interface RepoSource {
+  name: string;
+  kind: 'directory' | 'archive';
+  files: SourceFile[];
+}
+
+// Directories that are never part of the tracked source and are expensive to walk.
+// `.git` itself is kept (only its logs are read) so commit recency can be determined.
+const IGNORED_SEGMENTS = new Set(['node_modules', '.venv', 'venv', '__pycache__', 'dist', 'build', 'target', '.next']);
+const IGNORED_GIT_PREFIXES = ['.git/objects/', '.git/lfs/'];
+
+const isIgnored = (path: string): boolean =>
+  path.split('/').some(segment => IGNORED_SEGMENTS.has(segment)) ||
+  IGNORED_GIT_PREFIXES.some(prefix => path.startsWith(prefix));
+
+// Strips the single top-level folder that archives and directory uploads wrap content in.
+const stripCommonRoot = (paths: string[]): { root: string | null; strip: (path: string) => string } => {
+  const roots = new Set(paths.map(p => p.split('/')[0]));
+  const hasRoot = roots.size === 1 && paths.every(p => p.includes('/'));
+  const root = hasRoot ? Array.from(roots)[0] : null;
+  return {
+    root,
+    strip: (path: string) => (root ? path.slice(root.length + 1) : path),
+  };
+};
+
+// GitHub archives are named `<repo>-<branch>` (zip) or `<owner>-<repo>-<sha>` (tarball);
+// drop the branch or commit suffix.
+const repoNameFromArchive = (fileName: string): string =>
+  fileName
+    .replace(/\.(zip|tar\.gz|tgz|tar)$/i, '')
+    .replace(/-(main|master|develop|trunk|[0-9a-f]{7,40})$/i, '');
+
+export const sourceFromFileList = (fileList: FileList | File[]): RepoSource => {
+  const files = Array.from(fileList);
+  if (files.length === 0) throw new GeminiError("The selected folder is empty.");
+
+  const relative = files.map(f => (f as File & { webkitRelativePath?: string }).webkitRelativePath || f.name);
+  const { root, strip } = stripCommonRoot(relative);
+
+  return {
+    name: root || 'local-folder',
+    kind: 'directory',
+    files: files
+      .map((file, i) => ({ file, path: strip(relative[i]) }))
+      .filter(({ path }) => !isIgnored(path))
+      .map(({ file, path }) => ({
+        path,
+        size: file.size,
+        lastModified: file.lastModified,
+        text: () => file.text(),
+      })),
+  };
+};
+
+export const sourceFromDirectoryHandle = async (handle: FileSystemDirectoryHandle): Promise<RepoSource> => {
+  const files: SourceFile[] = [];
+
+  const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const entry of (dir as any).values() as AsyncIterable<FileSystemHandle>) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (isIgnored(entry.kind === 'directory' ? `${path}/` : path)) continue;
+
+      if (entry.kind === 'directory') {
+        await walk(entry as FileSystemDirectoryHandle, path);
+      } else {
+        const file = await (entry as FileSystemFileHandle).getFile();
+        files.push({ path, size: file.size, lastModified: file.lastModified, text: () => file.text() });
+      }
+    }
+  };
+
+  await walk(handle, '');
+  return { name: handle.name, kind: 'directory', files };
+};
+
+export const sourceFromArchive = async (file: File): Promise<RepoSource> => {
+  const entries = await readArchive(file);
+  const { root, strip } = stripCommonRoot(entries.map(e => e.path));
+  const decoder = new TextDecoder();
+
+  return {
+    name: repoNameFromArchive(root || file.name),
+    kind: 'archive',
+    files: entries
+      .map(entry => ({ entry, path: strip(entry.path) }))
+      .filter(({ path }) => !isIgnored(path))
+      .map(({ entry, path }) => ({
+        path,
+        size: entry.size,
+        lastModified: entry.lastModified,
+        text: async () => decoder.decode(await entry.read()),
+      })),
+  };
+};
@@ -0,0 +1,314 @@
+import { ActionItem, AnalysisResult, Citation, Claim, RepoAnalysis, Rubric } from '../types';
+import { REPO_TYPE_LABELS, rubricOf, weightedScore } from './rubrics';
+import { webCitations } from './citations';
+import { compareClaims } from './claims';
+import { downloadBlob } from './download';
+
+// --- UTILITIES ---
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const scoreClass = (score: number) => (score >= 4 ? 'good' : score >= 2.5 ? 'fair' : 'poor');
+
+const renderCitations = (citations: Citation[] | undefined): string => {
+  const shown = webCitations(citations);
+  if (shown.length === 0) return '';
+  return `<div class="sources">Sources: ${shown.map((c, i) =>
+    `<a href="${escapeHtml(c.url)}"${c.snippet ? ` title="${escapeHtml(c.snippet)}"` : ''}>[${i + 1}] ${escapeHtml(c.title || c.url)}</a>`).join(' ')}</div>`;
+};
+
+const renderClaim = (claim: Claim): string => `
+  <li class="severity-${escapeHtml(claim.severity)}">
+    <span class="pill">${escapeHtml(claim.severity)}</span> ${escapeHtml(claim.statement)}${claim.repo ? ` <span class="muted">(${escapeHtml(claim.repo)})</span>` : ''}
+    ${claim.contextSentence ? `<blockquote>Contradicts${claim.contextIndex !== undefined ? ` context sentence ${claim.contextIndex + 1}` : ''}: “${escapeHtml(claim.contextSentence)}”</blockquote>` : ''}
+    ${renderCitations(claim.citations)}
+  </li>`;
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// --- SVG CHARTS ---
+const renderLanguageChart = (languages: Record<string, number>): string => {
+  const data = Object.entries(languages || {})
+    .map(([name, count]) => ({ name, count: Number(count) }))
+    .sort((a, b) => b.count - a.count);
+  if (data.length === 0) return '<p class="muted">No language data.</p>';
+
+  const rowHeight = 24;
+  const labelWidth = 110;
+  const barWidth = 260;
+  const max = Math.max(...data.map(d => d.count));
+  const height = data.length * rowHeight;
+
+  const rows = data.map((d, i) => {
+    const y = i * rowHeight;
+    const width = max > 0 ? (d.count / max) * barWidth : 0;
+    return `
+      <text x="${labelWidth - 8}" y="${y + 16}" text-anchor="end" class="chart-label">${escapeHtml(d.name)}</text>
+      <rect x="${labelWidth}" y="${y + 4}" width="${width.toFixed(1)}" height="16" rx="3" fill="${i % 2 === 0 ? '#3b82f6' : '#6366f1'}" />
+      <text x="${labelWidth + width + 6}" y="${y + 16}" class="chart-value">${d.count}</text>`;
+  }).join('');
+
+  return `<svg viewBox="0 0 ${labelWidth + barWidth + 40} ${height}" width="100%" role="img" aria-label="Primary languages">${rows}</svg>`;
+};
+
+const renderRadarChart = (repo: RepoAnalysis, rubric: Rubric): string => {
+  const size = 240;
+  const center = size / 2;
+  const radius = 80;
+  const dimensions = rubric.dimensions;
+  const count = dimensions.length;
+  const point = (index: number, value: number) => {
+    const angle = (Math.PI * 2 * index) / count - Math.PI / 2;
+    const r = (radius * value) / 5;
+    return [center + r * Math.cos(angle), center + r * Math.sin(angle)];
+  };
+
+  const rings = [1, 2, 3, 4, 5].map(level =>
+    `<polygon points="${dimensions.map((_, i) => point(i, level).map(n => n.toFixed(1)).join(',')).join(' ')}" class="radar-grid" />`
+  ).join('');
+
+  const axes = dimensions.map((dimension, i) => {
+    const [x, y] = point(i, 5);
+    const [lx, ly] = point(i, 6.1);
+    const anchor = Math.abs(lx - center) < 4 ? 'middle' : lx > center ? 'start' : 'end';
+    return `
+      <line x1="${center}" y1="${center}" x2="${x.toFixed(1)}" y2="${y.toFixed(1)}" class="radar-grid" />
+      <text x="${lx.toFixed(1)}" y="${(ly + 3).toFixed(1)}" text-anchor="${anchor}" class="chart-label">${escapeHtml(dimension.label)}</text>`;
+  }).join('');
+
+  const shape = dimensions.map((dimension, i) => point(i, repo.audit.scores[dimension.id] || 0).map(n => n.toFixed(1)).join(',')).join(' ');
+
+  return `
+    <svg viewBox="0 0 ${size} ${size}" width="240" height="240" role="img" aria-label="Health audit for ${escapeHtml(repo.name)}">
+      ${rings}${axes}
+      <polygon points="${shape}" class="radar-shape" />
+    </svg>`;
+};
+
+// --- SECTIONS ---
+const renderAction = (action: ActionItem) => `
+  <li class="action">
+    <div class="action-head"><strong>${escapeHtml(action.title)}</strong><span class="pill">${escapeHtml(action.effort)} effort</span></div>
+    <div class="mono accent">${escapeHtml(action.repo)}</div>
+    <p>${escapeHtml(action.rationale)}</p>
+    ${action.impact ? `<p class="muted">Impact: ${escapeHtml(action.impact)}</p>` : ''}
+  </li>`;
+
+const renderRepo = (repo: RepoAnalysis, rubric: Rubric) => {
+  const avg = weightedScore(repo.audit, rubric, repo.repoType);
+  const scores = rubric.dimensions.map(dimension => `
+    <tr><td>${escapeHtml(dimension.label)}</td><td class="num ${scoreClass(repo.audit.scores[dimension.id] ?? 0)}">${repo.audit.scores[dimension.id] ?? '—'}</td></tr>`).join('');
+
+  return `
+    <article class="repo" id="repo-${slugify(repo.name)}">
+      <header class="repo-head">
+        <div class="score ${scoreClass(avg)}">${avg.toFixed(1)}</div>
+        <div>
+          <h3><a href="${escapeHtml(repo.url)}">${escapeHtml(repo.name)}</a></h3>
+          <div class="muted"><span class="pill">${escapeHtml(repo.status)}</span>${repo.repoType ? ` <span class="pill">${REPO_TYPE_LABELS[repo.repoType]}</span>` : ''} ${escapeHtml(repo.primaryLanguage)}
+            ${repo.frameworks.map(fw => `<span class="pill">${escapeHtml(fw)}</span>`).join(' ')}</div>
+        </div>
+      </header>
+      <div class="repo-body">
+        <div>${renderRadarChart(repo, rubric)}</div>
+        <div>
+          <p>${escapeHtml(repo.description)}</p>
+          <h4>Rationale</h4>
+          <p>${escapeHtml(repo.audit.rationale)}</p>
+          ${renderCitations(repo.audit.citations)}
+          <h4>Top Fixes</h4>
+          <ul>${repo.audit.topFixes.map(fix => `<li>${escapeHtml(fix)}</li>`).join('')}</ul>
+        </div>
+        <table class="scores"><tbody>${scores}</tbody></table>
+      </div>
+    </article>`;
+};
+
+const REPORT_CSS = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif; color: #0f172a; background: #f8fafc; line-height: 1.5; }
+  main { max-width: 1040px; margin: 0 auto; padding: 32px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h1 span { color: #059669; }
+  h2 { font-size: 20px; margin: 32px 0 12px; border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; }
+  h3 { margin: 0; font-size: 17px; }
+  h4 { margin: 12px 0 4px; font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: #64748b; }
+  a { color: #4f46e5; text-decoration: none; }
+  p { margin: 4px 0; }
+  .muted { color: #64748b; font-size: 13px; }
+  .mono { font-family: "JetBrains Mono", ui-monospace, monospace; font-size: 12px; }
+  .accent { color: #4f46e5; }
+  .card { background: #fff; border: 1px solid #e2e8f0; border-radius: 10px; padding: 16px 20px; }
+  .grid { display: grid; gap: 16px; }
+  .grid-2 { grid-template-columns: 2fr 1fr; }
+  .grid-3 { grid-template-columns: repeat(3, 1fr); }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 16px; }
+  .stat { text-align: center; border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px; }
+  .stat b { display: block; font-size: 22px; }
+  .pill { display: inline-block; font-size: 11px; padding: 1px 8px; border-radius: 999px; background: #f1f5f9; border: 1px solid #e2e8f0; color: #334155; }
+  .capabilities .pill { background: #ecfdf5; border-color: #a7f3d0; color: #047857; font-size: 12px; }
+  .claims { padding-left: 18px; }
+  .claims li { color: #9a3412; margin-bottom: 8px; }
+  .claims li.severity-High .pill { background: #fef2f2; border-color: #fecaca; color: #b91c1c; }
+  .claims blockquote { margin: 4px 0 0; padding-left: 8px; border-left: 2px solid #fdba74; color: #64748b; font-size: 12px; }
+  .sources { margin-top: 4px; font-size: 11px; color: #64748b; }
+  .sources a { color: #4f46e5; margin-right: 6px; }
+  .priority-High { border-left: 4px solid #ef4444; }
+  .priority-Medium { border-left: 4px solid #eab308; }
+  .priority-Low { border-left: 4px solid #3b82f6; }
+  ul.actions { list-style: none; padding: 0; margin: 0; }
+  .action { border-top: 1px solid #f1f5f9; padding: 8px 0; font-size: 13px; }
+  .action-head { display: flex; justify-content: space-between; gap: 8px; }
+  .repo { background: #fff; border: 1px solid #e2e8f0; border-radius: 10px; padding: 16px 20px; margin-bottom: 16px; }
+  .repo-head { display: flex; gap: 12px; align-items: center; }
+  .repo-body { display: grid; grid-template-columns: 240px 1fr 180px; gap: 16px; align-items: start; font-size: 13px; }
+  .score { width: 44px; height: 44px; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-weight: 700; background: #f1f5f9; }
+  .good { color: #059669; } .fair { color: #ca8a04; } .poor { color: #dc2626; }
+  table.scores { border-collapse: collapse; width: 100%; }
+  table.scores td { border-bottom: 1px solid #f1f5f9; padding: 3px 4px; }
+  .num { text-align: right; font-weight: 600; }
+  .chart-label { font-size: 10px; fill: #475569; }
+  .chart-value { font-size: 10px; fill: #0f172a; }
+  .radar-grid { fill: none; stroke: #cbd5e1; stroke-width: 1; }
+  .radar-shape { fill: rgba(16, 185, 129, .3); stroke: #10b981; stroke-width: 2; }
+  .spotlight .factor { background: #f0fdf4; border-radius: 6px; padding: 8px; margin-top: 8px; font-size: 13px; color: #047857; }
+  footer { margin-top: 32px; color: #94a3b8; font-size: 12px; text-align: center; }
+
+  @page { size: A4; margin: 14mm; }
+  @media print {
+    body { background: #fff; font-size: 11px; }
+    main { max-width: none; padding: 0; }
+    a { color: inherit; }
+    .card, .repo { break-inside: avoid; page-break-inside: avoid; box-shadow: none; }
+    h2 { break-after: avoid; page-break-after: avoid; }
+    .section-repos { break-before: page; page-break-before: always; }
+    .repo-body { grid-template-columns: 200px 1fr 160px; }
+  }
+`;
+
+// --- SERVICES ---
+export interface ReportOptions {
+  title?: string;
+  generatedAt?: Date;
+}
+
+export const renderReportHtml = (result: AnalysisResult, options: ReportOptions = {}): string => {
+  const { summary, repos, actions, claimsCheck } = result;
+  const rubric = rubricOf(result);
+  const title = options.title || 'Portfolio Audit Report';
+  const generatedAt = options.generatedAt || new Date();
+
+  const sortedRepos = [...repos].sort((a, b) => {
+    if (a.status === 'Active' && b.status !== 'Active') return -1;
+    if (a.status !== 'Active' && b.status === 'Active') return 1;
+    return a.name.localeCompare(b.name);
+  });
+
+  const actionGroups = (['High', 'Medium', 'Low'] as const)
+    .map(priority => ({ priority, items: actions.filter(a => a.priority === priority) }))
+    .filter(group => group.items.length > 0);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<main>
+  <h1>Portfolio<span>Signal</span> · ${escapeHtml(title)}</h1>
+  <div class="muted">Generated ${escapeHtml(generatedAt.toLocaleString())}</div>
+
+  <h2>Executive Summary</h2>
+  <section class="grid grid-2">
+    <div class="card">
+      <p>${escapeHtml(summary.executiveSummary).replace(/\n/g, '<br />')}</p>
+      <div class="stats">
+        <div class="stat"><b>${summary.stats.totalRepos}</b><span class="muted">Total Repos</span></div>
+        <div class="stat"><b class="good">${summary.stats.activeCount}</b><span class="muted">Active</span></div>
+        <div class="stat"><b>${summary.stats.archivedCount}</b><span class="muted">Archived</span></div>
+        <div class="stat"><b class="accent">${Object.keys(summary.stats.languages || {}).length}</b><span class="muted">Languages</span></div>
+      </div>
+      <h4>Engineering Capabilities</h4>
+      <div class="capabilities">${summary.capabilities.map(cap => `<span class="pill">${escapeHtml(cap)}</span>`).join(' ')}</div>
+    </div>
+    <div class="grid">
+      <div class="card">
+        <h4>Primary Languages</h4>
+        ${renderLanguageChart(summary.stats.languages)}
+      </div>
+      <div class="card">
+        <h4>Claims Check</h4>
+        ${claimsCheck.length > 0
+          ? `<ul class="claims">${[...claimsCheck].sort(compareClaims).map(renderClaim).join('')}</ul>`
+          : '<p class="good">No contradictions found.</p>'}
+      </div>
+    </div>
+  </section>
+
+  <h2>Prioritized Action Plan</h2>
+  <section class="grid grid-3">
+    ${actionGroups.map(({ priority, items }) => `
+      <div class="card priority-${priority}">
+        <h4>${priority} Priority</h4>
+        <ul class="actions">${items.map(renderAction).join('')}</ul>
+      </div>`).join('')}
+  </section>
+
+  <section class="section-repos">
+    <h2>Repository Audit</h2>
+    <p class="muted">Scored with the ${escapeHtml(rubric.name)} rubric; the overall score is the weighted mean for each repo's type.</p>
+    ${sortedRepos.map(repo => renderRepo(repo, rubric)).join('')}
+  </section>
+
+  <h2>Spotlight Projects</h2>
+  <section class="grid grid-3">
+    ${summary.spotlightProjects.map(project => `
+      <div class="card spotlight">
+        <h3>${escapeHtml(project.name)}</h3>
+        <p class="muted">${escapeHtml(project.description)}</p>
+        <div class="factor"><strong>Impressive Factor:</strong> ${escapeHtml(project.impressiveFactor)}</div>
+        ${renderCitations(project.citations)}
+      </div>`).join('')}
+  </section>
+
+  <footer>Generated by PortfolioSignal. Scores are 0–5 per audit dimension.</footer>
+</main>
+</body>
+</html>`;
+};
+
+export const downloadReport = (result: AnalysisResult, options: ReportOptions = {}) => {
+  const html = renderReportHtml(result, options);
+  downloadBlob(
+    new Blob([html], { type: 'text/html' }),
+    `portfolio-audit-${(options.generatedAt || new Date()).toISOString().slice(0, 10)}.html`
+  );
+};
+
+// Opens the report in a new window and triggers the browser's print dialog ("Save as PDF").
+export const printReport = (result: AnalysisResult, options: ReportOptions = {}) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error("Pop-up blocked. Allow pop-ups to export the PDF report.");
+  }
+  win.document.open();
+  win.document.write(renderReportHtml(result, options));
+  win.document.close();
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    win.print();
+  };
+  win.onload = print;
+  // Some browsers don't fire onload for document.write content.
+  setTimeout(print, 500);
+};
@@ -0,0 +1,120 @@
+import { codeForStatus, GeminiError } from './errors';
+
+export interface RequestPolicy {
+  // Additional attempts after the first one, for retryable failures only.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt timeout; 0 disables it.
+  timeoutMs: number;
+}
+
+export interface CallOptions extends Partial<RequestPolicy> {
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: GeminiError) => void;
+}
+
+export const DEFAULT_POLICY: RequestPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  timeoutMs: 60000,
+};
+
+// --- UTILITIES ---
+const abortedError = () => new GeminiError("Request was cancelled.", undefined, 'aborted');
+
+// Normalizes SDK, fetch and timeout errors into a GeminiError with a code.
+export const toGeminiError = (error: any): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  if (error?.name === 'AbortError') return abortedError();
+
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status !== undefined) {
+    return new GeminiError(error.message || `Request failed with status ${status}.`, error, codeForStatus(status));
+  }
+  // fetch() rejects with a TypeError when the network request itself fails.
+  if (error instanceof TypeError) {
+    return new GeminiError(error.message || "Network request failed.", error, 'network');
+  }
+  const message: string = error?.message || "Unknown error.";
+  if (/\b(429|RESOURCE_EXHAUSTED)\b/.test(message)) return new GeminiError(message, error, 'rate_limited');
+  if (/\b(500|502|503|504|UNAVAILABLE|overloaded)\b/i.test(message)) return new GeminiError(message, error, 'unavailable');
+  return new GeminiError(message, error);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortedError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Full jitter: a random delay between 0 and the exponential cap.
+const backoffDelay = (attempt: number, policy: RequestPolicy) =>
+  Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+
+const runAttempt = async <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outer?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  try {
+    // Race against the abort so providers that ignore the signal still stop waiting.
+    return await Promise.race([
+      fn(controller.signal),
+      new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(abortedError()), { once: true })),
+    ]);
+  } catch (error) {
+    if (timedOut) throw new GeminiError(`Request timed out after ${Math.ceil(timeoutMs / 1000)}s.`, error, 'timeout');
+    throw toGeminiError(error);
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onAbort);
+  }
+};
+
+// --- SERVICES ---
+export const withRetry = async <T>(fn: (signal: AbortSignal) => Promise<T>, options: CallOptions = {}): Promise<T> => {
+  const policy: RequestPolicy = {
+    retries: options.retries ?? DEFAULT_POLICY.retries,
+    baseDelayMs: options.baseDelayMs ?? DEFAULT_POLICY.baseDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_POLICY.maxDelayMs,
+    timeoutMs: options.timeoutMs ?? DEFAULT_POLICY.timeoutMs,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw abortedError();
+    try {
+      return await runAttempt(fn, policy.timeoutMs, options.signal);
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      if (!geminiError.retryable || attempt >= policy.retries || options.signal?.aborted) throw geminiError;
+
+      const delay = backoffDelay(attempt, policy);
+      options.onRetry?.(attempt + 1, delay, geminiError);
+      await sleep(delay, options.signal);
+    }
+  }
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof GeminiError && error.code === 'aborted';
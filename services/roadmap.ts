@@ -0,0 +1,248 @@
+import { ActionItem, TrackedAction } from '../types';
+import { ACTION_STATUS_LABELS } from './actionTracker';
+
+// --- MATRIX ---
+export type Quadrant = 'quickWin' | 'majorProject' | 'fillIn' | 'thankless';
+
+export const QUADRANT_LABELS: Record<Quadrant, string> = {
+  quickWin: 'Quick wins',
+  majorProject: 'Major projects',
+  fillIn: 'Fill-ins',
+  thankless: 'Thankless tasks',
+};
+
+const IMPACT_RANK: Record<ActionItem['priority'], number> = { High: 3, Medium: 2, Low: 1 };
+const EFFORT_RANK: Record<ActionItem['effort'], number> = { Small: 1, Medium: 2, Large: 3 };
+
+// Priority stands in for impact. High and Medium count as high impact; only Small counts as low effort.
+export const quadrantOf = (item: ActionItem): Quadrant => {
+  const highImpact = IMPACT_RANK[item.priority] >= 2;
+  const lowEffort = item.effort === 'Small';
+  if (highImpact) return lowEffort ? 'quickWin' : 'majorProject';
+  return lowEffort ? 'fillIn' : 'thankless';
+};
+
+export const isQuickWin = (item: ActionItem) => quadrantOf(item) === 'quickWin';
+
+// Impact per unit of effort; the roadmap schedules higher values first.
+export const valueScore = (item: ActionItem) => IMPACT_RANK[item.priority] / EFFORT_RANK[item.effort];
+
+// --- SCHEDULING ---
+export type RoadmapCadence = 'sprint' | 'quarter';
+
+export interface RoadmapConfig {
+  cadence: RoadmapCadence;
+  // Engineer-weeks the team can spend on the plan in each sprint or quarter.
+  capacity: number;
+  effortWeeks: Record<ActionItem['effort'], number>;
+  // ISO date (YYYY-MM-DD) the first period starts on.
+  startDate: string;
+}
+
+export const SPRINT_WEEKS = 2;
+export const QUARTER_WEEKS = 13;
+
+export const DEFAULT_EFFORT_WEEKS: Record<ActionItem['effort'], number> = { Small: 0.5, Medium: 2, Large: 5 };
+
+// Nothing is scheduled past this many periods; the rest is reported as over capacity.
+const MAX_PERIODS = 104;
+
+export interface ScheduledAction {
+  action: TrackedAction;
+  weeks: number;
+  // First and last period the action takes capacity from.
+  startPeriod: number;
+  endPeriod: number;
+}
+
+export interface RoadmapPeriod {
+  index: number;
+  label: string;
+  start: string;
+  end: string;
+  // Actions that take capacity in this period, including ones that span several.
+  actions: ScheduledAction[];
+  load: number;
+}
+
+export interface Roadmap {
+  periods: RoadmapPeriod[];
+  unscheduled: { action: TrackedAction; reason: string }[];
+  totalWeeks: number;
+}
+
+const addDays = (iso: string, days: number) => {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const periodBounds = (config: RoadmapConfig, index: number) => {
+  const weeks = config.cadence === 'sprint' ? SPRINT_WEEKS : QUARTER_WEEKS;
+  const start = addDays(config.startDate, index * weeks * 7);
+  return { start, end: addDays(start, weeks * 7 - 1) };
+};
+
+const periodLabel = (config: RoadmapConfig, index: number, start: string) => {
+  if (config.cadence === 'sprint') return `Sprint ${index + 1}`;
+  const date = new Date(`${start}T00:00:00Z`);
+  return `${date.getUTCFullYear()} Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+};
+
+const rank = (a: TrackedAction, b: TrackedAction) =>
+  valueScore(b.item) - valueScore(a.item) ||
+  IMPACT_RANK[b.item.priority] - IMPACT_RANK[a.item.priority] ||
+  (a.dueDate || '9999').localeCompare(b.dueDate || '9999') ||
+  a.item.title.localeCompare(b.item.title);
+
+const isOpen = (action: TrackedAction) => action.status === 'todo' || action.status === 'inProgress';
+
+// Greedy list scheduling: repeatedly take the most valuable action whose dependencies are
+// scheduled, and fill capacity from the first period after they end. Large actions span periods.
+// Dependencies only count between open actions of the same repo; finished ones are satisfied.
+export const buildRoadmap = (actions: TrackedAction[], config: RoadmapConfig): Roadmap => {
+  const open = actions.filter(isOpen);
+  const byId = new Map(open.map(a => [a.id, a]));
+  const depsOf = (action: TrackedAction) =>
+    (action.dependsOn || []).filter(id => byId.has(id) && byId.get(id)!.item.repo === action.item.repo);
+
+  const remaining = new Map<number, number>();
+  const free = (period: number) => remaining.get(period) ?? config.capacity;
+  const scheduled = new Map<string, ScheduledAction>();
+  const unscheduled: Roadmap['unscheduled'] = [];
+  const pending = [...open].sort(rank);
+
+  const failed = new Set<string>();
+  while (pending.length > 0) {
+    const next = pending.findIndex(a => depsOf(a).every(id => scheduled.has(id) || failed.has(id)));
+    if (next < 0) {
+      // Whatever is left waits on itself, directly or through another action still pending.
+      pending.forEach(action => unscheduled.push({ action, reason: "Part of, or waiting on, a dependency cycle." }));
+      break;
+    }
+    const [action] = pending.splice(next, 1);
+    if (depsOf(action).some(id => failed.has(id))) {
+      failed.add(action.id);
+      unscheduled.push({ action, reason: "Depends on an action that could not be scheduled." });
+      continue;
+    }
+    const weeks = config.effortWeeks[action.item.effort];
+    let period = Math.max(0, ...depsOf(action).map(id => scheduled.get(id)!.endPeriod + 1));
+    while (period < MAX_PERIODS && free(period) <= 0) period++;
+
+    const startPeriod = period;
+    let left = weeks;
+    const taken: [number, number][] = [];
+    while (left > 1e-9 && period < MAX_PERIODS) {
+      const take = Math.min(left, free(period));
+      taken.push([period, take]);
+      remaining.set(period, free(period) - take);
+      left -= take;
+      if (left > 1e-9) period++;
+    }
+    if (left > 1e-9) {
+      taken.forEach(([p, take]) => remaining.set(p, free(p) + take));
+      failed.add(action.id);
+      unscheduled.push({ action, reason: `Does not fit in ${MAX_PERIODS} periods at this capacity.` });
+      continue;
+    }
+    scheduled.set(action.id, { action, weeks, startPeriod, endPeriod: period });
+  }
+
+  const lastPeriod = Math.max(-1, ...Array.from(scheduled.values()).map(s => s.endPeriod));
+  const periods: RoadmapPeriod[] = [];
+  for (let index = 0; index <= lastPeriod; index++) {
+    const { start, end } = periodBounds(config, index);
+    const inPeriod = Array.from(scheduled.values())
+      .filter(s => s.startPeriod <= index && s.endPeriod >= index)
+      .sort((a, b) => a.startPeriod - b.startPeriod || rank(a.action, b.action));
+    periods.push({
+      index,
+      label: periodLabel(config, index, start),
+      start,
+      end,
+      actions: inPeriod,
+      load: config.capacity - free(index),
+    });
+  }
+
+  return {
+    periods,
+    unscheduled,
+    totalWeeks: Array.from(scheduled.values()).reduce((sum, s) => sum + s.weeks, 0),
+  };
+};
+
+// --- EXPORT ---
+const titleOf = (actions: TrackedAction[], id: string) => actions.find(a => a.id === id)?.item.title || id;
+
+const dependencyTitles = (action: TrackedAction, all: TrackedAction[]) =>
+  (action.dependsOn || []).map(id => titleOf(all, id));
+
+const formatWeeks = (weeks: number) => `${Math.round(weeks * 10) / 10}`;
+
+export const roadmapMarkdown = (roadmap: Roadmap, config: RoadmapConfig, all: TrackedAction[]): string => {
+  const lines = [
+    '# Roadmap',
+    '',
+    `Capacity: ${config.capacity} engineer-weeks per ${config.cadence}. Scheduled work: ${formatWeeks(roadmap.totalWeeks)} engineer-weeks.`,
+    '',
+  ];
+  roadmap.periods.forEach(period => {
+    lines.push(`## ${period.label} (${period.start} – ${period.end})`, '');
+    lines.push(`Load: ${formatWeeks(period.load)} / ${config.capacity} engineer-weeks`, '');
+    lines.push('| Action | Repo | Priority | Effort | Weeks | Status | Depends on |', '| --- | --- | --- | --- | --- | --- | --- |');
+    period.actions.forEach(({ action, weeks, startPeriod, endPeriod }) => {
+      const span = startPeriod === endPeriod ? '' : ` (${period.index === startPeriod ? 'starts' : period.index === endPeriod ? 'ends' : 'continues'})`;
+      const cells = [
+        `${action.item.title}${isQuickWin(action.item) ? ' ⚡' : ''}${span}`,
+        action.item.repo,
+        action.item.priority,
+        action.item.effort,
+        formatWeeks(weeks),
+        ACTION_STATUS_LABELS[action.status],
+        dependencyTitles(action, all).join('; '),
+      ];
+      lines.push(`| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`);
+    });
+    lines.push('');
+  });
+  if (roadmap.unscheduled.length > 0) {
+    lines.push('## Not scheduled', '');
+    roadmap.unscheduled.forEach(({ action, reason }) => lines.push(`- ${action.item.title} (${action.item.repo}): ${reason}`));
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per action, in the period it starts.
+export const roadmapCsv = (roadmap: Roadmap, all: TrackedAction[]): string => {
+  const rows = [['Period', 'Start', 'End', 'Title', 'Repo', 'Priority', 'Effort', 'Weeks', 'Quick win', 'Status', 'Assignee', 'Depends on', 'Note']];
+  roadmap.periods.forEach(period => {
+    period.actions
+      .filter(s => s.startPeriod === period.index)
+      .forEach(({ action, weeks, endPeriod }) => {
+        rows.push([
+          period.label,
+          period.start,
+          roadmap.periods[endPeriod].end,
+          action.item.title,
+          action.item.repo,
+          action.item.priority,
+          action.item.effort,
+          formatWeeks(weeks),
+          isQuickWin(action.item) ? 'yes' : 'no',
+          ACTION_STATUS_LABELS[action.status],
+          action.assignee,
+          dependencyTitles(action, all).join('; '),
+          '',
+        ]);
+      });
+  });
+  roadmap.unscheduled.forEach(({ action, reason }) => {
+    rows.push(['Not scheduled', '', '', action.item.title, action.item.repo, action.item.priority, action.item.effort, '', isQuickWin(action.item) ? 'yes' : 'no', ACTION_STATUS_LABELS[action.status], action.assignee, dependencyTitles(action, all).join('; '), reason]);
+  });
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
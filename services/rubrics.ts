@@ -0,0 +1,178 @@
+import { AnalysisResult, RepoAudit, RepoType, Rubric, RubricDimension } from '../types';
+import { BUILT_IN_DIMENSIONS, DIMENSION_LABELS } from './scoringEngine';
+
+export const REPO_TYPES: RepoType[] = ['library', 'service', 'cli', 'template'];
+
+export const REPO_TYPE_LABELS: Record<RepoType, string> = {
+  library: 'Library',
+  service: 'Service',
+  cli: 'CLI',
+  template: 'Template',
+};
+
+const BUILT_IN_DESCRIPTIONS: Record<string, string> = {
+  documentation: 'README, guides and API docs that let a newcomer use and contribute to the project.',
+  buildDevX: 'Reproducible setup: manifest, lockfile, linters and a one-command build.',
+  testing: 'Automated tests with a configured runner that CI executes.',
+  ciCd: 'CI that builds and tests every change, plus automated dependency updates.',
+  security: 'Disclosure policy, pinned dependencies, update automation and review ownership.',
+  observability: 'Error tracking, metrics, tracing and structured logging.',
+  maintainability: 'Static checks, type checking, recent activity and clear ownership.',
+  productionReadiness: 'Releases, license, changelog and packaging fit for production use.',
+};
+
+// The eight built-in dimensions, weighted equally. Results without a rubric were scored with it.
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'standard',
+  name: 'Standard',
+  dimensions: BUILT_IN_DIMENSIONS.map(id => ({
+    id,
+    label: DIMENSION_LABELS[id],
+    description: BUILT_IN_DESCRIPTIONS[id],
+    weight: 1,
+  })),
+  profiles: {},
+};
+
+export const isBuiltInRubric = (rubric: Rubric) => rubric.id === DEFAULT_RUBRIC.id;
+
+export const rubricOf = (result: Pick<AnalysisResult, 'rubric'>): Rubric => result.rubric || DEFAULT_RUBRIC;
+
+export const dimensionIds = (rubric: Rubric): string[] => rubric.dimensions.map(d => d.id);
+
+export const dimensionLabel = (rubric: Rubric, id: string): string =>
+  rubric.dimensions.find(d => d.id === id)?.label || (DIMENSION_LABELS as Record<string, string>)[id] || id;
+
+// Weight of every dimension for a repo type; the type's profile overrides the rubric weights.
+export const dimensionWeights = (rubric: Rubric, repoType?: RepoType): Record<string, number> => {
+  const profile = (repoType && rubric.profiles[repoType]) || {};
+  return Object.fromEntries(rubric.dimensions.map(d => [d.id, profile[d.id] ?? d.weight]));
+};
+
+// Weighted mean of the scores on the 0-5 scale. Dimensions without a score are left out.
+export const weightedScore = (audit: RepoAudit, rubric: Rubric, repoType?: RepoType): number => {
+  const weights = dimensionWeights(rubric, repoType);
+  let total = 0;
+  let weightSum = 0;
+  for (const [id, weight] of Object.entries(weights)) {
+    const score = audit.scores[id];
+    if (weight <= 0 || typeof score !== 'number') continue;
+    total += score * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : 0;
+};
+
+// Prompt lines describing what each dimension measures.
+export const renderRubricPrompt = (rubric: Rubric): string =>
+  rubric.dimensions.map(d => `- ${d.id} (${d.label}): ${d.description}`).join('\n');
+
+// Old results kept the eight built-in scores as top-level audit fields.
+export const upgradeLegacyAudit = (audit: Record<string, any>): RepoAudit => {
+  if (audit.scores && typeof audit.scores === 'object') return audit as RepoAudit;
+  const { scores, ...rest } = audit;
+  const upgraded: Record<string, any> = { ...rest, scores: {} };
+  for (const id of BUILT_IN_DIMENSIONS) {
+    if (id in upgraded) {
+      upgraded.scores[id] = upgraded[id];
+      delete upgraded[id];
+    }
+  }
+  return upgraded as RepoAudit;
+};
+
+export const upgradeLegacyResult = (result: AnalysisResult): AnalysisResult => ({
+  ...result,
+  repos: result.repos.map(repo => (repo && repo.audit ? { ...repo, audit: upgradeLegacyAudit(repo.audit) } : repo)),
+});
+
+// --- EDITING ---
+const DIMENSION_ID = /^[A-Za-z][A-Za-z0-9]*$/;
+
+// camelCase id for a new dimension label, e.g. "Infra as Code" -> "infraAsCode".
+export const dimensionIdFor = (label: string): string => {
+  const words = label.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const id = words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join('');
+  return /^[A-Za-z]/.test(id) ? id : `d${id}`;
+};
+
+export const validateRubric = (rubric: Rubric): string[] => {
+  const problems: string[] = [];
+  if (!rubric.name.trim()) problems.push("The rubric needs a name.");
+  if (rubric.dimensions.length === 0) problems.push("Add at least one dimension.");
+  const seen = new Set<string>();
+  rubric.dimensions.forEach((d, i) => {
+    const name = d.label.trim() || `Dimension ${i + 1}`;
+    if (!d.label.trim()) problems.push(`${name} needs a label.`);
+    if (!DIMENSION_ID.test(d.id)) problems.push(`${name}: the id must be letters and digits, starting with a letter.`);
+    else if (seen.has(d.id)) problems.push(`${name}: the id "${d.id}" is used twice.`);
+    seen.add(d.id);
+    if (!d.description.trim()) problems.push(`${name} needs a description; the model scores against it.`);
+    if (!(d.weight >= 0)) problems.push(`${name}: the weight cannot be negative.`);
+  });
+  REPO_TYPES.forEach(type => {
+    const weights = Object.values(dimensionWeights(rubric, type));
+    if (rubric.dimensions.length > 0 && !weights.some(w => w > 0)) {
+      problems.push(`Every ${REPO_TYPE_LABELS[type]} weight is 0, so those repos cannot be scored.`);
+    }
+  });
+  return problems;
+};
+
+// --- PERSISTENCE ---
+const STORAGE_KEY = 'portfolio-signal:rubrics';
+
+export interface RubricLibrary {
+  // User rubrics; the built-in DEFAULT_RUBRIC is always available and not stored.
+  rubrics: Rubric[];
+  activeId: string;
+}
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  !!value && typeof value === 'object' && Object.values(value).every(v => typeof v === 'number');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeDimension = (raw: unknown): RubricDimension | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  return {
+    id: raw.id,
+    label: typeof raw.label === 'string' ? raw.label : raw.id,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    weight: typeof raw.weight === 'number' ? raw.weight : 1,
+  };
+};
+
+const normalizeRubric = (raw: unknown): Rubric | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !Array.isArray(raw.dimensions)) return null;
+  const dimensions = raw.dimensions.map(normalizeDimension).filter((d): d is RubricDimension => !!d);
+  const stored = isRecord(raw.profiles) ? raw.profiles : {};
+  const profiles: Rubric['profiles'] = {};
+  REPO_TYPES.forEach(type => {
+    const profile = stored[type];
+    if (isNumberRecord(profile)) profiles[type] = profile;
+  });
+  return { id: raw.id, name: typeof raw.name === 'string' ? raw.name : raw.id, dimensions, profiles };
+};
+
+export const loadRubricLibrary = (): RubricLibrary => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    if (!isRecord(stored)) return { rubrics: [], activeId: DEFAULT_RUBRIC.id };
+    const rubrics = (Array.isArray(stored.rubrics) ? stored.rubrics : [])
+      .map(normalizeRubric)
+      .filter((r): r is Rubric => !!r && !isBuiltInRubric(r));
+    const active = rubrics.find(r => r.id === stored.activeId);
+    return { rubrics, activeId: active ? active.id : DEFAULT_RUBRIC.id };
+  } catch {
+    return { rubrics: [], activeId: DEFAULT_RUBRIC.id };
+  }
+};
+
+export const saveRubricLibrary = (library: RubricLibrary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+};
+
+export const activeRubric = (library: RubricLibrary = loadRubricLibrary()): Rubric =>
+  library.rubrics.find(r => r.id === library.activeId) || DEFAULT_RUBRIC;
@@ -0,0 +1,61 @@
+import { Schema, Type } from "@google/genai";
+import { ValidationIssue } from './errors';
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+// Walks `value` against a Gemini response schema and reports every mismatch.
+// Properties not declared in the schema are allowed so that locally attached
+// data (facts, baselines) survives a round trip.
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = ''): ValidationIssue[] => {
+  const at = path || '(root)';
+
+  if (value === undefined || value === null) {
+    return schema.nullable ? [] : [{ path: at, message: `Expected ${schema.type?.toLowerCase() || 'a value'}, got ${describe(value)}.` }];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path: at, message: `Expected object, got ${describe(value)}.` }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) issues.push({ path: joinPath(path, key), message: 'Required field is missing.' });
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) issues.push(...validateAgainstSchema(record[key], propertySchema, joinPath(path, key)));
+      }
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [{ path: at, message: `Expected array, got ${describe(value)}.` }];
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, joinPath(path, i)));
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') return [{ path: at, message: `Expected string, got ${describe(value)}.` }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path: at, message: `"${value}" is not one of: ${schema.enum.join(', ')}.` }];
+      }
+      return [];
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [{ path: at, message: `Expected number, got ${describe(value)}.` }];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [{ path: at, message: 'Expected an integer.' }];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [{ path: at, message: `Expected boolean, got ${describe(value)}.` }];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,175 @@
+import { Type, Schema } from "@google/genai";
+import { Rubric } from '../types';
+import { dimensionIds, REPO_TYPES } from './rubrics';
+
+// Response schemas for the portfolio audit. They drive structured model output
+// and double as the runtime validation rules for model responses and imported files.
+// The audit scores one property per rubric dimension, so the schema is built per rubric.
+export const auditSchemaFor = (rubric: Rubric): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    scores: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(rubric.dimensions.map(d => [d.id, { type: Type.NUMBER, description: `Score 0-5. ${d.description}` }])),
+      required: dimensionIds(rubric)
+    },
+    rationale: { type: Type.STRING },
+    topFixes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    adjustments: {
+      type: Type.ARRAY,
+      description: "One entry per dimension whose score differs from the provided rule-based baseline",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dimension: { type: Type.STRING, enum: dimensionIds(rubric) },
+          justification: { type: Type.STRING }
+        },
+        required: ["dimension", "justification"]
+      }
+    }
+  },
+  required: ["scores", "rationale", "topFixes"]
+});
+
+export const repoSchemaFor = (rubric: Rubric): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    url: { type: Type.STRING },
+    status: { type: Type.STRING, enum: ['Active', 'Dormant', 'Archived', 'Template', 'Fork', 'Unknown'] },
+    repoType: { type: Type.STRING, enum: REPO_TYPES, description: "What the repository ships: a library, a deployed service, a CLI, or a template/starter" },
+    primaryLanguage: { type: Type.STRING },
+    frameworks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    audit: auditSchemaFor(rubric),
+    description: { type: Type.STRING }
+  },
+  required: ["name", "url", "status", "primaryLanguage", "audit", "description"]
+});
+
+export const actionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    repo: { type: Type.STRING },
+    priority: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
+    impact: { type: Type.STRING },
+    effort: { type: Type.STRING, enum: ['Small', 'Medium', 'Large'] },
+    rationale: { type: Type.STRING }
+  },
+  required: ["title", "repo", "priority", "impact", "effort", "rationale"]
+};
+
+// What the model returns per claim. `contradicts` is resolved locally into the stored
+// contextSentence and contextIndex.
+export const claimSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    statement: { type: Type.STRING, description: "What the audit evidence shows, stated as a contradiction of the context" },
+    severity: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
+    repo: { type: Type.STRING, description: "The repository the evidence comes from, if the claim is about one" },
+    contradicts: { type: Type.INTEGER, description: "Number of the contradicted context sentence" }
+  },
+  required: ["statement", "severity"]
+};
+
+const citationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    url: { type: Type.STRING },
+    title: { type: Type.STRING },
+    snippet: { type: Type.STRING }
+  },
+  required: ["url"]
+};
+
+// A claim as kept in an analysis, with its grounding.
+const storedClaimSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    statement: { type: Type.STRING },
+    severity: { type: Type.STRING, enum: ['High', 'Medium', 'Low'] },
+    repo: { type: Type.STRING },
+    contextSentence: { type: Type.STRING },
+    contextIndex: { type: Type.INTEGER },
+    citations: { type: Type.ARRAY, items: citationSchema }
+  },
+  required: ["statement", "severity"]
+};
+
+export const summarySchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    executiveSummary: { type: Type.STRING },
+    stats: {
+      type: Type.OBJECT,
+      properties: {
+        totalRepos: { type: Type.NUMBER },
+        activeCount: { type: Type.NUMBER },
+        archivedCount: { type: Type.NUMBER },
+        languages: { type: Type.OBJECT, description: "Key is language name, value is count" }
+      },
+      required: ["totalRepos", "activeCount", "archivedCount"]
+    },
+    capabilities: { type: Type.ARRAY, items: { type: Type.STRING } },
+    spotlightProjects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          impressiveFactor: { type: Type.STRING }
+        },
+        required: ["name", "description", "impressiveFactor"]
+      }
+    }
+  },
+  required: ["executiveSummary", "stats", "capabilities", "spotlightProjects"]
+};
+
+export const rubricSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    name: { type: Type.STRING },
+    dimensions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          label: { type: Type.STRING },
+          description: { type: Type.STRING },
+          weight: { type: Type.NUMBER }
+        },
+        required: ["id", "label", "description", "weight"]
+      }
+    },
+    profiles: { type: Type.OBJECT, description: "Key is repo type, value maps dimension id to weight" }
+  },
+  required: ["id", "name", "dimensions", "profiles"]
+};
+
+// A whole analysis, validated against the rubric its repos were scored with.
+export const rootSchemaFor = (rubric: Rubric): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: summarySchema,
+    repos: { type: Type.ARRAY, items: repoSchemaFor(rubric) },
+    actions: { type: Type.ARRAY, items: actionSchema },
+    claimsCheck: { type: Type.ARRAY, items: storedClaimSchema },
+    rubric: rubricSchema
+  },
+  required: ["summary", "repos", "actions", "claimsCheck"]
+});
+
+// Final phase of a progressive analysis: everything except the per-repo audits.
+export const portfolioSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: summarySchema,
+    actions: { type: Type.ARRAY, items: actionSchema },
+    claimsCheck: { type: Type.ARRAY, items: claimSchema }
+  },
+  required: ["summary", "actions", "claimsCheck"]
+};
@@ -0,0 +1,137 @@
+import { BuiltInDimension, DimensionBaseline, RepoAudit, RepoFacts, ScoreAdjustment } from '../types';
+
+export const BUILT_IN_DIMENSIONS: BuiltInDimension[] = [
+  'documentation',
+  'buildDevX',
+  'testing',
+  'ciCd',
+  'security',
+  'observability',
+  'maintainability',
+  'productionReadiness'
+];
+
+export const DIMENSION_LABELS: Record<BuiltInDimension, string> = {
+  documentation: 'Docs',
+  buildDevX: 'DevX',
+  testing: 'Testing',
+  ciCd: 'CI/CD',
+  security: 'Security',
+  observability: 'Observability',
+  maintainability: 'Maintainability',
+  productionReadiness: 'Prod Ready',
+};
+
+// The model may move a score at most this far from the rule-based baseline.
+export const MAX_ADJUSTMENT = 1.5;
+
+export interface ScoringRule {
+  id: string;
+  dimension: BuiltInDimension;
+  description: string;
+  weight: number;
+  test: (facts: RepoFacts) => boolean;
+}
+
+const RECENT_COMMIT_DAYS = 180;
+
+const committedWithin = (facts: RepoFacts, days: number) =>
+  !!facts.lastCommitAt && Date.now() - new Date(facts.lastCommitAt).getTime() <= days * 24 * 60 * 60 * 1000;
+
+const hasTests = (facts: RepoFacts) => facts.testDirectories.length > 0;
+
+// --- RULES ---
+// Baseline for a dimension = 5 * (sum of fired weights / sum of all weights), rounded to 0.5.
+export const SCORING_RULES: ScoringRule[] = [
+  { id: 'docs.readme', dimension: 'documentation', weight: 3, description: 'README at repository root', test: f => f.hasReadme },
+  { id: 'docs.directory', dimension: 'documentation', weight: 2, description: 'Dedicated docs/ directory', test: f => f.hasDocsDirectory },
+  { id: 'docs.contributing', dimension: 'documentation', weight: 1, description: 'CONTRIBUTING guide', test: f => f.hasContributing },
+  { id: 'docs.changelog', dimension: 'documentation', weight: 1, description: 'CHANGELOG at repository root', test: f => f.hasChangelog },
+
+  { id: 'devx.manifest', dimension: 'buildDevX', weight: 2, description: 'Package manifest declares dependencies', test: f => f.manifests.length > 0 },
+  { id: 'devx.lockfile', dimension: 'buildDevX', weight: 2, description: 'Dependency lockfile committed', test: f => f.lockfiles.length > 0 },
+  { id: 'devx.linter', dimension: 'buildDevX', weight: 2, description: 'Linter or formatter configured', test: f => f.linters.length > 0 },
+  { id: 'devx.container', dimension: 'buildDevX', weight: 1, description: 'Dockerfile, compose file or devcontainer', test: f => f.hasContainer },
+
+  { id: 'testing.directory', dimension: 'testing', weight: 3, description: 'Test directory present', test: hasTests },
+  { id: 'testing.runner', dimension: 'testing', weight: 2, description: 'Test runner configured', test: f => f.testRunners.length > 0 },
+  { id: 'testing.ci', dimension: 'testing', weight: 2, description: 'CI pipeline runs tests', test: f => f.ciRunsTests },
+
+  { id: 'ci.config', dimension: 'ciCd', weight: 3, description: 'CI configuration present', test: f => f.ciWorkflows.length > 0 },
+  { id: 'ci.tests', dimension: 'ciCd', weight: 2, description: 'CI pipeline runs tests', test: f => f.ciRunsTests },
+  { id: 'ci.dependencyBot', dimension: 'ciCd', weight: 1, description: 'Dependabot or Renovate configured', test: f => f.hasDependencyBot },
+
+  { id: 'security.policy', dimension: 'security', weight: 2, description: 'SECURITY.md disclosure policy', test: f => f.hasSecurityPolicy },
+  { id: 'security.dependencyBot', dimension: 'security', weight: 2, description: 'Automated dependency updates', test: f => f.hasDependencyBot },
+  { id: 'security.lockfile', dimension: 'security', weight: 1, description: 'Pinned dependency lockfile', test: f => f.lockfiles.length > 0 },
+  { id: 'security.codeowners', dimension: 'security', weight: 1, description: 'CODEOWNERS for review routing', test: f => f.hasCodeowners },
+
+  { id: 'observability.telemetry', dimension: 'observability', weight: 3, description: 'Error tracking, metrics or tracing library', test: f => f.telemetryLibraries.length > 0 },
+  { id: 'observability.logging', dimension: 'observability', weight: 2, description: 'Structured logging library', test: f => f.loggingLibraries.length > 0 },
+
+  { id: 'maintainability.linter', dimension: 'maintainability', weight: 2, description: 'Linter or formatter configured', test: f => f.linters.length > 0 },
+  { id: 'maintainability.types', dimension: 'maintainability', weight: 1, description: 'Static type checking configured', test: f => f.hasTypeChecking },
+  { id: 'maintainability.recent', dimension: 'maintainability', weight: 2, description: `Commit within the last ${RECENT_COMMIT_DAYS} days`, test: f => committedWithin(f, RECENT_COMMIT_DAYS) },
+  { id: 'maintainability.codeowners', dimension: 'maintainability', weight: 1, description: 'CODEOWNERS defines ownership', test: f => f.hasCodeowners },
+
+  { id: 'prod.ci', dimension: 'productionReadiness', weight: 1, description: 'CI configuration present', test: f => f.ciWorkflows.length > 0 },
+  { id: 'prod.tests', dimension: 'productionReadiness', weight: 1, description: 'Automated tests present', test: hasTests },
+  { id: 'prod.container', dimension: 'productionReadiness', weight: 1, description: 'Containerized build or runtime', test: f => f.hasContainer },
+  { id: 'prod.license', dimension: 'productionReadiness', weight: 1, description: 'LICENSE file present', test: f => f.hasLicense },
+  { id: 'prod.security', dimension: 'productionReadiness', weight: 1, description: 'SECURITY.md present', test: f => f.hasSecurityPolicy },
+  { id: 'prod.changelog', dimension: 'productionReadiness', weight: 1, description: 'CHANGELOG tracks releases', test: f => f.hasChangelog },
+];
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+// Only dimensions with rules get a baseline; the model scores the rest of a rubric on its own.
+export const computeBaseline = (
+  facts: RepoFacts,
+  dimensions: string[] = BUILT_IN_DIMENSIONS
+): Record<string, DimensionBaseline> => {
+  const baseline: Record<string, DimensionBaseline> = {};
+  for (const dimension of dimensions) {
+    const rules = SCORING_RULES.filter(r => r.dimension === dimension);
+    if (rules.length === 0) continue;
+    const fired = rules.filter(r => r.test(facts));
+    const totalWeight = rules.reduce((sum, r) => sum + r.weight, 0);
+    const firedWeight = fired.reduce((sum, r) => sum + r.weight, 0);
+    baseline[dimension] = {
+      score: totalWeight > 0 ? roundToHalf((5 * firedWeight) / totalWeight) : 0,
+      firedRules: fired.map(({ id, description, weight }) => ({ id, description, weight })),
+      totalWeight,
+    };
+  }
+  return baseline;
+};
+
+export interface ProposedAdjustment {
+  dimension: string;
+  justification: string;
+}
+
+// Keeps the model's score only where it justified the deviation, and never further
+// than MAX_ADJUSTMENT from the baseline. Unjustified deviations fall back to the baseline.
+export const reconcileWithBaseline = (
+  audit: RepoAudit & { adjustments?: (ScoreAdjustment | ProposedAdjustment)[] },
+  baseline: Record<string, DimensionBaseline>
+): RepoAudit => {
+  const proposed = audit.adjustments || [];
+  const reconciled: RepoAudit = { ...audit, scores: { ...audit.scores }, baseline, adjustments: [] };
+
+  for (const dimension of Object.keys(baseline)) {
+    const base = baseline[dimension].score;
+    const modelScore = audit.scores[dimension];
+    const justification = proposed.find(a => a.dimension === dimension)?.justification?.trim();
+
+    if (typeof modelScore !== 'number' || Math.abs(modelScore - base) < 0.01 || !justification) {
+      reconciled.scores[dimension] = base;
+      continue;
+    }
+
+    const score = Math.min(5, base + MAX_ADJUSTMENT, Math.max(0, base - MAX_ADJUSTMENT, modelScore));
+    reconciled.scores[dimension] = score;
+    reconciled.adjustments!.push({ dimension, baseline: base, score, justification });
+  }
+  return reconciled;
+};
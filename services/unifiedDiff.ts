@@ -0,0 +1,141 @@
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+const CONTEXT_LINES = 3;
+// Beyond this many cells the LCS table is too large; the file is shown as fully replaced.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Marks a final line without a trailing newline so that adding or removing the
+// newline shows up as a change, as it does in git.
+const NO_EOL = '\u0000';
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  else lines[lines.length - 1] += NO_EOL;
+  return lines;
+};
+
+// Line-level edit script via LCS, after trimming the common prefix and suffix.
+const editScript = (a: string[], b: string[]): DiffLine[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map(text => ({ type: 'context' as const, text }));
+  const suffix = a.slice(endA).map(text => ({ type: 'context' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map(text => ({ type: 'remove' as const, text })),
+      ...midB.map(text => ({ type: 'add' as const, text })),
+      ...suffix,
+    ];
+  }
+
+  const cols = midB.length + 1;
+  const table = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      table[i * cols + j] = midA[i] === midB[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: 'context', text: midA[i++] });
+      j++;
+    } else if (i < midA.length && (j === midB.length || table[(i + 1) * cols + j] >= table[i * cols + j + 1])) {
+      middle.push({ type: 'remove', text: midA[i++] });
+    } else {
+      middle.push({ type: 'add', text: midB[j++] });
+    }
+  }
+
+  return [...prefix, ...middle, ...suffix];
+};
+
+export const diffLines = (before: string, after: string): DiffHunk[] => {
+  const script = editScript(splitLines(before), splitLines(after));
+  const changes = script.map((line, i) => (line.type === 'context' ? -1 : i)).filter(i => i >= 0);
+  if (changes.length === 0) return [];
+
+  // 1-based line numbers of each script entry in the old and new file.
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of script) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  }
+
+  // Changes separated by no more than twice the context share a hunk.
+  const groups: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= CONTEXT_LINES * 2 + 1) last[1] = index;
+    else groups.push([index, index]);
+  }
+
+  return groups.map(([first, last]) => {
+    const from = Math.max(0, first - CONTEXT_LINES);
+    const lines = script.slice(from, Math.min(script.length, last + CONTEXT_LINES + 1));
+    return {
+      oldStart: oldNumbers[from],
+      oldLines: lines.filter(l => l.type !== 'add').length,
+      newStart: newNumbers[from],
+      newLines: lines.filter(l => l.type !== 'remove').length,
+      lines: lines.map(l => (l.text.endsWith(NO_EOL) ? { ...l, text: l.text.slice(0, -1), noNewline: true } : l)),
+    };
+  });
+};
+
+const hunkRange = (start: number, count: number) =>
+  count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+
+// Renders a git-style unified diff; `before === null` means the file is new.
+export const formatUnifiedDiff = (path: string, before: string | null, after: string): string => {
+  const hunks = diffLines(before ?? '', after);
+  if (hunks.length === 0) return '';
+
+  const out = [
+    before === null ? '--- /dev/null' : `--- a/${path}`,
+    `+++ b/${path}`,
+  ];
+  for (const hunk of hunks) {
+    out.push(`@@ -${hunkRange(hunk.oldStart, hunk.oldLines)} +${hunkRange(hunk.newStart, hunk.newLines)} @@`);
+    for (const line of hunk.lines) {
+      out.push((line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ') + line.text);
+      if (line.noNewline) out.push('\\ No newline at end of file');
+    }
+  }
+  return out.join('\n') + '\n';
+};
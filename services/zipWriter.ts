@@ -0,0 +1,108 @@
+import { GeminiError } from './errors';
+import { downloadBlob } from './download';
+import { safeRelativePath } from './generatedFiles';
+
+export interface ZipInput {
+  path: string;
+  content: string | Uint8Array;
+  lastModified?: number;
+}
+
+// --- UTILITIES ---
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const msToDosDateTime = (ms: number): { time: number; date: number } => {
+  const d = new Date(ms);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+};
+
+// --- ZIP ---
+const LOCAL_SIGNATURE = 0x04034b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+// Bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+
+// Writes an uncompressed (stored) ZIP archive. Generated text files are small,
+// so compression is not worth a dependency.
+export const createZip = (inputs: ZipInput[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const now = Date.now();
+  const entries = inputs.map(input => {
+    const data = typeof input.content === 'string' ? encoder.encode(input.content) : input.content;
+    const path = safeRelativePath(input.path.replace(/^\/+/, ''));
+    if (!path) throw new GeminiError(`Refusing to add "${input.path}" to the archive: the path leaves its folder.`);
+    return { name: encoder.encode(path), data, crc: crc32(data), ...msToDosDateTime(input.lastModified ?? now) };
+  });
+
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.name.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const e of entries) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_SIGNATURE, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, e.time, true);
+    view.setUint16(offset + 12, e.date, true);
+    view.setUint32(offset + 14, e.crc, true);
+    view.setUint32(offset + 18, e.data.length, true);
+    view.setUint32(offset + 22, e.data.length, true);
+    view.setUint16(offset + 26, e.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(e.name, offset + 30);
+    out.set(e.data, offset + 30 + e.name.length);
+    offset += 30 + e.name.length + e.data.length;
+  }
+
+  const centralStart = offset;
+  entries.forEach((e, i) => {
+    view.setUint32(offset, CENTRAL_SIGNATURE, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, e.time, true);
+    view.setUint16(offset + 14, e.date, true);
+    view.setUint32(offset + 16, e.crc, true);
+    view.setUint32(offset + 20, e.data.length, true);
+    view.setUint32(offset + 24, e.data.length, true);
+    view.setUint16(offset + 28, e.name.length, true);
+    // Extra field, comment, disk number, internal and external attributes stay zero.
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(e.name, offset + 46);
+    offset += 46 + e.name.length;
+  });
+
+  view.setUint32(offset, EOCD_SIGNATURE, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+};
+
+export const downloadZip = (inputs: ZipInput[], fileName: string) =>
+  downloadBlob(new Blob([createZip(inputs)], { type: 'application/zip' }), fileName);
@@ -1,24 +1,115 @@
+// The dimensions the rule-based baseline can score from collected facts.
+export type BuiltInDimension =
+  | 'documentation'
+  | 'buildDevX'
+  | 'testing'
+  | 'ciCd'
+  | 'security'
+  | 'observability'
+  | 'maintainability'
+  | 'productionReadiness';
+
+export interface FiredRule {
+  id: string;
+  description: string;
+  weight: number;
+}
+
+export interface DimensionBaseline {
+  score: number;
+  firedRules: FiredRule[];
+  // Sum of the weights of every rule for the dimension, fired or not.
+  totalWeight: number;
+}
+
+export interface ScoreAdjustment {
+  dimension: string;
+  baseline: number;
+  score: number;
+  justification: string;
+}
+
+// A web source behind a model statement, taken from the provider's search grounding.
+export interface Citation {
+  url: string;
+  title?: string;
+  // The part of the model's answer the source supports.
+  snippet?: string;
+}
+
 export interface RepoAudit {
-  documentation: number;
-  buildDevX: number;
-  testing: number;
-  ciCd: number;
-  security: number;
-  observability: number;
-  maintainability: number;
-  productionReadiness: number;
+  // 0-5 per dimension of the rubric the repo was audited with, keyed by dimension id.
+  scores: Record<string, number>;
   rationale: string;
+  // Sources the search grounding tied to the rationale.
+  citations?: Citation[];
   topFixes: string[];
+  // Present when the repo had collected facts: the rule-based starting point per dimension.
+  baseline?: Record<string, DimensionBaseline>;
+  // Model deviations from the baseline that were accepted, each with its justification.
+  adjustments?: ScoreAdjustment[];
+}
+
+export interface RepoFacts {
+  source: 'directory' | 'archive';
+  fileCount: number;
+  hasReadme: boolean;
+  hasLicense: boolean;
+  hasSecurityPolicy: boolean;
+  ciWorkflows: string[];
+  testDirectories: string[];
+  lockfiles: string[];
+  // Bytes of source code per language, derived from file extensions.
+  languages: Record<string, number>;
+  lastCommitAt: string | null;
+  // 'git' when read from .git/logs/HEAD, 'file-mtime' when approximated from file timestamps.
+  lastCommitSource: 'git' | 'file-mtime' | null;
+  manifests: string[];
+  hasContributing: boolean;
+  hasChangelog: boolean;
+  hasDocsDirectory: boolean;
+  hasContainer: boolean;
+  hasCodeowners: boolean;
+  hasDependencyBot: boolean;
+  hasTypeChecking: boolean;
+  ciRunsTests: boolean;
+  linters: string[];
+  testRunners: string[];
+  telemetryLibraries: string[];
+  loggingLibraries: string[];
+}
+
+export type RepoType = 'library' | 'service' | 'cli' | 'template';
+
+export interface RubricDimension {
+  // Key in RepoAudit.scores; letters and digits, starting with a letter.
+  id: string;
+  label: string;
+  // Tells the model what a 5 looks like for this dimension.
+  description: string;
+  weight: number;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  dimensions: RubricDimension[];
+  // Weight overrides per repo type, keyed by dimension id. A weight of 0 leaves the
+  // dimension out of that type's score.
+  profiles: Partial<Record<RepoType, Record<string, number>>>;
 }
 
 export interface RepoAnalysis {
   name: string;
   url: string;
   status: 'Active' | 'Dormant' | 'Archived' | 'Template' | 'Fork' | 'Unknown';
+  // Selects the rubric's weight profile; absent when the model could not tell.
+  repoType?: RepoType;
   primaryLanguage: string;
   frameworks: string[];
   audit: RepoAudit;
   description: string;
+  facts?: RepoFacts;
 }
 
 export interface ActionItem {
@@ -30,6 +121,26 @@ export interface ActionItem {
   rationale: string;
 }
 
+export type ActionStatus = 'todo' | 'inProgress' | 'done' | 'wontDo';
+
+// An ActionItem under tracking. Status and the owner fields survive later analyses that
+// propose the same action again; `item` always holds the latest wording.
+export interface TrackedAction {
+  id: string;
+  item: ActionItem;
+  status: ActionStatus;
+  assignee: string;
+  // ISO date (YYYY-MM-DD).
+  dueDate?: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  // The latest analysis of the item's repo no longer proposes it.
+  stale?: boolean;
+  // Ids of tracked actions on the same repo that must be finished first.
+  dependsOn?: string[];
+}
+
 export interface PortfolioSummary {
   executiveSummary: string;
   stats: {
@@ -43,17 +154,65 @@ export interface PortfolioSummary {
     name: string;
     description: string;
     impressiveFactor: string;
+    citations?: Citation[];
   }[];
 }
 
+export type ClaimSeverity = 'High' | 'Medium' | 'Low';
+
+// A contradiction between the owner's context/notes and the audit evidence.
+export interface Claim {
+  statement: string;
+  severity: ClaimSeverity;
+  // The repository the evidence comes from, when the claim is about one.
+  repo?: string;
+  // The contradicted context sentence, verbatim, and its 0-based position in contextSentences(context).
+  contextSentence?: string;
+  contextIndex?: number;
+  citations?: Citation[];
+}
+
 export interface AnalysisResult {
   summary: PortfolioSummary;
   repos: RepoAnalysis[];
   actions: ActionItem[];
-  claimsCheck: string[];
+  claimsCheck: Claim[];
+  // Notes from the validation layer for every model field it had to repair.
+  repairs?: string[];
+  // Prompt template versions the run used, e.g. "repoAudit@v1".
+  templates?: string[];
+  // The rubric the repos were scored with; results without one used DEFAULT_RUBRIC.
+  rubric?: Rubric;
+}
+
+export interface RepoFilters {
+  includeForks: boolean;
+  includeArchived: boolean;
+  // ISO date (YYYY-MM-DD); repos last pushed before it are dropped.
+  pushedSince?: string;
 }
 
 export interface InputState {
   urls: string;
   context: string;
-}
\ No newline at end of file
+  // Applied when a profile or organization URL is expanded into its repositories.
+  filters?: RepoFilters;
+}
+
+export interface AnalysisRecord {
+  id: string;
+  createdAt: string;
+  // Set when the record is overwritten, e.g. after retrying part of the run.
+  updatedAt?: string;
+  input: InputState;
+  result: AnalysisResult;
+}
+
+// One file produced by a generator, at the path it would occupy in the repository.
+export interface GeneratedFile {
+  path: string;
+  content: string;
+  language: string;
+  // Prompt template version that produced the file, e.g. "readme@v1" or "readme@custom-1a2b3c4d".
+  template?: string;
+}
@@ -12,7 +12,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_MODEL_PRO': JSON.stringify(env.LLM_MODEL_PRO),
+        'process.env.LLM_MODEL_FLASH': JSON.stringify(env.LLM_MODEL_FLASH),
+        // No GitHub token here: anything defined is inlined into the static bundle.
+        'process.env.GITHUB_API_URL': JSON.stringify(env.GITHUB_API_URL)
       },
       resolve: {
         alias: {